@@ -5,9 +5,18 @@ import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { api } from "@/lib/api-client"
 import { toast } from "sonner"
-import { Loader2, CreditCard, Settings as SettingsIcon } from "lucide-react"
+import { Loader2, CreditCard, Clock, Settings as SettingsIcon } from "lucide-react"
 import { PageHeader } from "@/components/shared/page-header"
 
 interface Subscription {
@@ -16,13 +25,30 @@ interface Subscription {
   current_period_end: string | null
 }
 
+interface Schedule {
+  notification_time: string
+  timezone: string
+  notification_email: boolean
+}
+
+// Browser's IANA timezone list, with UTC first
+const TIMEZONES = ["UTC", ...Intl.supportedValuesOf("timeZone").filter((tz) => tz !== "UTC")]
+
 export default function SettingsPage() {
   const router = useRouter()
   const [subscription, setSubscription] = useState<Subscription | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [schedule, setSchedule] = useState<Schedule>({
+    notification_time: "06:00",
+    timezone: "UTC",
+    notification_email: true,
+  })
+  const [isScheduleLoading, setIsScheduleLoading] = useState(true)
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false)
 
   useEffect(() => {
     loadSubscription()
+    loadSchedule()
   }, [])
 
   const loadSubscription = async () => {
@@ -38,6 +64,34 @@ export default function SettingsPage() {
     }
   }
 
+  const loadSchedule = async () => {
+    setIsScheduleLoading(true)
+    try {
+      const data = await api.user.getSchedule()
+      setSchedule(data.schedule)
+    } catch (error) {
+      toast.error("Failed to load schedule")
+      console.error(error)
+    } finally {
+      setIsScheduleLoading(false)
+    }
+  }
+
+  const handleSaveSchedule = async () => {
+    setIsSavingSchedule(true)
+    try {
+      const data = await api.user.updateSchedule(schedule)
+      setSchedule(data.schedule)
+      toast.success("Schedule saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save schedule")
+    } finally {
+      setIsSavingSchedule(false)
+    }
+  }
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
   const handleUpgrade = async () => {
     // This would need actual Stripe price IDs
     toast.info("Please configure Stripe price IDs in the billing service")
@@ -131,6 +185,91 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-stone-900">
+            <Clock className="h-5 w-5" />
+            Schedule
+          </CardTitle>
+          <CardDescription className="text-stone-600">
+            Choose when your sources are scraped and posts are generated each morning
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isScheduleLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-stone-400" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="notification-time" className="text-stone-700">Local time</Label>
+                  <Input
+                    id="notification-time"
+                    type="time"
+                    value={schedule.notification_time}
+                    onChange={(e) => setSchedule({ ...schedule, notification_time: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timezone" className="text-stone-700">Timezone</Label>
+                  <Select
+                    value={schedule.timezone}
+                    onValueChange={(timezone) => setSchedule({ ...schedule, timezone })}
+                  >
+                    <SelectTrigger id="timezone">
+                      <SelectValue placeholder="Select timezone" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {TIMEZONES.map((tz) => (
+                        <SelectItem key={tz} value={tz}>
+                          {tz.replace(/_/g, " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <p className="text-sm text-stone-600">
+                Runs start on the hour, so your posts arrive within an hour after this time.
+              </p>
+
+              <label className="flex items-center gap-2 text-sm text-stone-700">
+                <input
+                  type="checkbox"
+                  checked={schedule.notification_email}
+                  onChange={(e) => setSchedule({ ...schedule, notification_email: e.target.checked })}
+                  className="h-4 w-4 rounded border-stone-300 accent-orange-500"
+                />
+                Email me a digest when new posts are generated
+              </label>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSaveSchedule}
+                  disabled={isSavingSchedule}
+                  className="bg-gradient-to-r from-orange-500 to-purple-600 text-white"
+                >
+                  {isSavingSchedule && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Schedule
+                </Button>
+                {browserTimezone && browserTimezone !== schedule.timezone && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setSchedule({ ...schedule, timezone: browserTimezone })}
+                    className="border-stone-200 hover:bg-stone-50"
+                  >
+                    Use {browserTimezone.replace(/_/g, " ")}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-stone-900">
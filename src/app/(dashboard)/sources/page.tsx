@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -22,21 +22,85 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { api } from "@/lib/api-client"
+import type { ContentFiltersInput, ContentFilterPreview } from "@/lib/api-client"
 import { toast } from "sonner"
-import { Loader2, Plus, Trash2, Edit2, Database, RefreshCw, Mail, CheckCircle2 } from "lucide-react"
+import { Loader2, Plus, Trash2, Edit2, Database, RefreshCw, Mail, CheckCircle2, History, AlertTriangle, Upload, Download, Folder, Filter, Eye } from "lucide-react"
 import { PageHeader } from "@/components/shared/page-header"
 import { EmptyState } from "@/components/shared/empty-state"
+import { ChipInput } from "@/components/onboarding/chip-input"
 
 interface CustomSource {
   id: string
   source_url: string
   source_name: string
   source_type: string | null
+  category: string | null
   is_active: boolean
   last_scraped_at: string | null
+  health_status: "healthy" | "degraded" | "failing"
+  consecutive_failures: number
+  last_success_at: string | null
+  last_error: string | null
+  last_error_code: string | null
+  auto_paused_at: string | null
+  content_filters: Partial<ContentFiltersInput> | null
   created_at: string
 }
 
+interface ScrapeRun {
+  id: string
+  status: "success" | "failed"
+  started_at: string
+  duration_ms: number
+  items_seen: number
+  items_skipped: number
+  topics_created: number
+  error_code: string | null
+  error_message: string | null
+}
+
+interface OpmlImportResult {
+  url: string
+  title: string
+  category: string | null
+  status: string
+  error?: string
+}
+
+const IMPORT_STATUS_LABELS: Record<string, string> = {
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+  limit_reached: "Plan limit reached",
+}
+
+interface DiscoveredFeed {
+  url: string
+  title: string | null
+  format: string
+  discoveredVia: string
+}
+
+const FEED_FORMAT_LABELS: Record<string, string> = {
+  rss2: "RSS",
+  rdf: "RSS 1.0",
+  atom: "Atom",
+  json: "JSON Feed",
+}
+
+const HEALTH_BADGE_STYLES: Record<CustomSource["health_status"], { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-emerald-50 text-emerald-700 hover:bg-emerald-50" },
+  degraded: { label: "Degraded", className: "bg-amber-100 text-amber-700 hover:bg-amber-100" },
+  failing: { label: "Failing", className: "bg-red-100 text-red-700 hover:bg-red-100" },
+}
+
+// Failures that retrying won't fix, with what the user can do instead
+const SCRAPE_ERROR_EXPLANATIONS: Record<string, string> = {
+  ROBOTS_DISALLOWED:
+    "This site's robots.txt asks crawlers like PostDraft not to fetch this page, so we can't scrape it. Try the site's RSS feed or sitemap, or a different page.",
+  BLOCKED_URL:
+    "This URL points to a private or internal network address, which PostDraft doesn't fetch. Use a public URL instead.",
+}
+
 interface NewsletterSender {
   email: string
   name: string
@@ -49,9 +113,31 @@ interface NewsletterSource {
   source_name: string
   is_active: boolean
   last_scraped_at: string | null
+  content_filters: Partial<ContentFiltersInput> | null
   created_at: string
 }
 
+/**
+ * Fill in defaults for filters stored on a source ({} until the user sets any)
+ */
+function toContentFilters(value: Partial<ContentFiltersInput> | null | undefined): ContentFiltersInput {
+  return {
+    includeKeywords: value?.includeKeywords ?? [],
+    excludeKeywords: value?.excludeKeywords ?? [],
+    minContentLength: value?.minContentLength ?? 0,
+    maxItemsPerRun: value?.maxItemsPerRun ?? null,
+  }
+}
+
+function hasContentFilters(filters: ContentFiltersInput): boolean {
+  return (
+    filters.includeKeywords.length > 0 ||
+    filters.excludeKeywords.length > 0 ||
+    filters.minContentLength > 0 ||
+    filters.maxItemsPerRun !== null
+  )
+}
+
 export default function SourcesPage() {
   const [sources, setSources] = useState<CustomSource[]>([])
   const [newsletterSources, setNewsletterSources] = useState<NewsletterSource[]>([])
@@ -62,6 +148,14 @@ export default function SourcesPage() {
   const [sendersDialogOpen, setSendersDialogOpen] = useState(false)
   const [senders, setSenders] = useState<NewsletterSender[]>([])
   const [loadingSenders, setLoadingSenders] = useState(false)
+  const [historySource, setHistorySource] = useState<CustomSource | null>(null)
+  const [runs, setRuns] = useState<ScrapeRun[]>([])
+  const [loadingRuns, setLoadingRuns] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importResults, setImportResults] = useState<{ created: number; skipped: number; results: OpmlImportResult[] } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [feedOffer, setFeedOffer] = useState<{ sourceId: string; sourceUrl: string; feeds: DiscoveredFeed[] } | null>(null)
+  const [filteringNewsletter, setFilteringNewsletter] = useState<NewsletterSource | null>(null)
 
   useEffect(() => {
     loadSources()
@@ -81,18 +175,43 @@ export default function SourcesPage() {
     }
   }
 
-  const handleCreate = async (sourceUrl: string, sourceName: string, sourceType?: string) => {
+  const handleCreate = async (
+    sourceUrl: string,
+    sourceName: string,
+    sourceType?: string,
+    category?: string,
+    contentFilters?: ContentFiltersInput
+  ) => {
     try {
-      await api.sources.create(sourceUrl, sourceName, sourceType)
+      const created = await api.sources.create(sourceUrl, sourceName, sourceType, category, contentFilters)
       toast.success("Source created successfully!")
       setDialogOpen(false)
       loadSources()
+
+      if (created.discovered_feeds?.length > 0) {
+        setFeedOffer({ sourceId: created.id, sourceUrl, feeds: created.discovered_feeds })
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to create source")
     }
   }
 
-  const handleUpdate = async (id: string, updates: { sourceUrl?: string; sourceName?: string; sourceType?: string; isActive?: boolean }) => {
+  const handleUseFeed = async (feed: DiscoveredFeed) => {
+    if (!feedOffer) return
+    try {
+      await api.sources.update(feedOffer.sourceId, {
+        sourceUrl: feed.url !== feedOffer.sourceUrl ? feed.url : undefined,
+        sourceType: "rss",
+      })
+      toast.success("Source switched to its feed")
+      setFeedOffer(null)
+      loadSources()
+    } catch (error) {
+      toast.error("Failed to switch source to feed")
+    }
+  }
+
+  const handleUpdate = async (id: string, updates: { sourceUrl?: string; sourceName?: string; sourceType?: string; category?: string | null; contentFilters?: ContentFiltersInput; isActive?: boolean }) => {
     try {
       await api.sources.update(id, updates)
       toast.success("Source updated successfully!")
@@ -118,9 +237,46 @@ export default function SourcesPage() {
     try {
       await api.sources.triggerScrape(id)
       toast.success("Scrape triggered!")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to trigger scrape")
+    } finally {
+      // Failed attempts change the source's health too
       loadSources()
+    }
+  }
+
+  const handleImportOpml = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Allow re-selecting the same file
+    if (!file) return
+
+    setIsImporting(true)
+    try {
+      const opml = await file.text()
+      const result = await api.sources.importOpml(opml)
+      setImportResults(result)
+      if (result.created > 0) {
+        toast.success(`Imported ${result.created} source${result.created === 1 ? "" : "s"}`)
+        loadSources()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import OPML")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleShowHistory = async (source: CustomSource) => {
+    setHistorySource(source)
+    setRuns([])
+    setLoadingRuns(true)
+    try {
+      const data = await api.sources.getRuns(source.id)
+      setRuns(data.runs as ScrapeRun[])
     } catch (error) {
-      toast.error("Failed to trigger scrape")
+      toast.error("Failed to load scrape history")
+    } finally {
+      setLoadingRuns(false)
     }
   }
 
@@ -177,6 +333,17 @@ export default function SourcesPage() {
     }
   }
 
+  const handleUpdateNewsletterFilters = async (sourceId: string, contentFilters: ContentFiltersInput) => {
+    try {
+      await api.newsletters.updateFilters(sourceId, contentFilters)
+      toast.success("Filters saved!")
+      setFilteringNewsletter(null)
+      checkGmailConnection()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save filters")
+    }
+  }
+
   const handleScrapeNewsletter = async (sourceId: string) => {
     try {
       const result = await api.newsletters.scrapeNewsletter(sourceId)
@@ -275,21 +442,38 @@ export default function SourcesPage() {
                     <Badge variant="outline" className="border-stone-200 text-stone-700">
                       Newsletter
                     </Badge>
+                    {hasContentFilters(toContentFilters(source.content_filters)) && (
+                      <Badge variant="outline" className="border-stone-200 text-stone-700">
+                        <Filter className="mr-1 h-3 w-3" />
+                        Filtered
+                      </Badge>
+                    )}
                   </div>
                   {source.last_scraped_at && (
                     <p className="text-xs text-stone-500">
                       Last scraped: {new Date(source.last_scraped_at).toLocaleString()}
                     </p>
                   )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="w-full border-stone-200 hover:bg-stone-50"
-                    onClick={() => handleScrapeNewsletter(source.id)}
-                  >
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                    Scrape Newsletter
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 border-stone-200 hover:bg-stone-50"
+                      onClick={() => handleScrapeNewsletter(source.id)}
+                    >
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Scrape Newsletter
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-stone-200 hover:bg-stone-50"
+                      onClick={() => setFilteringNewsletter(source)}
+                    >
+                      <Filter className="mr-2 h-4 w-4" />
+                      Filters
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             ))}
@@ -299,20 +483,61 @@ export default function SourcesPage() {
 
       {/* Custom Sources Section */}
       <div className="space-y-4">
-        <h2 className="text-xl font-bold text-stone-900">Custom Sources</h2>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-xl font-bold text-stone-900">Custom Sources</h2>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+              className="hidden"
+              onChange={handleImportOpml}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isImporting}
+              onClick={() => importInputRef.current?.click()}
+              className="border-stone-200 hover:bg-stone-50"
+            >
+              {isImporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Import OPML
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              asChild
+              className="border-stone-200 hover:bg-stone-50"
+            >
+              <a href="/api/sources/custom/export" download>
+                <Download className="mr-2 h-4 w-4" />
+                Export OPML
+              </a>
+            </Button>
+          </div>
+        </div>
 
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogTrigger asChild>
           <span className="hidden" />
         </DialogTrigger>
-        <DialogContent className="rounded-xl border-stone-200">
+        <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-stone-900">Add Custom Source</DialogTitle>
             <DialogDescription className="text-stone-600">
               Add a new source to scrape for trending topics
             </DialogDescription>
           </DialogHeader>
-          <SourceForm onSubmit={handleCreate} onCancel={() => setDialogOpen(false)} />
+          <SourceForm
+            onSubmit={(url, name, type, _isActive, category, contentFilters) =>
+              handleCreate(url, name, type, category, hasContentFilters(contentFilters) ? contentFilters : undefined)
+            }
+            onCancel={() => setDialogOpen(false)}
+          />
         </DialogContent>
       </Dialog>
 
@@ -384,21 +609,72 @@ export default function SourcesPage() {
                       {source.source_type}
                     </Badge>
                   )}
+                  {source.category && (
+                    <Badge variant="outline" className="border-stone-200 text-stone-700">
+                      <Folder className="mr-1 h-3 w-3" />
+                      {source.category}
+                    </Badge>
+                  )}
+                  {hasContentFilters(toContentFilters(source.content_filters)) && (
+                    <Badge variant="outline" className="border-stone-200 text-stone-700">
+                      <Filter className="mr-1 h-3 w-3" />
+                      Filtered
+                    </Badge>
+                  )}
+                  <Badge
+                    variant="secondary"
+                    className={HEALTH_BADGE_STYLES[source.health_status]?.className}
+                  >
+                    {HEALTH_BADGE_STYLES[source.health_status]?.label ?? source.health_status}
+                  </Badge>
                 </div>
                 {source.last_scraped_at && (
                   <p className="text-xs text-stone-500">
                     Last scraped: {new Date(source.last_scraped_at).toLocaleString()}
                   </p>
                 )}
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full border-stone-200 hover:bg-stone-50"
-                  onClick={() => handleTriggerScrape(source.id)}
-                >
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Trigger Scrape
-                </Button>
+                {source.health_status !== "healthy" && source.last_error && (
+                  <div className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-xs text-red-700">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                    <span className="break-words">
+                      {source.consecutive_failures > 0 &&
+                        `Failed ${source.consecutive_failures} time${source.consecutive_failures === 1 ? "" : "s"} in a row: `}
+                      {source.last_error}
+                    </span>
+                  </div>
+                )}
+                {source.health_status !== "healthy" && source.last_error_code && SCRAPE_ERROR_EXPLANATIONS[source.last_error_code] && (
+                  <p className="text-xs text-stone-600">
+                    {SCRAPE_ERROR_EXPLANATIONS[source.last_error_code]}
+                  </p>
+                )}
+                {!source.is_active && source.auto_paused_at && (
+                  <p className="text-xs text-stone-500">
+                    Paused automatically on {new Date(source.auto_paused_at).toLocaleString()} after repeated failures.
+                    Fix the URL or re-activate the source to try again.
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 border-stone-200 hover:bg-stone-50"
+                    onClick={() => handleTriggerScrape(source.id)}
+                    disabled={!source.is_active}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Trigger Scrape
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-stone-200 hover:bg-stone-50"
+                    onClick={() => handleShowHistory(source)}
+                  >
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </Button>
+                </div>
               </CardContent>
             </Card>
           ))}
@@ -407,7 +683,7 @@ export default function SourcesPage() {
 
       {editingSource && (
         <Dialog open={!!editingSource} onOpenChange={(open) => !open && setEditingSource(null)}>
-          <DialogContent className="rounded-xl border-stone-200">
+          <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="text-stone-900">Edit Source</DialogTitle>
               <DialogDescription className="text-stone-600">
@@ -416,11 +692,16 @@ export default function SourcesPage() {
             </DialogHeader>
             <SourceForm
               source={editingSource}
-              onSubmit={(url, name, type, isActive) =>
+              onSubmit={(url, name, type, isActive, category, contentFilters) =>
                 handleUpdate(editingSource.id, {
                   sourceUrl: url !== editingSource.source_url ? url : undefined,
                   sourceName: name !== editingSource.source_name ? name : undefined,
                   sourceType: type !== editingSource.source_type ? type : undefined,
+                  category: (category || null) !== editingSource.category ? category || null : undefined,
+                  contentFilters:
+                    JSON.stringify(contentFilters) !== JSON.stringify(toContentFilters(editingSource.content_filters))
+                      ? contentFilters
+                      : undefined,
                   isActive: isActive !== editingSource.is_active ? isActive : undefined,
                 })
               }
@@ -430,6 +711,169 @@ export default function SourcesPage() {
         </Dialog>
       )}
 
+      {/* OPML Import Results Dialog */}
+      <Dialog open={!!importResults} onOpenChange={(open) => !open && setImportResults(null)}>
+        <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-stone-900">OPML Import</DialogTitle>
+            <DialogDescription className="text-stone-600">
+              {importResults?.created ?? 0} source{importResults?.created === 1 ? "" : "s"} imported,{" "}
+              {importResults?.skipped ?? 0} skipped
+            </DialogDescription>
+          </DialogHeader>
+          {importResults && importResults.skipped > 0 && (
+            <ul className="space-y-2">
+              {importResults.results
+                .filter((result) => result.status !== "created")
+                .map((result, index) => (
+                  <li key={`${result.url}-${index}`} className="rounded-lg border border-stone-200 p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate font-medium text-stone-900">{result.title}</span>
+                      <Badge
+                        variant="secondary"
+                        className={
+                          result.status === "duplicate"
+                            ? "bg-stone-100 text-stone-700 hover:bg-stone-100"
+                            : "bg-red-100 text-red-700 hover:bg-red-100"
+                        }
+                      >
+                        {IMPORT_STATUS_LABELS[result.status] ?? result.status}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 truncate text-xs text-stone-500">{result.url}</p>
+                    {result.error && <p className="mt-1 text-xs text-stone-600">{result.error}</p>}
+                  </li>
+                ))}
+            </ul>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setImportResults(null)}
+            className="border-stone-200 hover:bg-stone-50"
+          >
+            Done
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Discovered Feeds Dialog */}
+      <Dialog open={!!feedOffer} onOpenChange={(open) => !open && setFeedOffer(null)}>
+        <DialogContent className="rounded-xl border-stone-200">
+          <DialogHeader>
+            <DialogTitle className="text-stone-900">
+              {feedOffer?.feeds.length === 1 ? "We found a feed for this source" : "We found feeds for this source"}
+            </DialogTitle>
+            <DialogDescription className="text-stone-600">
+              Feeds list the site&apos;s latest articles, so they usually produce better topics than the page itself.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2">
+            {feedOffer?.feeds.map((feed) => (
+              <li
+                key={feed.url}
+                className="flex items-center justify-between gap-3 rounded-lg border border-stone-200 p-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-stone-900">
+                    {feed.title || (feed.discoveredVia === "direct" ? "This URL is a feed" : "Feed")}
+                  </p>
+                  <p className="truncate text-xs text-stone-500">{feed.url}</p>
+                </div>
+                <Badge variant="outline" className="border-stone-200 text-stone-700">
+                  {FEED_FORMAT_LABELS[feed.format] ?? feed.format}
+                </Badge>
+                <Button
+                  size="sm"
+                  onClick={() => handleUseFeed(feed)}
+                  className="bg-gradient-to-r from-orange-500 to-purple-600 text-white"
+                >
+                  Use feed
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <Button
+            variant="outline"
+            onClick={() => setFeedOffer(null)}
+            className="border-stone-200 hover:bg-stone-50"
+          >
+            Keep page URL
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Scrape History Dialog */}
+      <Dialog open={!!historySource} onOpenChange={(open) => !open && setHistorySource(null)}>
+        <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-stone-900">Scrape History</DialogTitle>
+            <DialogDescription className="text-stone-600">
+              Recent scrape attempts for {historySource?.source_name}
+            </DialogDescription>
+          </DialogHeader>
+          {loadingRuns ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-stone-400" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="py-4 text-center text-sm text-stone-500">
+              This source hasn&apos;t been scraped yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map((run) => (
+                <li key={run.id} className="rounded-lg border border-stone-200 p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge
+                      variant="secondary"
+                      className={
+                        run.status === "success"
+                          ? "bg-green-100 text-green-700 hover:bg-green-100"
+                          : "bg-red-100 text-red-700 hover:bg-red-100"
+                      }
+                    >
+                      {run.status === "success" ? "Success" : "Failed"}
+                    </Badge>
+                    <span className="text-xs text-stone-500">
+                      {new Date(run.started_at).toLocaleString()} &middot; {(run.duration_ms / 1000).toFixed(1)}s
+                    </span>
+                  </div>
+                  {run.status === "success" ? (
+                    <p className="mt-2 text-xs text-stone-600">
+                      {run.items_seen} item{run.items_seen === 1 ? "" : "s"} seen, {run.items_skipped} skipped,{" "}
+                      {run.topics_created} topic{run.topics_created === 1 ? "" : "s"} created
+                    </p>
+                  ) : (
+                    <p className="mt-2 break-words text-xs text-red-700">
+                      {run.error_message || run.error_code || "Unknown error"}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Newsletter Filters Dialog */}
+      {filteringNewsletter && (
+        <Dialog open={!!filteringNewsletter} onOpenChange={(open) => !open && setFilteringNewsletter(null)}>
+          <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-stone-900">Newsletter Filters</DialogTitle>
+              <DialogDescription className="text-stone-600">
+                Choose which emails from {filteringNewsletter.source_name} are used for topics
+              </DialogDescription>
+            </DialogHeader>
+            <NewsletterFiltersForm
+              source={filteringNewsletter}
+              onSubmit={(contentFilters) => handleUpdateNewsletterFilters(filteringNewsletter.id, contentFilters)}
+              onCancel={() => setFilteringNewsletter(null)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Newsletter Senders Selection Dialog */}
       <Dialog open={sendersDialogOpen} onOpenChange={setSendersDialogOpen}>
         <DialogContent className="rounded-xl border-stone-200 max-h-[80vh] overflow-y-auto">
@@ -457,13 +901,22 @@ function SourceForm({
   onCancel,
 }: {
   source?: CustomSource
-  onSubmit: (url: string, name: string, type?: string, isActive?: boolean) => void
+  onSubmit: (
+    url: string,
+    name: string,
+    type: string | undefined,
+    isActive: boolean,
+    category: string,
+    contentFilters: ContentFiltersInput
+  ) => void
   onCancel: () => void
 }) {
   const [url, setUrl] = useState(source?.source_url || "")
   const [name, setName] = useState(source?.source_name || "")
   const [type, setType] = useState(source?.source_type || "none")
+  const [category, setCategory] = useState(source?.category || "")
   const [isActive, setIsActive] = useState(source?.is_active ?? true)
+  const [contentFilters, setContentFilters] = useState(toContentFilters(source?.content_filters))
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -475,12 +928,22 @@ function SourceForm({
     setIsSubmitting(true)
     try {
       const sourceType = type === "none" ? undefined : type
-      await onSubmit(url, name, sourceType, isActive)
+      await onSubmit(url, name, sourceType, isActive, category.trim(), contentFilters)
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const handlePreview = () => {
+    if (!url) {
+      throw new Error("Enter a source URL to preview")
+    }
+    return api.sources.previewFilters(
+      { sourceUrl: url, sourceType: type === "none" ? undefined : type },
+      contentFilters
+    )
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
@@ -513,12 +976,24 @@ function SourceForm({
           <SelectContent>
             <SelectItem value="none">None</SelectItem>
             <SelectItem value="rss">RSS Feed</SelectItem>
+            <SelectItem value="sitemap">Sitemap</SelectItem>
             <SelectItem value="blog">Blog</SelectItem>
             <SelectItem value="newsletter">Newsletter</SelectItem>
             <SelectItem value="other">Other</SelectItem>
           </SelectContent>
         </Select>
       </div>
+      <div className="space-y-2">
+        <Label htmlFor="category" className="text-stone-700">Category (Optional)</Label>
+        <Input
+          id="category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="Tech / AI"
+          maxLength={200}
+        />
+      </div>
+      <ContentFiltersFields value={contentFilters} onChange={setContentFilters} onPreview={handlePreview} />
       <div className="flex items-center space-x-2">
         <input
           type="checkbox"
@@ -651,3 +1126,196 @@ function NewsletterSendersForm({
     </form>
   )
 }
+
+function ContentFiltersFields({
+  value,
+  onChange,
+  onPreview,
+}: {
+  value: ContentFiltersInput
+  onChange: (value: ContentFiltersInput) => void
+  onPreview: () => Promise<ContentFilterPreview>
+}) {
+  const [preview, setPreview] = useState<ContentFilterPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  const update = (changes: Partial<ContentFiltersInput>) => {
+    onChange({ ...value, ...changes })
+    setPreview(null) // The preview no longer matches the filters
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    try {
+      setPreview(await onPreview())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview filters")
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const passedCount = preview?.items.filter((item) => item.passed).length ?? 0
+
+  return (
+    <div className="space-y-4 rounded-lg border border-stone-200 p-3">
+      <div>
+        <p className="flex items-center gap-2 text-sm font-medium text-stone-900">
+          <Filter className="h-4 w-4" />
+          Filters (Optional)
+        </p>
+        <p className="mt-1 text-xs text-stone-500">
+          Items that don&apos;t pass are skipped before topic extraction.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label className="text-stone-700">Include keywords</Label>
+        <ChipInput
+          value={value.includeKeywords}
+          onChange={(includeKeywords) => update({ includeKeywords })}
+          placeholder="Only items mentioning one of these..."
+          maxItems={50}
+          maxLength={100}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-stone-700">Exclude keywords</Label>
+        <ChipInput
+          value={value.excludeKeywords}
+          onChange={(excludeKeywords) => update({ excludeKeywords })}
+          placeholder="Skip items mentioning any of these..."
+          maxItems={50}
+          maxLength={100}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="minContentLength" className="text-stone-700">Min length (characters)</Label>
+          <Input
+            id="minContentLength"
+            type="number"
+            min={0}
+            max={100000}
+            value={value.minContentLength || ""}
+            onChange={(e) => update({ minContentLength: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            placeholder="0"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maxItemsPerRun" className="text-stone-700">Max items per run</Label>
+          <Input
+            id="maxItemsPerRun"
+            type="number"
+            min={1}
+            max={100}
+            value={value.maxItemsPerRun ?? ""}
+            onChange={(e) => {
+              const maxItems = parseInt(e.target.value, 10)
+              update({ maxItemsPerRun: maxItems > 0 ? Math.min(maxItems, 100) : null })
+            }}
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handlePreview}
+        disabled={isPreviewing}
+        className="border-stone-200 hover:bg-stone-50"
+      >
+        {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+        Preview recent items
+      </Button>
+      {preview && (
+        preview.items.length === 0 ? (
+          <p className="text-xs text-stone-500">The source has no recent items to preview.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-stone-600">
+              {passedCount} of {preview.items.length} recent item{preview.items.length === 1 ? "" : "s"} would pass
+            </p>
+            <ul className="max-h-60 space-y-2 overflow-y-auto">
+              {preview.items.map((item, index) => (
+                <li key={`${item.url}-${index}`} className="rounded-md border border-stone-200 p-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium text-stone-900">{item.title || item.url}</span>
+                    <Badge
+                      variant="secondary"
+                      className={
+                        item.passed
+                          ? "bg-green-100 text-green-700 hover:bg-green-100"
+                          : "bg-stone-100 text-stone-700 hover:bg-stone-100"
+                      }
+                    >
+                      {item.passed ? "Passes" : "Skipped"}
+                    </Badge>
+                  </div>
+                  {item.reason && <p className="mt-1 text-stone-500">{item.reason}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
+function NewsletterFiltersForm({
+  source,
+  onSubmit,
+  onCancel,
+}: {
+  source: NewsletterSource
+  onSubmit: (contentFilters: ContentFiltersInput) => void
+  onCancel: () => void
+}) {
+  const [contentFilters, setContentFilters] = useState(toContentFilters(source.content_filters))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      await onSubmit(contentFilters)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ContentFiltersFields
+        value={contentFilters}
+        onChange={setContentFilters}
+        onPreview={() => api.newsletters.previewFilters(source.id, contentFilters)}
+      />
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1 border-stone-200 hover:bg-stone-50"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex-1 bg-gradient-to-r from-orange-500 to-purple-600 text-white transition-all hover:shadow-lg"
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Filters"
+          )}
+        </Button>
+      </div>
+    </form>
+  )
+}
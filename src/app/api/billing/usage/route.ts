@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { getUsageSummary } from "@/lib/services/usage"
+
+export const GET = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const usage = await getUsageSummary(auth.userId)
+    return NextResponse.json({ usage })
+  },
+  {
+    requireAuth: true,
+    methods: ["GET"],
+  }
+)
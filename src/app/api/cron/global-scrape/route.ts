@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifyCronRequest } from "@/lib/api/cron"
+import { processDueScrapeSources } from "@/lib/services/global-scrape"
+
+/**
+ * API route for the global niche scrape cron job
+ * Scrapes due scrape_sources rows and stores global (user_id IS NULL) trending topics
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication via CRON_SECRET
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) {
+      return unauthorized
+    }
+
+    console.log("Starting global scrape cron job", {
+      timestamp: new Date().toISOString(),
+    })
+
+    const result = await processDueScrapeSources()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error in global scrape cron job", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
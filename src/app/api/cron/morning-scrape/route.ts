@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
-import { processAllUsersMorningScrape } from "@/lib/services/morning-scrape"
+import { verifyCronRequest } from "@/lib/api/cron"
+import { enqueueMorningScrapeJobs } from "@/lib/services/morning-scrape"
 
 /**
  * API route for morning scraping cron job
+ * Only enqueues jobs for users whose morning run is due; /api/cron/process-jobs does the work
  * Protected by CRON_SECRET environment variable
  * 
  * Usage:
@@ -13,35 +15,17 @@ import { processAllUsersMorningScrape } from "@/lib/services/morning-scrape"
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication via CRON_SECRET
-    const authHeader = request.headers.get("authorization")
-    const cronSecret = process.env.CRON_SECRET
-
-    if (!cronSecret) {
-      console.error("CRON_SECRET is not configured")
-      return NextResponse.json(
-        { error: "Cron secret not configured" },
-        { status: 500 }
-      )
-    }
-
-    // Check authorization
-    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
-      // Also check for Vercel Cron header (if using Vercel)
-      const vercelCronHeader = request.headers.get("x-vercel-cron")
-      if (vercelCronHeader !== "1") {
-        return NextResponse.json(
-          { error: "Unauthorized" },
-          { status: 401 }
-        )
-      }
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) {
+      return unauthorized
     }
 
     console.log("Starting morning scrape cron job", {
       timestamp: new Date().toISOString(),
     })
 
-    // Process all users
-    const result = await processAllUsersMorningScrape()
+    // Enqueue jobs for due users
+    const result = await enqueueMorningScrapeJobs()
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifyCronRequest } from "@/lib/api/cron"
+import { drainJobQueue } from "@/lib/services/job-worker"
+
+/**
+ * API route for the job queue worker
+ * Claims and runs queued jobs in bounded batches, stopping before serverless time limits
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication via CRON_SECRET
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) {
+      return unauthorized
+    }
+
+    console.log("Starting job worker", {
+      timestamp: new Date().toISOString(),
+    })
+
+    const result = await drainJobQueue()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error in job worker", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
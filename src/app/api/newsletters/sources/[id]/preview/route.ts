@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandler } from '@/lib/api/route-wrapper'
+import { parseParams, parseJson } from '@/lib/api/validation'
+import { previewNewsletterFilters } from '@/lib/services/newsletters'
+import { contentFiltersSchema } from '@/lib/scraping'
+import { z } from 'zod'
+
+const paramsSchema = z.object({
+  id: z.string().uuid(),
+})
+
+const previewSchema = z.object({
+  contentFilters: contentFiltersSchema,
+})
+
+/**
+ * Show which of a newsletter source's recent emails would pass the given content filters
+ */
+export const POST = createRouteHandler(
+  async (request: NextRequest, { auth, params }) => {
+    if (!auth) throw new Error('Authentication required')
+
+    const { id } = parseParams(params || {}, paramsSchema)
+    const body = await parseJson(request, previewSchema)
+    const preview = await previewNewsletterFilters(auth.userId, id, body.contentFilters)
+
+    return NextResponse.json(preview)
+  },
+  { requireAuth: true, methods: ['POST'] }
+)
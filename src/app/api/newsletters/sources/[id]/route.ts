@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandler } from '@/lib/api/route-wrapper'
+import { parseParams, parseJson } from '@/lib/api/validation'
+import { updateNewsletterSourceFilters } from '@/lib/services/newsletters'
+import { contentFiltersSchema } from '@/lib/scraping'
+import { z } from 'zod'
+
+const paramsSchema = z.object({
+  id: z.string().uuid(),
+})
+
+const updateSchema = z.object({
+  contentFilters: contentFiltersSchema,
+})
+
+export const PATCH = createRouteHandler(
+  async (request: NextRequest, { auth, params }) => {
+    if (!auth) throw new Error('Authentication required')
+
+    const { id } = parseParams(params || {}, paramsSchema)
+    const body = await parseJson(request, updateSchema)
+    const source = await updateNewsletterSourceFilters(auth.userId, id, body.contentFilters)
+
+    return NextResponse.json(source)
+  },
+  { requireAuth: true, methods: ['PATCH'] }
+)
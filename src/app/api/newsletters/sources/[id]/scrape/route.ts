@@ -13,7 +13,8 @@ export const POST = createRouteHandler(
     if (!auth) throw new Error('Authentication required')
 
     const { id } = parseParams(params || {}, paramsSchema)
-    const result = await processNewsletterEmails(auth.userId, id)
+    // Stop fetching links if the client goes away before processing finishes
+    const result = await processNewsletterEmails(auth.userId, id, { signal: request.signal })
 
     return NextResponse.json(result)
   },
@@ -6,6 +6,8 @@ import {
   updateCustomSource,
   deleteCustomSource,
 } from "@/lib/services/custom-sources"
+import { contentFiltersSchema } from "@/lib/scraping"
+import type { ContentFilters } from "@/lib/scraping"
 import { z } from "zod"
 
 const paramsSchema = z.object({
@@ -16,6 +18,9 @@ const updateSchema = z.object({
   sourceUrl: z.string().url("Invalid source URL").optional(),
   sourceName: z.string().min(1).optional(),
   sourceType: z.string().optional(),
+  category: z.string().trim().max(200).nullable().optional(), // null or "" clears the category
+  adapterConfig: z.record(z.unknown()).optional(), // Validated against the source's adapter
+  contentFilters: contentFiltersSchema.optional(),
   isActive: z.boolean().optional(),
 })
 
@@ -50,12 +55,18 @@ export const PATCH = createRouteHandler(
       source_url?: string
       source_name?: string
       source_type?: string
+      category?: string | null
+      adapter_config?: Record<string, unknown>
+      content_filters?: ContentFilters
       is_active?: boolean
     } = {}
 
     if (body.sourceUrl) updates.source_url = body.sourceUrl
     if (body.sourceName) updates.source_name = body.sourceName
     if (body.sourceType) updates.source_type = body.sourceType
+    if (body.category !== undefined) updates.category = body.category || null
+    if (body.adapterConfig) updates.adapter_config = body.adapterConfig
+    if (body.contentFilters) updates.content_filters = body.contentFilters
     if (body.isActive !== undefined) updates.is_active = body.isActive
 
     const source = await updateCustomSource(id, auth.userId, updates)
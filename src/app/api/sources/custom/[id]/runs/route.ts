@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { parseParams } from "@/lib/api/validation"
+import { getCustomSourceRuns } from "@/lib/services/custom-sources"
+import { z } from "zod"
+
+const paramsSchema = z.object({
+  id: z.string().uuid("Invalid source ID"),
+})
+
+export const GET = createRouteHandler(
+  async (request: NextRequest, { auth, params }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const { id } = parseParams(params || {}, paramsSchema)
+    const runs = await getCustomSourceRuns(id, auth.userId)
+
+    return NextResponse.json({ runs })
+  },
+  {
+    requireAuth: true,
+    methods: ["GET"],
+  }
+)
@@ -15,7 +15,8 @@ export const POST = createRouteHandler(
     }
 
     const { id } = parseParams(params || {}, paramsSchema)
-    const result = await triggerScrape(id, auth.userId)
+    // Stop fetching if the client goes away before the scrape finishes
+    const result = await triggerScrape(id, auth.userId, { signal: request.signal })
 
     return NextResponse.json(result)
   },
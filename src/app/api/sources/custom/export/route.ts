@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { exportOpmlSources } from "@/lib/services/opml"
+
+export const GET = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const opml = await exportOpmlSources(auth.userId)
+
+    return new NextResponse(opml, {
+      headers: {
+        "Content-Type": "text/x-opml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="postdraft-sources.opml"`,
+      },
+    })
+  },
+  {
+    requireAuth: true,
+    methods: ["GET"],
+  }
+)
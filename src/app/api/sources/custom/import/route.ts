@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { parseJson } from "@/lib/api/validation"
+import { importOpmlSources } from "@/lib/services/opml"
+import { z } from "zod"
+
+const importSchema = z.object({
+  opml: z.string().min(1, "OPML content is required").max(1_000_000, "OPML file is too large"),
+})
+
+export const POST = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const body = await parseJson(request, importSchema)
+    const result = await importOpmlSources(auth.userId, body.opml)
+
+    return NextResponse.json(result)
+  },
+  {
+    requireAuth: true,
+    methods: ["POST"],
+  }
+)
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { parseJson } from "@/lib/api/validation"
+import { previewContentFilters } from "@/lib/services/custom-sources"
+import { contentFiltersSchema } from "@/lib/scraping"
+import { z } from "zod"
+
+const previewSchema = z.object({
+  sourceUrl: z.string().url("Invalid source URL"),
+  sourceType: z.string().optional(),
+  adapterConfig: z.record(z.unknown()).optional(),
+  contentFilters: contentFiltersSchema,
+})
+
+/**
+ * Show which of a source's current items would pass the given content filters
+ */
+export const POST = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const body = await parseJson(request, previewSchema)
+    const preview = await previewContentFilters(
+      auth.userId,
+      {
+        sourceUrl: body.sourceUrl,
+        sourceType: body.sourceType,
+        adapterConfig: body.adapterConfig,
+      },
+      body.contentFilters
+    )
+
+    return NextResponse.json(preview)
+  },
+  {
+    requireAuth: true,
+    methods: ["POST"],
+  }
+)
@@ -5,12 +5,16 @@ import {
   getUserCustomSources,
   createCustomSource,
 } from "@/lib/services/custom-sources"
+import { contentFiltersSchema } from "@/lib/scraping"
 import { z } from "zod"
 
 const createSchema = z.object({
   sourceUrl: z.string().url("Invalid source URL"),
   sourceName: z.string().min(1, "Source name is required"),
   sourceType: z.string().optional(),
+  category: z.string().trim().max(200).optional(),
+  adapterConfig: z.record(z.unknown()).optional(), // Validated against the source's adapter
+  contentFilters: contentFiltersSchema.optional(),
 })
 
 export const GET = createRouteHandler(
@@ -39,7 +43,10 @@ export const POST = createRouteHandler(
       auth.userId,
       body.sourceUrl,
       body.sourceName,
-      body.sourceType
+      body.sourceType,
+      body.category,
+      body.adapterConfig,
+      body.contentFilters
     )
 
     return NextResponse.json(source, { status: 201 })
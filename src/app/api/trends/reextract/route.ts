@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { parseJson } from "@/lib/api/validation"
+import { queueTopicReextraction } from "@/lib/services/scraped-documents"
+import { z } from "zod"
+
+// Neither ID: re-extract from all of the user's stored documents
+const reextractSchema = z
+  .object({
+    sourceId: z.string().uuid("Invalid source ID").optional(),
+    newsletterSourceId: z.string().uuid("Invalid newsletter source ID").optional(),
+  })
+  .refine((body) => !(body.sourceId && body.newsletterSourceId), {
+    message: "Pass sourceId or newsletterSourceId, not both",
+  })
+
+/**
+ * Queue a re-extraction of topics from stored documents; it runs in the job queue
+ */
+export const POST = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const body = await parseJson(request, reextractSchema)
+    const result = await queueTopicReextraction(auth.userId, body)
+
+    return NextResponse.json(result, { status: 202 })
+  },
+  {
+    requireAuth: true,
+    methods: ["POST"],
+  }
+)
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createRouteHandler } from "@/lib/api/route-wrapper"
+import { parseJson } from "@/lib/api/validation"
+import {
+  getSchedulePreferences,
+  updateSchedulePreferences,
+} from "@/lib/services/user-preferences"
+import { z } from "zod"
+
+const scheduleSchema = z
+  .object({
+    notification_time: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Notification time must be in HH:MM format")
+      .optional(),
+    timezone: z.string().min(1).max(64).optional(),
+    notification_email: z.boolean().optional(),
+  })
+  .refine(
+    (obj) => Object.keys(obj).length > 0,
+    "At least one schedule field is required"
+  )
+
+export const GET = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const schedule = await getSchedulePreferences(auth.userId)
+
+    return NextResponse.json({ schedule })
+  },
+  {
+    requireAuth: true,
+    methods: ["GET"],
+  }
+)
+
+export const PATCH = createRouteHandler(
+  async (request: NextRequest, { auth }) => {
+    if (!auth) {
+      throw new Error("Authentication required")
+    }
+
+    const body = await parseJson(request, scheduleSchema)
+    const schedule = await updateSchedulePreferences(auth.userId, body)
+
+    return NextResponse.json({ schedule })
+  },
+  {
+    requireAuth: true,
+    methods: ["PATCH"],
+  }
+)
@@ -1,9 +1,12 @@
 import Anthropic from "@anthropic-ai/sdk"
+import type { z } from "zod"
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 })
 
+const MODEL = "claude-sonnet-4-20250514"
+
 export async function generateWithClaude(
   prompt: string,
   systemPrompt?: string,
@@ -11,7 +14,7 @@ export async function generateWithClaude(
 ) {
   try {
     const message = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
+      model: MODEL,
       max_tokens: maxTokens,
       system: systemPrompt,
       messages: [
@@ -30,5 +33,114 @@ export async function generateWithClaude(
   }
 }
 
-export { anthropic }
+/**
+ * A prompt whose answer is data rather than prose
+ * Claude is made to answer by calling a tool with `inputSchema` (JSON Schema, which constrains the
+ * model), and the call's input is then checked with `schema` (zod, which we trust)
+ */
+export interface StructuredOutput<T> {
+  toolName: string // e.g. "record_topics"
+  toolDescription: string
+  inputSchema: Anthropic.Tool.InputSchema
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+}
+
+/**
+ * Thrown when Claude's output still doesn't match the schema after the repair attempts
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues: string) {
+    super(message)
+    this.name = "StructuredOutputError"
+  }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.errors
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ")
+}
+
+/**
+ * Generate structured output with Claude through a forced tool call, validated with zod
+ * When the tool input fails validation, Claude is shown the errors and asked to call the tool
+ * again, up to `maxRepairAttempts` times
+ *
+ * @throws StructuredOutputError if the output never validates
+ */
+export async function generateStructuredWithClaude<T>(
+  prompt: string,
+  output: StructuredOutput<T>,
+  systemPrompt?: string,
+  maxTokens: number = 1000,
+  maxRepairAttempts: number = 1
+): Promise<T> {
+  const messages: Anthropic.MessageParam[] = [{ role: "user", content: prompt }]
+
+  for (let attempt = 0; ; attempt++) {
+    let message: Anthropic.Message
+    try {
+      message = await anthropic.messages.create({
+        model: MODEL,
+        max_tokens: maxTokens,
+        system: systemPrompt,
+        tools: [
+          {
+            name: output.toolName,
+            description: output.toolDescription,
+            input_schema: output.inputSchema,
+          },
+        ],
+        tool_choice: { type: "tool", name: output.toolName },
+        messages,
+      })
+    } catch (error) {
+      console.error("Claude API error:", error)
+      throw new Error("Failed to generate content with Claude")
+    }
 
+    const toolUse = message.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === "tool_use" && block.name === output.toolName
+    )
+
+    const result = toolUse ? output.schema.safeParse(toolUse.input) : null
+    if (result?.success) {
+      return result.data
+    }
+
+    const issues = result
+      ? formatIssues(result.error)
+      : `No ${output.toolName} call in the response (stop reason: ${message.stop_reason})`
+
+    if (attempt >= maxRepairAttempts) {
+      throw new StructuredOutputError(`Claude's ${output.toolName} output is invalid: ${issues}`, issues)
+    }
+
+    console.warn(`Claude's ${output.toolName} output is invalid, asking for a repair`, {
+      attempt: attempt + 1,
+      issues,
+      stopReason: message.stop_reason,
+      timestamp: new Date().toISOString(),
+    })
+
+    // Without a tool call (e.g. cut off at max_tokens) there's nothing to correct, so just ask again
+    if (toolUse) {
+      messages.push(
+        { role: "assistant", content: message.content },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: toolUse.id,
+              is_error: true,
+              content: `The input doesn't match the schema: ${issues}. Call ${output.toolName} again with the whole corrected input.`,
+            },
+          ],
+        }
+      )
+    }
+  }
+}
+
+export { anthropic }
@@ -12,6 +12,32 @@ export interface ApiError {
   }
 }
 
+/**
+ * Per-source content filters (see src/lib/scraping/content-filter.ts)
+ */
+export interface ContentFiltersInput {
+  includeKeywords: string[]
+  excludeKeywords: string[]
+  minContentLength: number
+  maxItemsPerRun: number | null
+}
+
+/**
+ * A source's current items and whether each would pass the filters being previewed
+ */
+export interface ContentFilterPreview {
+  adapter: string
+  items: Array<{
+    url: string
+    title: string | null
+    excerpt: string | null
+    content_length: number
+    publish_date: string | null
+    passed: boolean
+    reason: string | null
+  }>
+}
+
 /**
  * Generic API fetch wrapper with error handling
  */
@@ -102,6 +128,13 @@ export const api = {
     getById: async (id: string) => {
       return apiFetch(`/api/trends/${id}`)
     },
+    // Re-extract topics from stored documents for one source, or all of them (runs in the background)
+    reextract: async (scope: { sourceId?: string; newsletterSourceId?: string } = {}) => {
+      return apiFetch<{ queued: boolean; documents: number }>("/api/trends/reextract", {
+        method: "POST",
+        body: JSON.stringify(scope),
+      })
+    },
   },
 
   // Posts
@@ -139,10 +172,28 @@ export const api = {
     list: async () => {
       return apiFetch<{ sources: unknown[] }>("/api/sources/custom")
     },
-    create: async (sourceUrl: string, sourceName: string, sourceType?: string) => {
-      return apiFetch("/api/sources/custom", {
+    create: async (
+      sourceUrl: string,
+      sourceName: string,
+      sourceType?: string,
+      category?: string,
+      contentFilters?: ContentFiltersInput
+    ) => {
+      return apiFetch<{
+        id: string
+        discovered_feeds: Array<{ url: string; title: string | null; format: string; discoveredVia: string }>
+      }>("/api/sources/custom", {
+        method: "POST",
+        body: JSON.stringify({ sourceUrl, sourceName, sourceType, category, contentFilters }),
+      })
+    },
+    previewFilters: async (
+      source: { sourceUrl: string; sourceType?: string },
+      contentFilters: ContentFiltersInput
+    ) => {
+      return apiFetch<ContentFilterPreview>("/api/sources/custom/preview", {
         method: "POST",
-        body: JSON.stringify({ sourceUrl, sourceName, sourceType }),
+        body: JSON.stringify({ ...source, contentFilters }),
       })
     },
     getById: async (id: string) => {
@@ -164,6 +215,32 @@ export const api = {
         method: "POST",
       })
     },
+    getRuns: async (id: string) => {
+      return apiFetch<{ runs: unknown[] }>(`/api/sources/custom/${id}/runs`)
+    },
+    importOpml: async (opml: string) => {
+      return apiFetch<{
+        results: Array<{ url: string; title: string; category: string | null; status: string; error?: string }>
+        created: number
+        skipped: number
+      }>("/api/sources/custom/import", {
+        method: "POST",
+        body: JSON.stringify({ opml }),
+      })
+    },
+  },
+
+  // User settings
+  user: {
+    getSchedule: async () => {
+      return apiFetch<{ schedule: { notification_time: string; timezone: string; notification_email: boolean } }>("/api/user/schedule")
+    },
+    updateSchedule: async (updates: { notification_time?: string; timezone?: string; notification_email?: boolean }) => {
+      return apiFetch<{ schedule: { notification_time: string; timezone: string; notification_email: boolean } }>("/api/user/schedule", {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      })
+    },
   },
 
   // Billing
@@ -171,6 +248,9 @@ export const api = {
     getSubscription: async () => {
       return apiFetch<{ subscription: unknown }>("/api/billing/subscription")
     },
+    getUsage: async () => {
+      return apiFetch<{ usage: unknown }>("/api/billing/usage")
+    },
     createCheckout: async (priceId: string, planTier: string) => {
       return apiFetch<{ sessionId: string; url: string }>(
         "/api/billing/create-checkout",
@@ -222,5 +302,17 @@ export const api = {
         method: "POST",
       })
     },
+    updateFilters: async (sourceId: string, contentFilters: ContentFiltersInput) => {
+      return apiFetch(`/api/newsletters/sources/${sourceId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ contentFilters }),
+      })
+    },
+    previewFilters: async (sourceId: string, contentFilters: ContentFiltersInput) => {
+      return apiFetch<ContentFilterPreview>(`/api/newsletters/sources/${sourceId}/preview`, {
+        method: "POST",
+        body: JSON.stringify({ contentFilters }),
+      })
+    },
   },
 }
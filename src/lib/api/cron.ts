@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+
+/**
+ * Verify that a request comes from our scheduler.
+ * Accepts `Authorization: Bearer <CRON_SECRET>` or the Vercel Cron header.
+ * Returns an error response to send back, or null when the request is allowed.
+ */
+export function verifyCronRequest(request: NextRequest): NextResponse | null {
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured")
+    return NextResponse.json(
+      { error: "Cron secret not configured" },
+      { status: 500 }
+    )
+  }
+
+  // Check authorization
+  if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+    // Also check for Vercel Cron header (if using Vercel)
+    const vercelCronHeader = request.headers.get("x-vercel-cron")
+    if (vercelCronHeader !== "1") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+  }
+
+  return null
+}
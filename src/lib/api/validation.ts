@@ -4,10 +4,11 @@ import { ApiError } from "./auth"
 
 /**
  * Parse and validate JSON request body with Zod schema
+ * Typed by the schema's output, so fields with defaults come back filled in
  */
 export async function parseJson<T>(
   request: NextRequest,
-  schema: ZodSchema<T>
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
 ): Promise<T> {
   try {
     const body = await request.json()
@@ -0,0 +1,145 @@
+/**
+ * Pluggable mailer for outgoing email
+ * The transport is chosen by MAIL_TRANSPORT ("smtp", "file" or "console"):
+ * - smtp: sends via SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASSWORD
+ * - file: writes each message as JSON to MAIL_FILE_DIR (default .mail) for local development and tests
+ * - console: logs each message
+ * When MAIL_TRANSPORT is unset, smtp is used if SMTP_HOST is configured, otherwise console
+ */
+
+import { promises as fs } from "fs"
+import path from "path"
+import nodemailer from "nodemailer"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface MailResult {
+  messageId: string | null
+}
+
+/**
+ * A mail transport; implement this to add a new delivery mechanism
+ */
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<MailResult>
+}
+
+/**
+ * SMTP transport (works with any SMTP provider, including Resend's smtp.resend.com)
+ */
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error("SMTP_HOST is not configured")
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587", 10)
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail(message)
+      return { messageId: info.messageId || null }
+    },
+  }
+}
+
+/**
+ * File transport - writes each message to a JSON file instead of sending it
+ */
+export function createFileTransport(directory: string = process.env.MAIL_FILE_DIR || ".mail"): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+      const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+      const filePath = path.join(directory, `${messageId}.json`)
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ ...message, messageId, sentAt: new Date().toISOString() }, null, 2)
+      )
+      return { messageId }
+    },
+  }
+}
+
+/**
+ * Console transport - logs each message instead of sending it
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`Email to ${message.to}: ${message.subject}`, {
+        from: message.from,
+        text: message.text,
+        timestamp: new Date().toISOString(),
+      })
+      return { messageId: null }
+    },
+  }
+}
+
+let transportOverride: MailTransport | null = null
+
+/**
+ * Replace the configured transport (e.g. with a file transport in tests); pass null to reset
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  transportOverride = transport
+}
+
+/**
+ * Resolve the transport from MAIL_TRANSPORT / SMTP_HOST
+ */
+export function getMailTransport(): MailTransport {
+  if (transportOverride) {
+    return transportOverride
+  }
+
+  const configured = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console")
+
+  switch (configured) {
+    case "smtp":
+      return createSmtpTransport()
+    case "file":
+      return createFileTransport()
+    case "console":
+      return createConsoleTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${configured}`)
+  }
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<MailResult> {
+  const transport = getMailTransport()
+  const from = process.env.MAIL_FROM || "PostDraft <notifications@localhost>"
+
+  const result = await transport.send({ ...message, from })
+
+  console.log(`Sent email via ${transport.name}`, {
+    to: message.to,
+    subject: message.subject,
+    messageId: result.messageId,
+    timestamp: new Date().toISOString(),
+  })
+
+  return result
+}
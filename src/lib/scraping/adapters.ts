@@ -0,0 +1,205 @@
+import { z } from "zod"
+import type { ScrapeError, NotModifiedResult, FetchedDocument } from "./types"
+import { isNotModified, isScrapedContent } from "./types"
+import type { SourceAdapter, SourceFetchResult } from "./source-adapter"
+import { fetchPage, parsePage } from "./scraper"
+import { isRssFeedUrl, fetchRssFeed, parseRssFeed } from "./rss-scraper"
+import { isSitemapUrl, fetchSitemapPages, normalizeSitemapPages, type FetchedSitemap } from "./sitemap-scraper"
+import { isRedditUrl, fetchRedditUrl, normalizeRedditUrl, type FetchedRedditUrl } from "./reddit-scraper"
+import {
+  HACKER_NEWS_DIGEST_STORIES,
+  isHackerNewsUrl,
+  fetchHackerNewsUrl,
+  normalizeHackerNewsItems,
+  digestHackerNewsItems,
+  type FetchedHackerNewsUrl,
+} from "./hackernews-scraper"
+import { fetchProductHuntLaunches, normalizeProductHuntLaunches, type ProductHuntPost } from "./producthunt-scraper"
+import {
+  isGoogleTrendsUrl,
+  fetchGoogleTrends,
+  normalizeGoogleTrends,
+  type FetchedGoogleTrends,
+} from "./google-trends-scraper"
+
+/**
+ * Map a fetcher's return value (raw data, a ScrapeError or a 304) onto a SourceFetchResult
+ */
+function toFetchResult<T extends object>(result: T | ScrapeError | NotModifiedResult): SourceFetchResult<T> {
+  if (isNotModified(result)) {
+    return { status: "not_modified", validators: result.validators }
+  }
+  if ("error" in result && "timestamp" in result) {
+    return { status: "failed", error: result as ScrapeError }
+  }
+  return { status: "fetched", data: result as T }
+}
+
+const noOptions = z.object({}).strict()
+
+/**
+ * A single HTML page (the fallback for any URL no other adapter claims)
+ */
+const webAdapter: SourceAdapter<z.infer<typeof noOptions>, FetchedDocument> = {
+  id: "web",
+  name: "web page",
+  sourceTypes: ["web"],
+  priority: 0,
+  configSchema: noOptions,
+  match: () => true,
+  fetch: async (source) => toFetchResult(await fetchPage(source.url, { validators: source.validators, signal: source.signal })),
+  normalize: (page) => {
+    const content = parsePage(page)
+    return isScrapedContent(content) ? [content] : content
+  },
+}
+
+/**
+ * RSS, Atom, RDF and JSON feeds; one item per entry
+ */
+const rssAdapter: SourceAdapter<z.infer<typeof noOptions>, FetchedDocument> = {
+  id: "rss",
+  name: "RSS feed",
+  sourceTypes: ["rss"],
+  priority: 40,
+  configSchema: noOptions,
+  match: isRssFeedUrl,
+  fetch: async (source) => toFetchResult(await fetchRssFeed(source.url, { validators: source.validators, signal: source.signal })),
+  normalize: parseRssFeed,
+}
+
+const sitemapConfig = z
+  .object({
+    pathPrefix: z.string().startsWith("/", "Path prefix must start with /").optional(),
+  })
+  .strict()
+
+/**
+ * Sitemaps and sitemap indexes; scrapes the pages changed since the previous run
+ * Outranks RSS because "sitemap.xml" would otherwise look like a feed URL
+ */
+const sitemapAdapter: SourceAdapter<z.infer<typeof sitemapConfig>, FetchedSitemap> = {
+  id: "sitemap",
+  name: "sitemap",
+  sourceTypes: ["sitemap"],
+  priority: 50,
+  configSchema: sitemapConfig,
+  match: isSitemapUrl,
+  fetch: async (source) =>
+    toFetchResult(
+      await fetchSitemapPages(source.url, {
+        since: source.since,
+        pathPrefix: source.config.pathPrefix,
+        signal: source.signal,
+        onProgress: source.onProgress,
+      })
+    ),
+  normalize: normalizeSitemapPages,
+}
+
+/**
+ * Subreddits and Reddit posts, via Reddit's JSON API
+ */
+const redditAdapter: SourceAdapter<z.infer<typeof noOptions>, FetchedRedditUrl> = {
+  id: "reddit",
+  name: "Reddit",
+  sourceTypes: ["reddit"],
+  priority: 100,
+  configSchema: noOptions,
+  match: isRedditUrl,
+  fetch: async (source) => toFetchResult(await fetchRedditUrl(source.url)),
+  normalize: (data) => {
+    const content = normalizeRedditUrl(data)
+    return isScrapedContent(content) ? [content] : content
+  },
+}
+
+const hackerNewsConfig = z
+  .object({
+    // digest: a listing becomes one document, like a subreddit; stories: one item per story,
+    // so each story is deduped on its own content hash
+    mode: z.enum(["digest", "stories"]).default("digest"),
+    maxStories: z.number().int().min(1).max(30).default(10),
+  })
+  .strict()
+
+/**
+ * Hacker News listings and items, via the Firebase API
+ */
+const hackerNewsAdapter: SourceAdapter<z.infer<typeof hackerNewsConfig>, FetchedHackerNewsUrl> = {
+  id: "hackernews",
+  name: "Hacker News",
+  sourceTypes: ["hackernews"],
+  priority: 100,
+  configSchema: hackerNewsConfig,
+  match: isHackerNewsUrl,
+  fetch: async (source) =>
+    toFetchResult(
+      await fetchHackerNewsUrl(
+        source.url,
+        source.config.mode === "stories" ? source.config.maxStories : HACKER_NEWS_DIGEST_STORIES
+      )
+    ),
+  normalize: (data, source) => {
+    const items = normalizeHackerNewsItems(data)
+    if (!Array.isArray(items) || source.config.mode === "stories") {
+      return items
+    }
+    return [digestHackerNewsItems(data, items)]
+  },
+}
+
+const productHuntConfig = z
+  .object({
+    maxLaunches: z.number().int().min(1).max(50).default(20),
+  })
+  .strict()
+
+/**
+ * Today's Product Hunt launches, via the GraphQL API
+ * Selected by source_type only; a producthunt.com URL on its own is scraped as a page
+ */
+const productHuntAdapter: SourceAdapter<z.infer<typeof productHuntConfig>, ProductHuntPost[]> = {
+  id: "producthunt",
+  name: "Product Hunt",
+  sourceTypes: ["producthunt"],
+  priority: 100,
+  configSchema: productHuntConfig,
+  match: () => false,
+  fetch: async (source) => toFetchResult(await fetchProductHuntLaunches(source.url, source.config.maxLaunches)),
+  normalize: (posts, source) => normalizeProductHuntLaunches(posts, source.url),
+}
+
+const googleTrendsConfig = z
+  .object({
+    maxTrends: z.number().int().min(1).max(50).default(20),
+  })
+  .strict()
+
+/**
+ * Daily trending searches for the region in the URL's geo param
+ */
+const googleTrendsAdapter: SourceAdapter<z.infer<typeof googleTrendsConfig>, FetchedGoogleTrends> = {
+  id: "google_trends",
+  name: "Google Trends",
+  sourceTypes: ["google_trends"],
+  priority: 100,
+  configSchema: googleTrendsConfig,
+  match: isGoogleTrendsUrl,
+  fetch: async (source) => toFetchResult(await fetchGoogleTrends(source.url)),
+  normalize: (trends, source) => normalizeGoogleTrends(trends, source.config.maxTrends),
+}
+
+/**
+ * Adapters registered when the registry loads (see source-adapter.ts)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- each adapter has its own config and raw types
+export const builtInSourceAdapters: SourceAdapter<any, any>[] = [
+  webAdapter,
+  rssAdapter,
+  sitemapAdapter,
+  redditAdapter,
+  hackerNewsAdapter,
+  productHuntAdapter,
+  googleTrendsAdapter,
+]
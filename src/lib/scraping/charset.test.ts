@@ -0,0 +1,78 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "fs"
+import { join } from "path"
+import { decodeResponseText, detectCharset } from "./charset"
+
+// Pages saved in their legacy encodings, so decoding is checked against real bytes rather than UTF-8 source text
+const readFixture = (name: string) => new Uint8Array(readFileSync(join(__dirname, "__fixtures__", "charset", name)))
+
+const utf8 = (text: string) => new Uint8Array(Buffer.from(text, "utf8"))
+
+test("decodes with the charset from the Content-Type header", () => {
+  const bytes = readFixture("windows-1250.html")
+  const text = decodeResponseText(bytes, "text/html; charset=windows-1250")
+
+  assert.deepEqual(detectCharset(bytes, 'text/html; charset="windows-1250"'), {
+    charset: "windows-1250",
+    source: "content-type",
+  })
+  assert.match(text, /<title>Źródła energii odnawialnej w Polsce<\/title>/)
+  assert.match(text, /Zażółć gęślą jaźń\./)
+})
+
+test("decodes with the charset from a <meta> declaration when the header has none", () => {
+  const bytes = readFixture("shift_jis-meta.html")
+  const text = decodeResponseText(bytes, "text/html")
+
+  assert.deepEqual(detectCharset(bytes, "text/html"), { charset: "shift_jis", source: "meta" })
+  assert.match(text, /<title>東京の桜が満開に<\/title>/)
+  assert.match(text, /上野公園には多くの花見客が訪れています。/)
+})
+
+test("the header charset takes precedence over the document's own declaration", () => {
+  const bytes = utf8('<html><head><meta charset="windows-1252"></head><body>café</body></html>')
+
+  assert.deepEqual(detectCharset(bytes, "text/html; charset=utf-8"), { charset: "utf-8", source: "content-type" })
+  assert.match(decodeResponseText(bytes, "text/html; charset=utf-8"), /café/)
+})
+
+test("reads the encoding from an XML declaration", () => {
+  const bytes = new Uint8Array(
+    Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?><rss><title>Caf\xe9</title></rss>', "latin1")
+  )
+
+  assert.deepEqual(detectCharset(bytes, "application/rss+xml"), { charset: "windows-1252", source: "xml-declaration" })
+  assert.match(decodeResponseText(bytes, "application/rss+xml"), /<title>Café<\/title>/)
+})
+
+test("a byte order mark overrides any declared charset", () => {
+  const utf8WithBom = new Uint8Array([0xef, 0xbb, 0xbf, ...utf8("Zażółć")])
+  assert.deepEqual(detectCharset(utf8WithBom, "text/html; charset=windows-1250"), { charset: "utf-8", source: "bom" })
+  assert.equal(decodeResponseText(utf8WithBom, "text/html; charset=windows-1250"), "Zażółć")
+
+  const utf16WithBom = new Uint8Array(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("桜", "utf16le")]))
+  assert.deepEqual(detectCharset(utf16WithBom, null), { charset: "utf-16le", source: "bom" })
+  assert.equal(decodeResponseText(utf16WithBom, null), "桜")
+})
+
+test("sniffs Shift_JIS from undeclared bytes", () => {
+  const bytes = readFixture("shift_jis-undeclared.html")
+
+  assert.deepEqual(detectCharset(bytes, null), { charset: "shift_jis", source: "sniffed" })
+  assert.match(decodeResponseText(bytes, null), /今年の桜は例年より早く/)
+})
+
+test("undeclared bytes that aren't UTF-8 or Japanese fall back to windows-1252", () => {
+  const bytes = new Uint8Array(Buffer.from("<p>Caf\xe9 cr\xe8me br\xfbl\xe9e</p>", "latin1"))
+
+  assert.deepEqual(detectCharset(bytes, "text/html"), { charset: "windows-1252", source: "sniffed" })
+  assert.equal(decodeResponseText(bytes, "text/html"), "<p>Café crème brûlée</p>")
+})
+
+test("an unknown charset label is ignored in favour of the next source", () => {
+  const bytes = utf8("<p>Zażółć</p>")
+
+  assert.deepEqual(detectCharset(bytes, "text/html; charset=x-made-up"), { charset: "utf-8", source: "sniffed" })
+  assert.equal(decodeResponseText(bytes, "text/html; charset=x-made-up"), "<p>Zażółć</p>")
+})
@@ -0,0 +1,125 @@
+// How far into the body to look for an in-document declaration. The HTML spec prescans 1024 bytes,
+// but plenty of CMS templates put <meta charset> after a long run of <link> and <script> tags
+const PRESCAN_BYTES = 4096
+
+// How much of the body byte sniffing looks at
+const SNIFF_BYTES = 64 * 1024
+
+/**
+ * Where a body's charset came from, in order of precedence
+ */
+export type CharsetSource = "bom" | "content-type" | "xml-declaration" | "meta" | "sniffed"
+
+/**
+ * Resolve a charset label to its canonical encoding name ("Shift_JIS" -> "shift_jis",
+ * "latin1" -> "windows-1252"), or null if the runtime can't decode it
+ */
+function resolveCharset(label: string | null | undefined): string | null {
+  if (!label) return null
+  try {
+    return new TextDecoder(label.trim()).encoding
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A charset declared inside the document itself
+ * The declaration was readable as ASCII, so a UTF-16 label is wrong and UTF-8 is meant (as browsers assume)
+ */
+function resolveDeclaredCharset(label: string | undefined): string | null {
+  const charset = resolveCharset(label)
+  return charset?.startsWith("utf-16") ? "utf-8" : charset
+}
+
+/**
+ * Charset named by a byte order mark, which overrides any declaration
+ */
+function getBomCharset(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  return null
+}
+
+/**
+ * Check whether text decoded with a Japanese charset reads as Japanese: real text is full of kana,
+ * while Latin-1 bytes misread as Shift_JIS or EUC-JP come out as scattered kanji
+ */
+function looksJapanese(text: string): boolean {
+  const nonAscii = text.match(/[^\x00-\x7f]/g)?.length ?? 0
+  const kana = text.match(/[\u3040-\u30ff]/g)?.length ?? 0
+  return nonAscii > 0 && kana / nonAscii > 0.2
+}
+
+/**
+ * Guess the charset of an undeclared body
+ * Valid UTF-8 is taken as UTF-8, then Shift_JIS and EUC-JP are tried; anything else is read as
+ * windows-1252, the web's default for unlabelled pages (and a superset of ISO-8859-1)
+ */
+function sniffCharset(bytes: Uint8Array): string {
+  const sample = bytes.subarray(0, SNIFF_BYTES)
+
+  for (const candidate of ["utf-8", "shift_jis", "euc-jp"]) {
+    try {
+      // stream: true so a character cut off at the end of the sample isn't counted as invalid
+      const text = new TextDecoder(candidate, { fatal: true }).decode(sample, { stream: true })
+      if (candidate === "utf-8" || looksJapanese(text)) {
+        return candidate
+      }
+    } catch {
+      // Not valid in this charset
+    }
+  }
+
+  return "windows-1252"
+}
+
+/**
+ * Work out the charset of an HTTP response body
+ * Precedence follows browsers: byte order mark, then the Content-Type header, then the document's
+ * own XML declaration or <meta charset>, then sniffing the bytes
+ */
+export function detectCharset(
+  bytes: Uint8Array,
+  contentType: string | null
+): { charset: string; source: CharsetSource } {
+  const bomCharset = getBomCharset(bytes)
+  if (bomCharset) {
+    return { charset: bomCharset, source: "bom" }
+  }
+
+  const headerCharset = resolveCharset(contentType?.match(/charset\s*=\s*["']?([^;"'\s]+)/i)?.[1])
+  if (headerCharset) {
+    return { charset: headerCharset, source: "content-type" }
+  }
+
+  // Declarations are ASCII in every charset we care about, so latin1 reads them safely
+  const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString("latin1")
+
+  const xmlCharset = resolveDeclaredCharset(
+    head.match(/^\s*<\?xml[^>]*?\bencoding\s*=\s*["']([A-Za-z0-9._:-]+)["']/)?.[1]
+  )
+  if (xmlCharset) {
+    return { charset: xmlCharset, source: "xml-declaration" }
+  }
+
+  // Matches <meta charset="..."> and <meta http-equiv="Content-Type" content="text/html; charset=...">
+  const metaCharset = resolveDeclaredCharset(
+    head.match(/<meta\b[^>]*?\bcharset\s*=\s*["']?\s*([A-Za-z0-9._:-]+)/i)?.[1]
+  )
+  if (metaCharset) {
+    return { charset: metaCharset, source: "meta" }
+  }
+
+  return { charset: sniffCharset(bytes), source: "sniffed" }
+}
+
+/**
+ * Decode a response body to a string using its detected charset
+ * Bytes that aren't valid in the charset become U+FFFD rather than failing the scrape
+ */
+export function decodeResponseText(bytes: Uint8Array, contentType: string | null): string {
+  const { charset } = detectCharset(bytes, contentType)
+  return new TextDecoder(charset).decode(bytes)
+}
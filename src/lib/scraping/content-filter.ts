@@ -0,0 +1,142 @@
+import { z } from "zod"
+import type { ScrapedContent } from "./types"
+
+const keywordList = z
+  .array(z.string().trim().min(1, "Keywords can't be empty").max(100, "Keywords must be 100 characters or less"))
+  .max(50, "At most 50 keywords")
+
+/**
+ * Per-source filters applied to scraped items before topic extraction, so items the user doesn't
+ * care about never cost a Claude call
+ */
+export const contentFiltersSchema = z
+  .object({
+    includeKeywords: keywordList.default([]), // When set, an item must mention at least one
+    excludeKeywords: keywordList.default([]), // An item mentioning any of these is dropped
+    minContentLength: z.number().int().min(0).max(100000).default(0), // Characters of extracted text
+    maxItemsPerRun: z.number().int().min(1).max(100).nullable().default(null), // Null for no limit
+  })
+  .strict()
+
+export type ContentFilters = z.infer<typeof contentFiltersSchema>
+
+/**
+ * An item and whether it passed the filters
+ */
+export interface ContentFilterDecision {
+  item: ScrapedContent
+  passed: boolean
+  reason: string | null // Why the item was dropped
+}
+
+/**
+ * Read filters stored on a source row; missing or invalid values fall back to no filtering
+ */
+export function parseContentFilters(value: unknown): ContentFilters {
+  const result = contentFiltersSchema.safeParse(value ?? {})
+  if (result.success) {
+    return result.data
+  }
+
+  console.warn("Ignoring invalid content filters", {
+    error: result.error.message,
+    timestamp: new Date().toISOString(),
+  })
+  return contentFiltersSchema.parse({})
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasContentFilters(filters: ContentFilters): boolean {
+  return (
+    filters.includeKeywords.length > 0 ||
+    filters.excludeKeywords.length > 0 ||
+    filters.minContentLength > 0 ||
+    filters.maxItemsPerRun !== null
+  )
+}
+
+/**
+ * Find the first keyword the text mentions, as a whole word and ignoring case
+ * ("AI" matches "AI tools" but not "said")
+ */
+function findKeyword(text: string, keywords: string[]): string | null {
+  for (const keyword of keywords) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    if (new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu").test(text)) {
+      return keyword
+    }
+  }
+  return null
+}
+
+/**
+ * Text the keyword filters look at: title, excerpt, body and any tags the source provided
+ */
+function getSearchableText(item: ScrapedContent): string {
+  return [
+    item.title,
+    item.excerpt,
+    item.content,
+    ...(item.metadata.keywords ?? []),
+    ...(item.metadata.topics ?? []),
+  ]
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * Decide which items pass a source's filters
+ * Exclude keywords are checked first, then include keywords and the minimum length; items that pass
+ * are kept in order up to maxItemsPerRun (scrapers list the newest first)
+ */
+export function evaluateContentFilters(items: ScrapedContent[], filters: ContentFilters): ContentFilterDecision[] {
+  let passedCount = 0
+
+  return items.map((item) => {
+    const text = getSearchableText(item)
+
+    const excluded = findKeyword(text, filters.excludeKeywords)
+    if (excluded) {
+      return { item, passed: false, reason: `Mentions excluded keyword "${excluded}"` }
+    }
+
+    if (filters.includeKeywords.length > 0 && !findKeyword(text, filters.includeKeywords)) {
+      return { item, passed: false, reason: "Mentions none of the include keywords" }
+    }
+
+    if (item.content.length < filters.minContentLength) {
+      return {
+        item,
+        passed: false,
+        reason: `Shorter than ${filters.minContentLength} characters (${item.content.length})`,
+      }
+    }
+
+    if (filters.maxItemsPerRun !== null && passedCount >= filters.maxItemsPerRun) {
+      return { item, passed: false, reason: `Over the limit of ${filters.maxItemsPerRun} items per run` }
+    }
+
+    passedCount++
+    return { item, passed: true, reason: null }
+  })
+}
+
+/**
+ * Apply a source's filters, returning the items to extract topics from and how many were dropped
+ */
+export function applyContentFilters(
+  items: ScrapedContent[],
+  filters: ContentFilters
+): { items: ScrapedContent[]; filteredCount: number } {
+  if (!hasContentFilters(filters)) {
+    return { items, filteredCount: 0 }
+  }
+
+  const passed = evaluateContentFilters(items, filters)
+    .filter((decision) => decision.passed)
+    .map((decision) => decision.item)
+
+  return { items: passed, filteredCount: items.length - passed.length }
+}
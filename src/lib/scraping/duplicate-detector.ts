@@ -21,10 +21,11 @@ export function calculateSimilarity(str1: string, str2: string): number {
 /**
  * Check if a topic is a duplicate of existing topics in the database
  * Returns true if similarity > 80% with any existing topic
+ * Pass userId = null to check against global topics (user_id IS NULL)
  */
 export async function isDuplicateTopic(
   topic: ExtractedTopic,
-  userId: string,
+  userId: string | null,
   supabase: SupabaseClient<Database>,
   similarityThreshold: number = 0.8
 ): Promise<boolean> {
@@ -32,10 +33,13 @@ export async function isDuplicateTopic(
   const thirtyDaysAgo = new Date()
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
 
-  const { data: existingTopics, error } = await supabase
+  let query = supabase
     .from("trending_topics")
     .select("title")
-    .eq("user_id", userId)
+
+  query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+  const { data: existingTopics, error } = await query
     .gte("discovered_at", thirtyDaysAgo.toISOString())
     .or("expires_at.is.null,expires_at.gt.now()")
 
@@ -79,7 +83,7 @@ export async function isDuplicateTopic(
  */
 export async function filterDuplicateTopics(
   topics: ExtractedTopic[],
-  userId: string,
+  userId: string | null,
   supabase: SupabaseClient<Database>
 ): Promise<ExtractedTopic[]> {
   const uniqueTopics: ExtractedTopic[] = []
@@ -112,22 +116,26 @@ export function generateContentHash(
 /**
  * Check if content hash already exists for a source
  * Returns true if hash was seen recently (last 7 days)
+ * Pass userId = null for global scrape_sources
  */
 export async function isContentHashDuplicate(
   contentHash: string,
   sourceId: string,
-  userId: string,
+  userId: string | null,
   supabase: SupabaseClient<Database>
 ): Promise<boolean> {
   const sevenDaysAgo = new Date()
   sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
 
   // Check if this hash exists in metadata of recent topics from this source
-  const { data: existingTopics, error } = await supabase
+  let query = supabase
     .from("trending_topics")
     .select("metadata")
-    .eq("user_id", userId)
-    .or(`source_id.eq.${sourceId},newsletter_source_id.eq.${sourceId}`)
+
+  query = userId ? query.eq("user_id", userId) : query.is("user_id", null)
+
+  const { data: existingTopics, error } = await query
+    .or(`source_id.eq.${sourceId},newsletter_source_id.eq.${sourceId},scrape_source_id.eq.${sourceId}`)
     .gte("discovered_at", sevenDaysAgo.toISOString())
 
   if (error || !existingTopics) {
@@ -141,6 +149,10 @@ export async function isContentHashDuplicate(
     if (metadata?.content_hash === contentHash) {
       return true
     }
+    // Topics extracted from several items at once record every item's hash
+    if (Array.isArray(metadata?.content_hashes) && metadata.content_hashes.includes(contentHash)) {
+      return true
+    }
   }
 
   return false
@@ -0,0 +1,170 @@
+import * as cheerio from "cheerio"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import { readResponseText, safeFetch } from "./safe-fetch"
+import { SCRAPER_USER_AGENT, enforceRobotsPolicy } from "./robots"
+import { detectFeedFormat, type FeedFormat } from "./rss-scraper"
+import { isRedditUrl } from "./reddit-scraper"
+import { isHackerNewsUrl } from "./hackernews-scraper"
+
+/**
+ * A feed found for a page
+ */
+export interface DiscoveredFeed {
+  url: string
+  title: string | null
+  format: FeedFormat
+  discoveredVia: "direct" | "link" | "path" // The URL itself, a <link rel="alternate">, or a common feed path
+}
+
+/**
+ * <link rel="alternate"> types that advertise a feed
+ */
+const FEED_LINK_TYPES: Record<string, FeedFormat> = {
+  "application/rss+xml": "rss2",
+  "application/atom+xml": "atom",
+  "application/feed+json": "json",
+  "application/rdf+xml": "rdf",
+}
+
+/**
+ * Paths probed (in order) when a page doesn't advertise a feed
+ */
+const COMMON_FEED_PATHS = ["/feed", "/rss", "/feed.xml", "/rss.xml", "/atom.xml", "/index.xml", "/feed.json"]
+
+/**
+ * Fetch a URL's body for discovery; null on network errors, timeouts, blocked URLs, robots.txt disallows
+ * and non-2xx responses
+ */
+async function fetchForDiscovery(url: string): Promise<{ url: string; body: string } | null> {
+  if (await enforceRobotsPolicy(url)) {
+    return null
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
+
+  try {
+    const response = await safeFetch(url, {
+      signal: controller.signal,
+      headers: {
+        "User-Agent": SCRAPER_USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,application/rss+xml,application/atom+xml,application/feed+json,application/xml;q=0.9,*/*;q=0.8",
+        "Accept-Language": "en-US,en;q=0.9",
+      },
+    })
+
+    if (!response.ok) {
+      await recordRateLimitResponse(url, response)
+      return null
+    }
+
+    return { url: response.url || url, body: await readResponseText(response) }
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Extract advertised feeds from <link rel="alternate" type="..."> tags
+ */
+function extractFeedLinks(html: string, pageUrl: string): DiscoveredFeed[] {
+  const $ = cheerio.load(html)
+  const feeds: DiscoveredFeed[] = []
+
+  $('link[rel~="alternate"][href]').each((_, element) => {
+    const $link = $(element)
+    const type = ($link.attr("type") || "").toLowerCase().split(";")[0].trim()
+    const format = FEED_LINK_TYPES[type]
+    if (!format) return
+
+    try {
+      const href = new URL($link.attr("href") as string, pageUrl).toString()
+      feeds.push({
+        url: href,
+        title: $link.attr("title")?.trim() || null,
+        format,
+        discoveredVia: "link",
+      })
+    } catch {
+      // Ignore malformed hrefs
+    }
+  })
+
+  return feeds
+}
+
+/**
+ * Find feeds for a page, so a pasted blog homepage can be scraped as a feed of articles
+ * Checks whether the URL is itself a feed, then <link rel="alternate"> tags, then common feed paths
+ * Never throws; returns an empty list when nothing is found or the page can't be fetched
+ */
+export async function discoverFeeds(url: string): Promise<DiscoveredFeed[]> {
+  let urlObj: URL
+  try {
+    urlObj = new URL(url)
+  } catch {
+    return []
+  }
+
+  // These have dedicated scrapers that already return individual posts
+  if (isRedditUrl(url) || isHackerNewsUrl(url)) {
+    return []
+  }
+
+  const rateLimitResult = await checkRateLimit(url)
+  if (!rateLimitResult.success) {
+    console.warn(`Rate limit exceeded, skipping feed discovery for domain: ${urlObj.hostname}`, {
+      url,
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+
+  const page = await fetchForDiscovery(url)
+  if (!page) {
+    return []
+  }
+
+  const directFormat = detectFeedFormat(page.body)
+  if (directFormat) {
+    return [{ url, title: null, format: directFormat, discoveredVia: "direct" }]
+  }
+
+  // Deduplicate advertised feeds (sites often repeat them in <head>)
+  const seen = new Set<string>()
+  const linkedFeeds = extractFeedLinks(page.body, page.url).filter((feed) => {
+    if (seen.has(feed.url)) return false
+    seen.add(feed.url)
+    return true
+  })
+
+  if (linkedFeeds.length > 0) {
+    console.log(`Discovered ${linkedFeeds.length} advertised feeds for ${url}`, {
+      url,
+      feeds: linkedFeeds.map((feed) => feed.url),
+      timestamp: new Date().toISOString(),
+    })
+    return linkedFeeds
+  }
+
+  // Nothing advertised - probe common paths and stop at the first real feed
+  for (const path of COMMON_FEED_PATHS) {
+    const candidateUrl = new URL(path, urlObj.origin).toString()
+    if (candidateUrl === url) continue
+
+    const candidate = await fetchForDiscovery(candidateUrl)
+    const format = candidate ? detectFeedFormat(candidate.body) : null
+    if (candidate && format) {
+      console.log(`Discovered feed at common path for ${url}`, {
+        url,
+        feedUrl: candidate.url,
+        timestamp: new Date().toISOString(),
+      })
+      return [{ url: candidate.url, title: null, format, discoveredVia: "path" }]
+    }
+  }
+
+  return []
+}
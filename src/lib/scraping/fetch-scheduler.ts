@@ -0,0 +1,116 @@
+/**
+ * Options for scheduleFetches
+ */
+export interface FetchScheduleOptions {
+  concurrency?: number // Fetches in flight at once, across all hosts (default 4)
+  perHostDelayMs?: number // Pause between the end of one fetch and the start of the next to the same host (default 2000)
+  signal?: AbortSignal // Aborting stops fetches that haven't started and is passed on to those in flight
+  onProgress?: (progress: FetchProgress) => void // Called as each fetch finishes
+}
+
+/**
+ * Outcome of one scheduled fetch
+ */
+export type ScheduledFetchResult<T> =
+  | { url: string; status: "fulfilled"; value: T }
+  | { url: string; status: "rejected"; error: unknown }
+  | { url: string; status: "cancelled" }
+
+/**
+ * Progress reported after each fetch
+ */
+export interface FetchProgress {
+  completed: number
+  total: number
+  result: ScheduledFetchResult<unknown>
+}
+
+/**
+ * Host a URL is queued under; unparseable URLs get a queue of their own and fail in the fetch
+ */
+function getHostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Sleep for the given time, returning early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const done = () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener("abort", done)
+      resolve()
+    }
+    const timeoutId = setTimeout(done, ms)
+    signal?.addEventListener("abort", done, { once: true })
+  })
+}
+
+/**
+ * Run a fetch for each URL, in parallel across hosts but one at a time per host with a pause
+ * between them, and never more than `concurrency` at once
+ * Pauses don't hold a concurrency slot, so a slow host doesn't hold up the others.
+ * Errors thrown by fetchOne are captured per URL rather than rejecting the whole batch.
+ *
+ * @returns One result per URL, in the order given
+ */
+export async function scheduleFetches<T>(
+  urls: string[],
+  fetchOne: (url: string, signal?: AbortSignal) => Promise<T>,
+  options: FetchScheduleOptions = {}
+): Promise<ScheduledFetchResult<T>[]> {
+  const { concurrency = 4, perHostDelayMs = 2000, signal, onProgress } = options
+
+  const pLimit = (await import("p-limit")).default
+  const limit = pLimit(Math.max(1, concurrency))
+
+  const results: ScheduledFetchResult<T>[] = urls.map((url) => ({ url, status: "cancelled" }))
+  let completed = 0
+
+  // Queue each URL's index under its host, keeping the given order within a host
+  const hostQueues = new Map<string, number[]>()
+  urls.forEach((url, index) => {
+    const host = getHostKey(url)
+    hostQueues.set(host, [...(hostQueues.get(host) ?? []), index])
+  })
+
+  const runFetch = async (index: number) => {
+    // The slot may have freed up after the caller gave up
+    if (signal?.aborted) return
+
+    const url = urls[index]
+    try {
+      results[index] = { url, status: "fulfilled", value: await fetchOne(url, signal) }
+    } catch (error) {
+      results[index] = { url, status: "rejected", error }
+    }
+
+    completed++
+    onProgress?.({ completed, total: urls.length, result: results[index] })
+  }
+
+  await Promise.all(
+    [...hostQueues.values()].map(async (queue) => {
+      for (const [position, index] of queue.entries()) {
+        if (position > 0) {
+          await sleep(perHostDelayMs, signal)
+        }
+        if (signal?.aborted) return
+
+        await limit(() => runFetch(index))
+      }
+    })
+  )
+
+  return results
+}
@@ -0,0 +1,142 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "fs"
+import { join } from "path"
+import {
+  isGoogleTrendsUrl,
+  normalizeGoogleTrends,
+  parseGoogleTrendsResponse,
+  parseGoogleTrendsSearches,
+  parseSearchVolume,
+} from "./google-trends-scraper"
+
+// Sample daily-trends responses in the formats trends.google.com serves, so parsing is checked without network access
+const readFixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", "google-trends", name), "utf8")
+
+test("parses the daily-trends RSS feed", () => {
+  const items = parseGoogleTrendsResponse(
+    readFixture("trending-rss-us.xml"),
+    "https://trends.google.com/trending/rss?geo=US"
+  )
+
+  assert.deepEqual(
+    items.map((item) => item.title),
+    ["nvidia earnings", "Leonid meteor shower", "thanksgiving travel"]
+  )
+
+  const [nvidia, leonids, thanksgiving] = items
+  assert.equal(nvidia.metadata.region, "US")
+  assert.equal(nvidia.metadata.feedUrl, "https://trends.google.com/trending/rss?geo=US")
+  assert.equal(nvidia.metadata.searchVolume, 500_000)
+  assert.equal(nvidia.metadata.searchVolumeLabel, "500K+")
+  assert.equal(nvidia.metadata.openGraphImage, "https://encrypted-tbn1.gstatic.com/images?q=tbn:ANd9GcQnvidia")
+  assert.equal(nvidia.publishDate?.toISOString(), "2024-11-20T21:40:00.000Z")
+  assert.deepEqual(nvidia.metadata.relatedQueries, [])
+  assert.deepEqual(nvidia.metadata.relatedArticles, [
+    {
+      title: "Nvidia beats on earnings & revenue, gives strong guidance",
+      url: "https://www.cnbc.com/2024/11/20/nvidia-nvda-earnings-report-q3-2025.html",
+      source: "CNBC",
+    },
+    {
+      title: "What to watch in Nvidia earnings tonight",
+      url: "https://www.reuters.com/technology/nvidia-results-2024-11-20/",
+      source: "Reuters",
+    },
+  ])
+  assert.equal(
+    nvidia.url,
+    "https://trends.google.com/trends/explore?q=nvidia%20earnings&geo=US&date=now%201-d"
+  )
+
+  // Related queries come from <description>, minus the search itself; snippets lose their markup
+  assert.deepEqual(leonids.metadata.relatedQueries, ["leonids 2024", "meteor shower tonight"])
+  assert.equal(
+    leonids.excerpt,
+    "The Leonids peak overnight, but a bright moon will wash out all but the brightest meteors."
+  )
+  assert.equal(leonids.metadata.searchVolume, 200_000)
+
+  assert.equal(thanksgiving.publishDate, null)
+  assert.equal(thanksgiving.excerpt, null)
+  assert.equal(thanksgiving.metadata.sourceTrendScore, 100)
+})
+
+test("parses the legacy dailytrends JSON response", () => {
+  const items = parseGoogleTrendsResponse(
+    readFixture("dailytrends-us.json"),
+    "https://trends.google.com/trends/api/dailytrends?geo=us"
+  )
+
+  // Searches without a query are skipped
+  assert.deepEqual(
+    items.map((item) => item.title),
+    ["Martin Luther King Jr. Day", "Emmys", "Packers"]
+  )
+
+  const [mlk, emmys, packers] = items
+  assert.equal(mlk.metadata.region, "US")
+  assert.equal(mlk.metadata.searchVolume, 1_000_000)
+  assert.equal(mlk.publishDate?.toISOString(), "2024-01-15T00:00:00.000Z")
+  assert.deepEqual(mlk.metadata.relatedQueries, ["mlk day 2024", "is the post office open today"])
+  assert.equal(mlk.metadata.openGraphImage, "https://t0.gstatic.com/images?q=tbn:ANd9GcTmlk")
+  assert.equal(
+    mlk.excerpt,
+    "Banks, schools and post offices are closed for Martin Luther King Jr. Day while most stores & restaurants stay open."
+  )
+  assert.match(mlk.content, /What's open and closed on MLK Day 2024\? \(USA TODAY\)/)
+
+  // Articles without a title are dropped
+  assert.equal(emmys.metadata.relatedArticles?.length, 1)
+  assert.equal(emmys.excerpt, "Emmys 2024: The full list of winners")
+
+  assert.equal(packers.publishDate?.toISOString(), "2024-01-14T00:00:00.000Z")
+  assert.equal(packers.metadata.searchVolume, 200_000)
+})
+
+test("parses the body in the format it arrives in, whatever the URL says", () => {
+  const items = parseGoogleTrendsResponse(
+    readFixture("dailytrends-us.json"),
+    "https://trends.google.com/trending/rss?geo=GB"
+  )
+
+  assert.equal(items.length, 3)
+  assert.equal(items[0].metadata.region, "GB")
+})
+
+test("normalizeGoogleTrends keeps the top searches and fails on an empty feed", () => {
+  const trends = parseGoogleTrendsSearches(
+    readFixture("trending-rss-us.xml"),
+    "https://trends.google.com/trending/rss?geo=US"
+  )
+  assert.equal(trends.searches.length, 3)
+
+  const items = normalizeGoogleTrends(trends, 2)
+  assert.ok(Array.isArray(items))
+  assert.deepEqual(
+    items.map((item) => item.title),
+    ["nvidia earnings", "Leonid meteor shower"]
+  )
+
+  const empty = normalizeGoogleTrends({ ...trends, searches: [] })
+  assert.ok(!Array.isArray(empty))
+  assert.equal(empty.error, "No trending searches found for region: US")
+})
+
+test("parseSearchVolume reads Google's approximate traffic labels", () => {
+  assert.equal(parseSearchVolume("200,000+"), 200_000)
+  assert.equal(parseSearchVolume("200K+"), 200_000)
+  assert.equal(parseSearchVolume("2M+"), 2_000_000)
+  assert.equal(parseSearchVolume("1.5B+"), 1_500_000_000)
+  assert.equal(parseSearchVolume("500+"), 500)
+  assert.equal(parseSearchVolume("lots"), null)
+  assert.equal(parseSearchVolume(null), null)
+})
+
+test("only trends.google.com URLs are Google Trends sources", () => {
+  assert.equal(isGoogleTrendsUrl("https://trends.google.com/trending/rss?geo=US"), true)
+  assert.equal(isGoogleTrendsUrl("https://attacker.example/rss"), false)
+  assert.equal(isGoogleTrendsUrl("https://trends.google.com.attacker.example/rss"), false)
+  assert.equal(isGoogleTrendsUrl("not a url"), false)
+  assert.throws(() => parseGoogleTrendsResponse("<rss></rss>", "https://attacker.example/rss"), /Not a Google Trends URL/)
+})
@@ -0,0 +1,523 @@
+/**
+ * Google Trends scraper for daily trending searches
+ * Supports the public daily-trends RSS feed (trends.google.com/trending/rss?geo=US)
+ * and the legacy dailytrends JSON API (trends.google.com/trends/api/dailytrends?geo=US)
+ *
+ * Parsing is split from fetching: parseGoogleTrendsSearches() and parseGoogleTrendsResponse() take the
+ * raw response body, so recorded RSS/JSON responses can be parsed without any network access
+ */
+
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import { SCRAPER_USER_AGENT } from "./robots"
+import { FetchPolicyError, readResponseText, safeFetch, toPolicyScrapeError } from "./safe-fetch"
+import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
+
+const DEFAULT_REGION = "US"
+const GOOGLE_TRENDS_HOST = "trends.google.com"
+
+type GoogleTrendsFormat = "rss" | "json"
+
+/**
+ * Related news article for a trending search
+ */
+export interface GoogleTrendsArticle {
+  title: string
+  url: string
+  source: string | null
+  snippet: string | null
+}
+
+/**
+ * A single trending search, independent of response format
+ */
+export interface GoogleTrendsSearch {
+  query: string
+  formattedTraffic: string | null
+  relatedQueries: string[]
+  articles: GoogleTrendsArticle[]
+  publishDate: Date | null
+  imageUrl: string | null
+}
+
+/**
+ * A source's trending searches as fetched, before they're turned into ScrapedContent
+ */
+export interface FetchedGoogleTrends {
+  url: string // Source URL
+  feedUrl: string
+  region: string
+  format: GoogleTrendsFormat
+  searches: GoogleTrendsSearch[] // In feed order (by traffic)
+}
+
+/**
+ * Legacy dailytrends JSON API response
+ */
+interface GoogleTrendsJsonResponse {
+  default?: {
+    trendingSearchesDays?: Array<{
+      date: string // YYYYMMDD
+      trendingSearches?: Array<{
+        title?: { query?: string }
+        formattedTraffic?: string
+        relatedQueries?: Array<{ query?: string }>
+        image?: { imageUrl?: string }
+        articles?: Array<{
+          title?: string
+          url?: string
+          source?: string
+          snippet?: string
+        }>
+      }>
+    }>
+  }
+}
+
+/**
+ * Whether a URL is on trends.google.com, the only host this scraper fetches from
+ */
+export function isGoogleTrendsUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.toLowerCase() === GOOGLE_TRENDS_HOST
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve the feed URL, region and format for a Google Trends source URL
+ * Any trends.google.com URL with a geo param works; other paths fall back to the daily RSS feed.
+ * The feed is always fetched over https from trends.google.com, so a source can't point it elsewhere
+ *
+ * @throws Error if the URL is not a trends.google.com URL
+ */
+function resolveGoogleTrendsFeed(sourceUrl: string): {
+  feedUrl: string
+  region: string
+  format: GoogleTrendsFormat
+} {
+  const urlObj = new URL(sourceUrl)
+  if (urlObj.hostname.toLowerCase() !== GOOGLE_TRENDS_HOST) {
+    throw new Error(`Not a Google Trends URL (expected ${GOOGLE_TRENDS_HOST}): ${sourceUrl}`)
+  }
+
+  const region = (urlObj.searchParams.get("geo") || DEFAULT_REGION).toUpperCase()
+  const pinnedUrl = `https://${GOOGLE_TRENDS_HOST}${urlObj.pathname}${urlObj.search}`
+
+  if (urlObj.pathname.includes("/api/dailytrends")) {
+    return { feedUrl: pinnedUrl, region, format: "json" }
+  }
+
+  if (urlObj.pathname.includes("/rss")) {
+    return { feedUrl: pinnedUrl, region, format: "rss" }
+  }
+
+  return {
+    feedUrl: `https://${GOOGLE_TRENDS_HOST}/trending/rss?geo=${encodeURIComponent(region)}`,
+    region,
+    format: "rss",
+  }
+}
+
+/**
+ * Parse approximate traffic ("200,000+", "200K+", "2M+") into a number
+ */
+export function parseSearchVolume(formattedTraffic: string | null): number | null {
+  if (!formattedTraffic) return null
+
+  const match = formattedTraffic.replace(/,/g, "").trim().match(/^([\d.]+)\s*([KMB])?/i)
+  if (!match) return null
+
+  const value = parseFloat(match[1])
+  if (isNaN(value)) return null
+
+  const multipliers: Record<string, number> = { K: 1_000, M: 1_000_000, B: 1_000_000_000 }
+  const multiplier = match[2] ? multipliers[match[2].toUpperCase()] : 1
+
+  return Math.round(value * multiplier)
+}
+
+/**
+ * Calculate a 0-100 trend score from search volume (log scale, 1M+ searches saturates)
+ */
+function calculateSearchVolumeScore(searchVolume: number | null): number | undefined {
+  if (!searchVolume || searchVolume <= 0) return undefined
+  return Math.round(Math.min(Math.log10(searchVolume) / 6, 1) * 100)
+}
+
+/**
+ * Decode CDATA and common XML entities
+ */
+function cleanXmlText(text: string): string {
+  if (!text) return ""
+
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/gi, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+/**
+ * Strip HTML tags (article titles/snippets in both formats may contain <b> etc.)
+ */
+function stripHtmlTags(html: string): string {
+  // Decode again after stripping: RSS news items embed HTML, so entities arrive double-escaped
+  return cleanXmlText(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Read the first <tag>…</tag> inside an XML fragment
+ */
+function getXmlTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`, "i"))
+  return match ? cleanXmlText(match[1]) : null
+}
+
+/**
+ * Parse the daily-trends RSS feed
+ * Each <item> carries ht:approx_traffic, ht:picture and ht:news_item entries
+ */
+function parseGoogleTrendsRss(xml: string): GoogleTrendsSearch[] {
+  const searches: GoogleTrendsSearch[] = []
+
+  const itemRegex = /<item>([\s\S]*?)<\/item>/gi
+  let itemMatch
+
+  while ((itemMatch = itemRegex.exec(xml)) !== null) {
+    const itemXml = itemMatch[1]
+
+    const query = getXmlTag(itemXml, "title")
+    if (!query) continue
+
+    const articles: GoogleTrendsArticle[] = []
+    const newsRegex = /<ht:news_item>([\s\S]*?)<\/ht:news_item>/gi
+    let newsMatch
+    while ((newsMatch = newsRegex.exec(itemXml)) !== null) {
+      const newsXml = newsMatch[1]
+      const title = getXmlTag(newsXml, "ht:news_item_title")
+      const url = getXmlTag(newsXml, "ht:news_item_url")
+      if (title && url) {
+        const snippet = getXmlTag(newsXml, "ht:news_item_snippet")
+        articles.push({
+          title: stripHtmlTags(title),
+          url,
+          source: getXmlTag(newsXml, "ht:news_item_source"),
+          snippet: snippet ? stripHtmlTags(snippet) : null,
+        })
+      }
+    }
+
+    // Older feeds list related queries as a comma-separated <description>
+    const description = getXmlTag(itemXml, "description")
+    const relatedQueries = description
+      ? stripHtmlTags(description)
+          .split(",")
+          .map((q) => q.trim())
+          .filter((q) => q && q.toLowerCase() !== query.toLowerCase())
+      : []
+
+    const pubDate = getXmlTag(itemXml, "pubDate")
+    const parsedDate = pubDate ? new Date(pubDate) : null
+
+    searches.push({
+      query,
+      formattedTraffic: getXmlTag(itemXml, "ht:approx_traffic"),
+      relatedQueries,
+      articles,
+      publishDate: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+      imageUrl: getXmlTag(itemXml, "ht:picture"),
+    })
+  }
+
+  return searches
+}
+
+/**
+ * Parse the legacy dailytrends JSON API response
+ * The body is prefixed with ")]}'," to prevent JSON hijacking, which is stripped here
+ */
+function parseGoogleTrendsJson(body: string): GoogleTrendsSearch[] {
+  const json = body.trimStart().replace(/^\)\]\}',?\s*/, "")
+  const parsed = JSON.parse(json) as GoogleTrendsJsonResponse
+
+  const searches: GoogleTrendsSearch[] = []
+
+  for (const day of parsed.default?.trendingSearchesDays || []) {
+    // date is YYYYMMDD
+    const publishDate = /^\d{8}$/.test(day.date)
+      ? new Date(`${day.date.slice(0, 4)}-${day.date.slice(4, 6)}-${day.date.slice(6, 8)}T00:00:00Z`)
+      : null
+
+    for (const search of day.trendingSearches || []) {
+      const query = search.title?.query?.trim()
+      if (!query) continue
+
+      searches.push({
+        query,
+        formattedTraffic: search.formattedTraffic || null,
+        relatedQueries: (search.relatedQueries || [])
+          .map((related) => related.query?.trim() || "")
+          .filter(Boolean),
+        articles: (search.articles || [])
+          .filter((article) => article.title && article.url)
+          .map((article) => ({
+            title: stripHtmlTags(cleanXmlText(article.title || "")),
+            url: article.url || "",
+            source: article.source || null,
+            snippet: article.snippet ? stripHtmlTags(cleanXmlText(article.snippet)) : null,
+          })),
+        publishDate,
+        imageUrl: search.image?.imageUrl || null,
+      })
+    }
+  }
+
+  return searches
+}
+
+/**
+ * Map a trending search and its related articles into ScrapedContent
+ */
+function buildTrendContent(search: GoogleTrendsSearch, region: string, feedUrl: string): ScrapedContent {
+  const searchVolume = parseSearchVolume(search.formattedTraffic)
+
+  const contentParts: string[] = []
+  contentParts.push(`Trending Search: ${search.query}`)
+  contentParts.push(`Region: ${region}`)
+  if (search.formattedTraffic) {
+    contentParts.push(`Approximate Searches: ${search.formattedTraffic}`)
+  }
+  if (search.relatedQueries.length > 0) {
+    contentParts.push(`Related Searches: ${search.relatedQueries.join(", ")}`)
+  }
+
+  if (search.articles.length > 0) {
+    const articleTexts = search.articles.map((article) => {
+      const lines = [`- ${article.title}${article.source ? ` (${article.source})` : ""}`]
+      if (article.snippet) lines.push(`  ${article.snippet}`)
+      lines.push(`  ${article.url}`)
+      return lines.join("\n")
+    })
+    contentParts.push(`\nRelated Articles:\n${articleTexts.join("\n")}`)
+  }
+
+  const fullContent = contentParts.join("\n")
+  const excerpt = search.articles[0]?.snippet || search.articles[0]?.title || null
+  const exploreUrl = `https://trends.google.com/trends/explore?q=${encodeURIComponent(search.query)}&geo=${encodeURIComponent(region)}&date=now%201-d`
+
+  return {
+    url: exploreUrl,
+    title: search.query,
+    content: fullContent,
+    publishDate: search.publishDate,
+    author: null,
+    excerpt,
+    metadata: {
+      openGraphTitle: search.query,
+      openGraphDescription: excerpt || undefined,
+      openGraphImage: search.imageUrl,
+      metaDescription: `Google Trends daily trending search in ${region}${search.formattedTraffic ? ` with ${search.formattedTraffic} searches` : ""}`,
+      feedUrl,
+      region,
+      searchVolume: searchVolume ?? undefined,
+      searchVolumeLabel: search.formattedTraffic || undefined,
+      relatedQueries: search.relatedQueries,
+      relatedArticles: search.articles.map(({ title, url, source }) => ({ title, url, source })),
+      sourceTrendScore: calculateSearchVolumeScore(searchVolume),
+    },
+    scrapedAt: new Date(),
+    contentLength: fullContent.length,
+  }
+}
+
+/**
+ * Parse a raw daily-trends response (RSS or JSON) into its trending searches
+ * Pure function: pass a recorded response body to parse it without network access
+ *
+ * @param body - Raw response body
+ * @param sourceUrl - Source URL the body was fetched from (determines region and format)
+ */
+export function parseGoogleTrendsSearches(body: string, sourceUrl: string): FetchedGoogleTrends {
+  const { feedUrl, region, format } = resolveGoogleTrendsFeed(sourceUrl)
+
+  // Trust the body over the URL if they disagree (e.g. an RSS recording saved for a JSON URL)
+  const trimmed = body.trimStart()
+  const isJson = trimmed.startsWith(")]}'") || trimmed.startsWith("{")
+  const searches =
+    format === "json" || isJson ? parseGoogleTrendsJson(body) : parseGoogleTrendsRss(body)
+
+  return { url: sourceUrl, feedUrl, region, format, searches }
+}
+
+/**
+ * Parse a raw daily-trends response (RSS or JSON) into one ScrapedContent per trending search
+ * Pure function: pass a recorded response body to parse it without network access
+ *
+ * @param body - Raw response body
+ * @param sourceUrl - Source URL the body was fetched from (determines region and format)
+ */
+export function parseGoogleTrendsResponse(body: string, sourceUrl: string): ScrapedContent[] {
+  const trends = parseGoogleTrendsSearches(body, sourceUrl)
+  return trends.searches.map((search) => buildTrendContent(search, trends.region, trends.feedUrl))
+}
+
+/**
+ * Turn fetched trending searches into one ScrapedContent per search
+ *
+ * @param trends - Trending searches as returned by fetchGoogleTrends
+ * @param maxTrends - Number of trending searches to keep (feeds are ordered by traffic)
+ */
+export function normalizeGoogleTrends(
+  trends: FetchedGoogleTrends,
+  maxTrends: number = 20
+): ScrapedContent[] | ScrapeError {
+  const { url } = trends
+  const items = trends.searches
+    .slice(0, maxTrends)
+    .map((search) => buildTrendContent(search, trends.region, trends.feedUrl))
+
+  if (items.length === 0) {
+    const errorMessage = `No trending searches found for region: ${trends.region}`
+    console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  console.log(`Successfully scraped Google Trends: ${trends.region}`, {
+    url,
+    region: trends.region,
+    format: trends.format,
+    trends: items.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return items
+}
+
+/**
+ * Fetch daily trending searches for the source URL's region, without building ScrapedContent
+ *
+ * @param url - trends.google.com URL; the geo param selects the region (defaults to US)
+ */
+export async function fetchGoogleTrends(url: string): Promise<FetchedGoogleTrends | ScrapeError> {
+  const startTime = Date.now()
+
+  try {
+    let feed: ReturnType<typeof resolveGoogleTrendsFeed>
+    try {
+      feed = resolveGoogleTrendsFeed(url)
+    } catch (error) {
+      const errorMessage =
+        error instanceof TypeError ? `Invalid URL format: ${url}` : error instanceof Error ? error.message : String(error)
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    // Check rate limit
+    const rateLimitResult = await checkRateLimit(feed.feedUrl)
+    if (!rateLimitResult.success) {
+      const errorMessage = `Rate limit exceeded for Google Trends`
+      console.warn(errorMessage, {
+        url,
+        limit: rateLimitResult.limit,
+        remaining: rateLimitResult.remaining,
+        reset: new Date(rateLimitResult.reset).toISOString(),
+        timestamp: new Date().toISOString(),
+      })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 30000)
+
+    let response: Response
+    try {
+      response = await safeFetch(feed.feedUrl, {
+        signal: controller.signal,
+        headers: {
+          "User-Agent": SCRAPER_USER_AGENT,
+          Accept:
+            feed.format === "json"
+              ? "application/json, text/plain, */*"
+              : "application/rss+xml, application/xml, text/xml, */*",
+          "Accept-Language": "en-US,en;q=0.9",
+        },
+      })
+    } catch (fetchError) {
+      clearTimeout(timeoutId)
+      if (fetchError instanceof Error && fetchError.name === "AbortError") {
+        throw new Error(`Request timeout after 30 seconds: ${feed.feedUrl}`)
+      }
+      throw fetchError
+    }
+
+    clearTimeout(timeoutId)
+
+    if (!response.ok) {
+      await recordRateLimitResponse(feed.feedUrl, response)
+      throw new Error(`HTTP ${response.status} ${response.statusText}: ${feed.feedUrl}`)
+    }
+
+    const body = await readResponseText(response)
+    const trends = parseGoogleTrendsSearches(body, url)
+
+    console.log(`Fetched Google Trends: ${feed.region}`, {
+      url,
+      searches: trends.searches.length,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString(),
+    })
+
+    return trends
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch Google Trends: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Fetch daily trending searches for the source URL's region (fetchGoogleTrends, then normalizeGoogleTrends)
+ *
+ * @param url - trends.google.com URL; the geo param selects the region (defaults to US)
+ * @param maxTrends - Number of trending searches to keep (feeds are ordered by traffic)
+ */
+export async function scrapeGoogleTrends(
+  url: string,
+  maxTrends: number = 20
+): Promise<ScrapeResult | ScrapedContent[]> {
+  const trends = await fetchGoogleTrends(url)
+  return "searches" in trends ? normalizeGoogleTrends(trends, maxTrends) : trends
+}
@@ -0,0 +1,514 @@
+/**
+ * Hacker News scraper using the official Firebase API
+ * Handles front page, "best", "show" and "ask" listings and single item URLs
+ * Extracts story text + top comments, and ranks listing stories by trending score
+ */
+
+import * as cheerio from "cheerio"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
+
+const HN_API_BASE = "https://hacker-news.firebaseio.com/v0"
+
+// Stories kept from a listing when it's aggregated into one document
+export const HACKER_NEWS_DIGEST_STORIES = 7
+
+/**
+ * Hacker News API item type
+ */
+export interface HackerNewsItem {
+  id: number
+  type: "story" | "comment" | "job" | "poll" | "pollopt"
+  by?: string
+  time: number // Unix timestamp
+  title?: string
+  text?: string // HTML
+  url?: string // External URL for link stories
+  score?: number
+  descendants?: number // Total comment count
+  kids?: number[] // Child comment IDs, in ranked order
+  deleted?: boolean
+  dead?: boolean
+}
+
+type HackerNewsListing = "top" | "best" | "show" | "ask" | "new"
+
+/**
+ * Parsed Hacker News URL
+ */
+interface HackerNewsUrlInfo {
+  type: "listing" | "item"
+  listing?: HackerNewsListing
+  itemId?: number
+}
+
+/**
+ * A story and its top comments, as returned by the API
+ */
+export interface HackerNewsThread {
+  story: HackerNewsItem
+  comments: HackerNewsItem[] // In ranked order
+}
+
+/**
+ * A Hacker News URL's stories as fetched, before they're turned into ScrapedContent
+ */
+export interface FetchedHackerNewsUrl {
+  url: string
+  type: "listing" | "item"
+  listing: HackerNewsListing | null
+  storiesFound: number // Stories ranked from the listing (1 for an item URL)
+  threads: HackerNewsThread[] // The item, or a listing's top trending stories in trending order
+}
+
+/**
+ * Check if a URL is a Hacker News URL
+ */
+export function isHackerNewsUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase()
+    return hostname === "news.ycombinator.com"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parse Hacker News URL to determine if it's a listing or a single item
+ */
+function parseHackerNewsUrl(url: string): HackerNewsUrlInfo | null {
+  try {
+    const urlObj = new URL(url)
+    const pathname = urlObj.pathname.replace(/\/+$/, "")
+
+    // Single item: /item?id={id}
+    if (pathname === "/item") {
+      const itemId = parseInt(urlObj.searchParams.get("id") || "", 10)
+      return isNaN(itemId) ? null : { type: "item", itemId }
+    }
+
+    // Listings
+    const listingPaths: Record<string, HackerNewsListing> = {
+      "": "top",
+      "/news": "top",
+      "/front": "top",
+      "/best": "best",
+      "/show": "show",
+      "/shownew": "show",
+      "/ask": "ask",
+      "/newest": "new",
+    }
+
+    const listing = listingPaths[pathname]
+    return listing ? { type: "listing", listing } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Strip HN's HTML (paragraph tags, links, entities) down to plain text
+ */
+function stripHackerNewsHtml(html: string): string {
+  const $ = cheerio.load(`<div>${html.replace(/<p>/gi, "\n\n<p>")}</div>`)
+  return $("div").first().text().replace(/[ \t]+/g, " ").trim()
+}
+
+/**
+ * Calculate trending score for a story
+ * Higher score = more trending
+ * Factors: points, comments, recency
+ */
+function calculateTrendingScore(item: HackerNewsItem): number {
+  const points = item.score || 0
+  const commentCount = item.descendants || 0
+  const ageHours = (Date.now() / 1000 - item.time) / 3600
+
+  // Weighted scoring:
+  // - Points: 50% weight
+  // - Comments: 35% weight (engagement indicator)
+  // - Recency: 15% weight (HN front page turns over quickly, so newer stories get a bigger boost)
+
+  // Normalize scores (using log scale for points/comments to prevent outliers from dominating)
+  const normalizedPoints = Math.log10(Math.max(points, 1)) * 10
+  const normalizedComments = Math.log10(Math.max(commentCount, 1)) * 10
+  const recencyBoost = Math.max(0, 1 - ageHours / 24) // Boost for stories < 24 hours old
+
+  const trendingScore =
+    normalizedPoints * 0.5 +
+    normalizedComments * 0.35 +
+    recencyBoost * 10 * 0.15
+
+  return trendingScore
+}
+
+/**
+ * Fetch JSON from the Hacker News API with a timeout
+ */
+async function fetchHackerNewsJson<T>(path: string, url: string): Promise<T> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 30000)
+
+  let response: Response
+  try {
+    response = await fetch(`${HN_API_BASE}${path}`, {
+      signal: controller.signal,
+      headers: {
+        "User-Agent": "ContentIdeaScorer/1.0 (Web Scraper for Content Ideas)",
+        Accept: "application/json",
+      },
+    })
+  } catch (fetchError) {
+    clearTimeout(timeoutId)
+    if (fetchError instanceof Error && fetchError.name === "AbortError") {
+      throw new Error(`Request timeout after 30 seconds: ${url}`)
+    }
+    throw fetchError
+  }
+
+  clearTimeout(timeoutId)
+
+  if (!response.ok) {
+    await recordRateLimitResponse(url, response)
+    throw new Error(`HTTP ${response.status} ${response.statusText}: ${url}`)
+  }
+
+  return (await response.json()) as T
+}
+
+/**
+ * Fetch several items with bounded concurrency, dropping failures and deleted/dead items
+ */
+async function fetchItems(ids: number[], url: string, concurrency: number = 5): Promise<HackerNewsItem[]> {
+  const pLimit = (await import("p-limit")).default
+  const limit = pLimit(concurrency)
+
+  const results = await Promise.allSettled(
+    ids.map((id) => limit(() => fetchHackerNewsJson<HackerNewsItem | null>(`/item/${id}.json`, url)))
+  )
+
+  const items: HackerNewsItem[] = []
+  for (const result of results) {
+    if (result.status === "fulfilled" && result.value && !result.value.deleted && !result.value.dead) {
+      items.push(result.value)
+    }
+  }
+
+  return items
+}
+
+/**
+ * Fetch a story's top comments
+ * HN returns kids in ranked order, so the first few are the top comments
+ */
+async function fetchStoryThread(
+  story: HackerNewsItem,
+  url: string,
+  maxComments: number = 10
+): Promise<HackerNewsThread> {
+  const commentIds = (story.kids || []).slice(0, maxComments)
+  const comments = commentIds.length > 0 ? await fetchItems(commentIds, url) : []
+  return { story, comments }
+}
+
+/**
+ * Build ScrapedContent for a story, including its top comments
+ */
+function buildStoryContent(thread: HackerNewsThread): ScrapedContent | null {
+  const { story, comments } = thread
+  const title = story.title || ""
+  const itemUrl = `https://news.ycombinator.com/item?id=${story.id}`
+
+  const contentParts: string[] = []
+  contentParts.push(`Title: ${title}`)
+
+  if (story.url) {
+    contentParts.push(`Link: ${story.url}`)
+  }
+
+  if (story.text) {
+    contentParts.push(`\nPost Content:\n${stripHackerNewsHtml(story.text)}`)
+  }
+
+  const metadataInfo = [
+    `Author: ${story.by || "unknown"}`,
+    `Points: ${story.score || 0}`,
+    `Comments: ${story.descendants || 0}`,
+  ]
+  contentParts.push(`\nPost Details:\n${metadataInfo.join("\n")}`)
+
+  const commentTexts = comments
+    .filter((comment) => comment.text)
+    .map((comment) => `[Comment by ${comment.by || "unknown"}]: ${stripHackerNewsHtml(comment.text || "")}`)
+
+  if (commentTexts.length > 0) {
+    contentParts.push(`\n\nTop Comments:\n${commentTexts.join("\n\n")}`)
+  }
+
+  const fullContent = contentParts.join("\n")
+
+  if (fullContent.length < 100) {
+    return null // Skip stories with too little content
+  }
+
+  const trendingScore = calculateTrendingScore(story)
+  const excerpt = story.text
+    ? stripHackerNewsHtml(story.text).substring(0, 200).trim()
+    : `${title} (${story.score || 0} points, ${story.descendants || 0} comments)`
+
+  return {
+    url: itemUrl,
+    title: title || null,
+    content: fullContent,
+    publishDate: story.time ? new Date(story.time * 1000) : null,
+    author: story.by || null,
+    excerpt,
+    metadata: {
+      openGraphTitle: title || undefined,
+      openGraphDescription: excerpt,
+      metaDescription: `Hacker News story with ${story.score || 0} points and ${story.descendants || 0} comments`,
+      externalUrl: story.url,
+      score: story.score || 0,
+      commentCount: story.descendants || 0,
+      trendingScore,
+    },
+    scrapedAt: new Date(),
+    contentLength: fullContent.length,
+  }
+}
+
+/**
+ * Fetch a Hacker News listing's top trending stories (or a single item) with their top comments,
+ * without building ScrapedContent
+ *
+ * @param url - news.ycombinator.com URL (front page, /best, /show, /ask or /item?id=)
+ * @param maxStories - Number of top trending stories to keep from a listing
+ */
+export async function fetchHackerNewsUrl(
+  url: string,
+  maxStories: number = 10
+): Promise<FetchedHackerNewsUrl | ScrapeError> {
+  const startTime = Date.now()
+
+  try {
+    // Check rate limit
+    const rateLimitResult = await checkRateLimit(url)
+    if (!rateLimitResult.success) {
+      const errorMessage = `Rate limit exceeded for Hacker News`
+      console.warn(errorMessage, {
+        url,
+        limit: rateLimitResult.limit,
+        remaining: rateLimitResult.remaining,
+        reset: new Date(rateLimitResult.reset).toISOString(),
+        timestamp: new Date().toISOString(),
+      })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    const urlInfo = parseHackerNewsUrl(url)
+    if (!urlInfo) {
+      const errorMessage = `Invalid Hacker News URL format: ${url}`
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    // Handle single item URL
+    if (urlInfo.type === "item" && urlInfo.itemId) {
+      const item = await fetchHackerNewsJson<HackerNewsItem | null>(`/item/${urlInfo.itemId}.json`, url)
+      if (!item || item.deleted || item.dead || item.type === "comment") {
+        const errorMessage = `Hacker News item not found or not a story: ${url}`
+        console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+        return {
+          url,
+          error: errorMessage,
+          timestamp: new Date(),
+        } as ScrapeError
+      }
+
+      const thread = await fetchStoryThread(item, url)
+
+      console.log(`Fetched Hacker News item: ${url}`, {
+        url,
+        comments: thread.comments.length,
+        duration: `${Date.now() - startTime}ms`,
+        timestamp: new Date().toISOString(),
+      })
+
+      return { url, type: "item", listing: null, storiesFound: 1, threads: [thread] }
+    }
+
+    // Handle listing URL - rank the first 30 stories and keep the top trending ones
+    const listing = urlInfo.listing || "top"
+    const storyIds = await fetchHackerNewsJson<number[]>(`/${listing}stories.json`, url)
+    const stories = await fetchItems((storyIds || []).slice(0, 30), url)
+
+    if (stories.length === 0) {
+      const errorMessage = `No stories found in Hacker News listing: ${listing}`
+      console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    const topTrendingStories = stories
+      .map((story) => ({ story, trendingScore: calculateTrendingScore(story) }))
+      .sort((a, b) => b.trendingScore - a.trendingScore)
+      .slice(0, maxStories)
+
+    const threads: HackerNewsThread[] = []
+    for (const { story } of topTrendingStories) {
+      try {
+        threads.push(await fetchStoryThread(story, url))
+      } catch (error) {
+        console.warn(`Failed to fetch Hacker News story ${story.id}`, {
+          url,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+
+    console.log(`Fetched Hacker News listing: ${url}`, {
+      url,
+      listing,
+      storiesFound: stories.length,
+      storiesFetched: threads.length,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString(),
+    })
+
+    return { url, type: "listing", listing, storiesFound: stories.length, threads }
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch Hacker News URL: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Turn fetched Hacker News stories into one ScrapedContent per story
+ */
+export function normalizeHackerNewsItems(data: FetchedHackerNewsUrl): ScrapedContent[] | ScrapeError {
+  const { url } = data
+
+  const items = data.threads
+    .map(buildStoryContent)
+    .filter((item): item is ScrapedContent => item !== null)
+
+  if (items.length === 0) {
+    const errorMessage =
+      data.type === "item"
+        ? `Hacker News item has too little content: ${url}`
+        : `Failed to scrape any stories from Hacker News listing: ${data.listing}`
+    console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  console.log(`Successfully scraped Hacker News ${data.type}: ${url}`, {
+    url,
+    listing: data.listing,
+    storiesFound: data.storiesFound,
+    storiesScraped: items.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return items
+}
+
+/**
+ * Aggregate a listing's stories into a single ScrapedContent, the same way subreddits are
+ * An item URL (or a listing with a single story) returns that story as is
+ */
+export function digestHackerNewsItems(data: FetchedHackerNewsUrl, items: ScrapedContent[]): ScrapedContent {
+  const { url } = data
+
+  if (data.type === "item" || items.length === 1) {
+    return items[0]
+  }
+
+  const listing = data.listing || "top"
+  const aggregatedContent: string[] = []
+  aggregatedContent.push(`=== TRENDING STORIES FROM HACKER NEWS (${listing.toUpperCase()}) ===\n`)
+
+  items.forEach((story, index) => {
+    aggregatedContent.push(`\n${"=".repeat(60)}`)
+    aggregatedContent.push(`STORY ${index + 1} of ${items.length}`)
+    aggregatedContent.push(`${"=".repeat(60)}\n`)
+    aggregatedContent.push(story.content)
+    aggregatedContent.push("\n")
+  })
+
+  const fullContent = aggregatedContent.join("\n")
+  const title = `Trending Stories from Hacker News (${listing})`
+  const excerpt = `Aggregated content from ${items.length} trending Hacker News stories. ${items[0]?.excerpt || ""}`
+
+  return {
+    url,
+    title,
+    content: fullContent,
+    publishDate: items[0]?.publishDate || null,
+    author: null, // Multiple authors
+    excerpt: excerpt.substring(0, 300).trim() + "...",
+    metadata: {
+      openGraphTitle: title,
+      openGraphDescription: `Top ${items.length} trending stories from Hacker News`,
+      metaDescription: `Aggregated trending content from Hacker News with ${items.length} stories`,
+    },
+    scrapedAt: new Date(),
+    contentLength: fullContent.length,
+  }
+}
+
+/**
+ * Scrape a Hacker News listing or item and return one ScrapedContent per story
+ * (fetchHackerNewsUrl, then normalizeHackerNewsItems)
+ *
+ * @param url - news.ycombinator.com URL (front page, /best, /show, /ask or /item?id=)
+ * @param maxStories - Number of top trending stories to keep from a listing
+ */
+export async function scrapeHackerNewsItems(
+  url: string,
+  maxStories: number = 10
+): Promise<ScrapeResult | ScrapedContent[]> {
+  const data = await fetchHackerNewsUrl(url, maxStories)
+  return "threads" in data ? normalizeHackerNewsItems(data) : data
+}
+
+/**
+ * Scrape a Hacker News URL into a single ScrapedContent
+ * Listings are aggregated into one document, the same way subreddits are
+ */
+export async function scrapeHackerNewsUrl(url: string): Promise<ScrapeResult> {
+  const data = await fetchHackerNewsUrl(url, HACKER_NEWS_DIGEST_STORIES)
+  if (!("threads" in data)) {
+    return data
+  }
+
+  const items = normalizeHackerNewsItems(data)
+  return Array.isArray(items) ? digestHackerNewsItems(data, items) : items
+}
@@ -0,0 +1,53 @@
+import type { HttpValidators, NotModifiedResult } from "./types"
+
+/**
+ * Options for scrapers that support conditional requests
+ */
+export interface ConditionalFetchOptions {
+  validators?: HttpValidators | null // From the previous successful fetch of this URL
+}
+
+/**
+ * Build If-None-Match / If-Modified-Since headers from stored validators
+ */
+export function buildConditionalHeaders(validators?: HttpValidators | null): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (validators?.etag) {
+    headers["If-None-Match"] = validators.etag
+  }
+  if (validators?.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified
+  }
+  return headers
+}
+
+/**
+ * Read ETag / Last-Modified from a response
+ */
+export function getResponseValidators(response: Response): HttpValidators {
+  return {
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+  }
+}
+
+/**
+ * Build the result for a 304 response
+ * Servers may omit validators on a 304, in which case the ones we sent still apply
+ */
+export function buildNotModifiedResult(
+  url: string,
+  response: Response,
+  sent?: HttpValidators | null
+): NotModifiedResult {
+  const received = getResponseValidators(response)
+  return {
+    url,
+    notModified: true,
+    validators: {
+      etag: received.etag ?? sent?.etag ?? null,
+      lastModified: received.lastModified ?? sent?.lastModified ?? null,
+    },
+    timestamp: new Date(),
+  }
+}
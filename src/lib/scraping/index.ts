@@ -9,11 +9,40 @@ export type {
   ScrapeResult,
   ExtractedTopic,
   RateLimitResult,
+  HttpValidators,
+  NotModifiedResult,
+  FetchedDocument,
+  ScrapeErrorCode,
 } from "./types"
-export { isScrapedContent, isScrapeError } from "./types"
+export { isScrapedContent, isScrapeError, isNotModified, isFetchedDocument } from "./types"
+export type { ConditionalFetchOptions } from "./http-cache"
+
+// Safe Fetch (URL policy for user-supplied URLs)
+export { getUrlPolicyViolation, isBlockedAddress } from "./safe-fetch"
+
+// Charset detection (for non-UTF-8 pages and feeds)
+export { detectCharset, decodeResponseText } from "./charset"
+export type { CharsetSource } from "./charset"
+
+// robots.txt
+export { SCRAPER_USER_AGENT, enforceRobotsPolicy } from "./robots"
 
 // Rate Limiter
-export { checkRateLimit } from "./rateLimiter"
+export {
+  checkRateLimit,
+  recordRateLimitResponse,
+  setDomainRateLimit,
+  getDomainRateLimit,
+  parseRetryAfter,
+} from "./rateLimiter"
+export {
+  getRateLimitStore,
+  setRateLimitStore,
+  createUpstashRateLimitStore,
+  createPostgresRateLimitStore,
+  createMemoryRateLimitStore,
+} from "./rate-limit-store"
+export type { RateLimitStore, RateLimitRule } from "./rate-limit-store"
 
 // Content Cleaner
 export {
@@ -24,13 +53,84 @@ export {
 } from "./contentCleaner"
 
 // Scraper
-export { scrapeUrl, batchScrape } from "./scraper"
+export { scrapeUrl, batchScrape, fetchPage, fetchPages, parsePage } from "./scraper"
+export type { ScrapeUrlOptions } from "./scraper"
+
+// Fetch Scheduler (parallel across hosts, serial per host)
+export { scheduleFetches } from "./fetch-scheduler"
+export type { FetchScheduleOptions, FetchProgress, ScheduledFetchResult } from "./fetch-scheduler"
+
+// Structured Data (schema.org JSON-LD / microdata)
+export { extractStructuredData } from "./structured-data"
+export type { StructuredArticleData } from "./structured-data"
 
 // RSS Scraper
-export { isRssFeedUrl, scrapeRssFeed } from "./rss-scraper"
+export { isRssFeedUrl, scrapeRssFeed, fetchRssFeed, parseRssFeed } from "./rss-scraper"
+export type { RssFetchOptions } from "./rss-scraper"
+
+// Sitemap Scraper
+export { isSitemapUrl, scrapeSitemap, fetchSitemapPages, normalizeSitemapPages } from "./sitemap-scraper"
+export type { SitemapEntry, SitemapScrapeOptions, FetchedSitemap } from "./sitemap-scraper"
+
+// Source Adapters
+export {
+  registerSourceAdapter,
+  getSourceAdapter,
+  listSourceAdapters,
+  resolveSourceAdapter,
+  parseAdapterConfig,
+  fetchSourceContent,
+} from "./source-adapter"
+export type { SourceAdapter, AdapterSource, SourceFetchResult } from "./source-adapter"
+
+// Content Filters
+export {
+  contentFiltersSchema,
+  parseContentFilters,
+  hasContentFilters,
+  evaluateContentFilters,
+  applyContentFilters,
+} from "./content-filter"
+export type { ContentFilters, ContentFilterDecision } from "./content-filter"
+
+// Feed Discovery
+export { discoverFeeds } from "./feed-discovery"
+export type { DiscoveredFeed } from "./feed-discovery"
+
+// Hacker News Scraper
+export {
+  isHackerNewsUrl,
+  scrapeHackerNewsUrl,
+  scrapeHackerNewsItems,
+  fetchHackerNewsUrl,
+  normalizeHackerNewsItems,
+  digestHackerNewsItems,
+} from "./hackernews-scraper"
+export type { FetchedHackerNewsUrl, HackerNewsThread, HackerNewsItem } from "./hackernews-scraper"
+
+// Product Hunt Scraper
+export {
+  calculateProductHuntScore,
+  scrapeProductHuntLaunches,
+  fetchProductHuntLaunches,
+  normalizeProductHuntLaunches,
+} from "./producthunt-scraper"
+export type { ProductHuntPost } from "./producthunt-scraper"
+
+// Google Trends Scraper
+export {
+  isGoogleTrendsUrl,
+  scrapeGoogleTrends,
+  fetchGoogleTrends,
+  normalizeGoogleTrends,
+  parseGoogleTrendsSearches,
+  parseGoogleTrendsResponse,
+  parseSearchVolume,
+} from "./google-trends-scraper"
+export type { FetchedGoogleTrends, GoogleTrendsSearch, GoogleTrendsArticle } from "./google-trends-scraper"
 
 // Topic Extractor
-export { extractTopicsFromContent } from "./topicExtractor"
+export { extractTopicsFromContent, getTopicSourceUrl } from "./topicExtractor"
 
 // Email Parser
 export { parseEmailContent } from "./email-parser"
@@ -0,0 +1,312 @@
+/**
+ * Product Hunt scraper using the Product Hunt GraphQL API (v2)
+ * Pulls the day's launches with tagline, topics and vote/comment counts
+ * Requires PRODUCT_HUNT_API_TOKEN (a developer token from producthunt.com/v2/oauth/applications)
+ */
+
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
+
+const PRODUCT_HUNT_API_URL = "https://api.producthunt.com/v2/api/graphql"
+
+/**
+ * Product Hunt API post node
+ */
+export interface ProductHuntPost {
+  id: string
+  name: string
+  tagline: string
+  description: string | null
+  url: string // Product Hunt page
+  website: string | null
+  votesCount: number
+  commentsCount: number
+  createdAt: string
+  topics: {
+    edges: Array<{ node: { name: string } }>
+  }
+  makers?: Array<{ name: string }>
+}
+
+interface ProductHuntResponse {
+  data?: {
+    posts: {
+      edges: Array<{ node: ProductHuntPost }>
+    }
+  }
+  errors?: Array<{ message: string }>
+}
+
+const DAILY_LAUNCHES_QUERY = `
+  query DailyLaunches($postedAfter: DateTime!, $postedBefore: DateTime!, $first: Int!) {
+    posts(postedAfter: $postedAfter, postedBefore: $postedBefore, order: VOTES, first: $first) {
+      edges {
+        node {
+          id
+          name
+          tagline
+          description
+          url
+          website
+          votesCount
+          commentsCount
+          createdAt
+          topics(first: 5) {
+            edges {
+              node {
+                name
+              }
+            }
+          }
+          makers {
+            name
+          }
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Calculate a 0-100 trending score for a launch
+ * Used directly as trend_score, so it is normalized to the same range Claude uses
+ * Factors: votes (75%), comments (25%) on a log scale
+ * ~1000 votes and ~200 comments saturate their components
+ */
+export function calculateProductHuntScore(votesCount: number, commentsCount: number): number {
+  const normalizedVotes = Math.min(Math.log10(Math.max(votesCount, 0) + 1) / Math.log10(1001), 1) * 100
+  const normalizedComments = Math.min(Math.log10(Math.max(commentsCount, 0) + 1) / Math.log10(201), 1) * 100
+
+  return Math.round(normalizedVotes * 0.75 + normalizedComments * 0.25)
+}
+
+/**
+ * Product Hunt's launch day runs midnight-to-midnight US Pacific time
+ * Returns the UTC window for the launch day containing `now`
+ */
+function getLaunchDayWindow(now: Date): { postedAfter: string; postedBefore: string } {
+  const pacificDate = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now) // YYYY-MM-DD
+
+  // Offset between UTC and Pacific for this instant (7 or 8 hours)
+  const pacificNow = new Date(now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }))
+  const utcNow = new Date(now.toLocaleString("en-US", { timeZone: "UTC" }))
+  const offsetMs = utcNow.getTime() - pacificNow.getTime()
+
+  const start = new Date(new Date(`${pacificDate}T00:00:00Z`).getTime() + offsetMs)
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+
+  return { postedAfter: start.toISOString(), postedBefore: end.toISOString() }
+}
+
+/**
+ * Build ScrapedContent for a single launch
+ */
+function buildLaunchContent(post: ProductHuntPost): ScrapedContent {
+  const topics = post.topics.edges.map((edge) => edge.node.name)
+  const makers = (post.makers || []).map((maker) => maker.name).filter(Boolean)
+
+  const contentParts: string[] = []
+  contentParts.push(`Product: ${post.name}`)
+  contentParts.push(`Tagline: ${post.tagline}`)
+
+  if (post.description) {
+    contentParts.push(`\nDescription:\n${post.description}`)
+  }
+
+  const metadataInfo = [
+    `Topics: ${topics.length > 0 ? topics.join(", ") : "none"}`,
+    `Votes: ${post.votesCount}`,
+    `Comments: ${post.commentsCount}`,
+  ]
+  if (makers.length > 0) {
+    metadataInfo.push(`Makers: ${makers.join(", ")}`)
+  }
+  if (post.website) {
+    metadataInfo.push(`Website: ${post.website}`)
+  }
+  contentParts.push(`\nLaunch Details:\n${metadataInfo.join("\n")}`)
+
+  const fullContent = contentParts.join("\n")
+
+  return {
+    url: post.url,
+    title: `${post.name} - ${post.tagline}`,
+    content: fullContent,
+    publishDate: new Date(post.createdAt),
+    author: makers[0] || null,
+    excerpt: post.tagline,
+    metadata: {
+      openGraphTitle: post.name,
+      openGraphDescription: post.tagline,
+      metaDescription: `Product Hunt launch with ${post.votesCount} votes and ${post.commentsCount} comments`,
+      externalUrl: post.website || undefined,
+      score: post.votesCount,
+      commentCount: post.commentsCount,
+      topics,
+      sourceTrendScore: calculateProductHuntScore(post.votesCount, post.commentsCount),
+    },
+    scrapedAt: new Date(),
+    contentLength: fullContent.length,
+  }
+}
+
+/**
+ * Fetch the day's Product Hunt launch nodes from the GraphQL API, ordered by votes
+ *
+ * @param url - Source URL (used for rate limiting and error reporting)
+ * @param maxLaunches - Number of launches to fetch
+ */
+export async function fetchProductHuntLaunches(
+  url: string = "https://www.producthunt.com",
+  maxLaunches: number = 20
+): Promise<ProductHuntPost[] | ScrapeError> {
+  const startTime = Date.now()
+
+  const apiToken = process.env.PRODUCT_HUNT_API_TOKEN
+  if (!apiToken) {
+    const errorMessage = "PRODUCT_HUNT_API_TOKEN is not configured"
+    console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  try {
+    // Check rate limit
+    const rateLimitResult = await checkRateLimit(PRODUCT_HUNT_API_URL)
+    if (!rateLimitResult.success) {
+      const errorMessage = `Rate limit exceeded for Product Hunt`
+      console.warn(errorMessage, {
+        url,
+        limit: rateLimitResult.limit,
+        remaining: rateLimitResult.remaining,
+        reset: new Date(rateLimitResult.reset).toISOString(),
+        timestamp: new Date().toISOString(),
+      })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 30000)
+
+    let response: Response
+    try {
+      response = await fetch(PRODUCT_HUNT_API_URL, {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          Authorization: `Bearer ${apiToken}`,
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          "User-Agent": "ContentIdeaScorer/1.0 (Web Scraper for Content Ideas)",
+        },
+        body: JSON.stringify({
+          query: DAILY_LAUNCHES_QUERY,
+          variables: {
+            ...getLaunchDayWindow(new Date()),
+            first: maxLaunches,
+          },
+        }),
+      })
+    } catch (fetchError) {
+      clearTimeout(timeoutId)
+      if (fetchError instanceof Error && fetchError.name === "AbortError") {
+        throw new Error(`Request timeout after 30 seconds: ${PRODUCT_HUNT_API_URL}`)
+      }
+      throw fetchError
+    }
+
+    clearTimeout(timeoutId)
+
+    if (!response.ok) {
+      await recordRateLimitResponse(PRODUCT_HUNT_API_URL, response)
+      throw new Error(`HTTP ${response.status} ${response.statusText}: ${PRODUCT_HUNT_API_URL}`)
+    }
+
+    const payload = (await response.json()) as ProductHuntResponse
+
+    if (payload.errors && payload.errors.length > 0) {
+      throw new Error(`Product Hunt API error: ${payload.errors.map((e) => e.message).join("; ")}`)
+    }
+
+    const posts = (payload.data?.posts.edges || []).map((edge) => edge.node)
+
+    console.log(`Fetched Product Hunt launches`, {
+      url,
+      launches: posts.length,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString(),
+    })
+
+    return posts
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch Product Hunt launches`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Turn fetched launch nodes into one ScrapedContent per launch
+ *
+ * @param posts - Launches as returned by fetchProductHuntLaunches
+ * @param url - Source URL (used for error reporting)
+ */
+export function normalizeProductHuntLaunches(posts: ProductHuntPost[], url: string): ScrapedContent[] | ScrapeError {
+  if (posts.length === 0) {
+    const errorMessage = "No Product Hunt launches found for today"
+    console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  const items = posts.map(buildLaunchContent)
+
+  console.log(`Successfully scraped Product Hunt launches`, {
+    url,
+    launches: items.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return items
+}
+
+/**
+ * Fetch the day's Product Hunt launches, one ScrapedContent per launch, ordered by votes
+ * (fetchProductHuntLaunches, then normalizeProductHuntLaunches)
+ *
+ * @param url - Source URL (used for rate limiting and error reporting)
+ * @param maxLaunches - Number of launches to fetch
+ */
+export async function scrapeProductHuntLaunches(
+  url: string = "https://www.producthunt.com",
+  maxLaunches: number = 20
+): Promise<ScrapeResult | ScrapedContent[]> {
+  const posts = await fetchProductHuntLaunches(url, maxLaunches)
+  return Array.isArray(posts) ? normalizeProductHuntLaunches(posts, url) : posts
+}
@@ -0,0 +1,222 @@
+/**
+ * Pluggable store for the per-domain scrape rate limits (see rateLimiter.ts)
+ * The store is chosen by RATE_LIMIT_STORE ("upstash", "postgres" or "memory"):
+ * - upstash: sliding window in Upstash Redis (UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN)
+ * - postgres: fixed window in the rate_limit_buckets table, via the service role (see 016_rate_limit_store.sql)
+ * - memory: sliding window in this process only, for local development and single-instance self-hosting
+ * When RATE_LIMIT_STORE is unset, upstash is used if Redis is configured, then postgres if the
+ * Supabase service role is, otherwise memory
+ */
+
+import { Ratelimit } from "@upstash/ratelimit"
+import { Redis } from "@upstash/redis"
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import type { RateLimitResult } from "./types"
+
+/**
+ * How many requests a domain may make per window
+ */
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+/**
+ * A rate limit store; implement this to keep counters somewhere else
+ * limit() counts a request and says whether it may go ahead; block() turns every request for the
+ * key away until a time (when the site itself asked us to back off)
+ */
+export interface RateLimitStore {
+  name: string
+  limit(key: string, rule: RateLimitRule): Promise<RateLimitResult>
+  block(key: string, until: number): Promise<void>
+}
+
+function isConfigured(value: string | undefined, placeholder: string): value is string {
+  return !!value && value !== placeholder
+}
+
+/**
+ * Upstash Redis store, shared by every instance
+ */
+export function createUpstashRateLimitStore(): RateLimitStore {
+  const url = process.env.UPSTASH_REDIS_REST_URL
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN
+  if (!isConfigured(url, "your_redis_url") || !isConfigured(token, "your_redis_token")) {
+    throw new Error("UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are not configured")
+  }
+
+  const redis = new Redis({ url, token })
+
+  // One limiter per rule; Ratelimit fixes its window when it's created
+  const limiters = new Map<string, Ratelimit>()
+  const getLimiter = (rule: RateLimitRule) => {
+    const ruleKey = `${rule.limit}:${rule.windowMs}`
+    let limiter = limiters.get(ruleKey)
+    if (!limiter) {
+      limiter = new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(rule.limit, `${rule.windowMs} ms`),
+        analytics: true,
+      })
+      limiters.set(ruleKey, limiter)
+    }
+    return limiter
+  }
+
+  return {
+    name: "upstash",
+    async limit(key, rule) {
+      const blockedUntil = await redis.get<number>(`${key}:blocked`)
+      if (blockedUntil && blockedUntil > Date.now()) {
+        return { success: false, limit: rule.limit, remaining: 0, reset: blockedUntil }
+      }
+
+      const result = await getLimiter(rule).limit(key)
+      return {
+        success: result.success,
+        limit: result.limit,
+        remaining: result.remaining,
+        reset: result.reset,
+      }
+    },
+    async block(key, until) {
+      const ttl = until - Date.now()
+      if (ttl > 0) {
+        await redis.set(`${key}:blocked`, until, { px: ttl })
+      }
+    },
+  }
+}
+
+/**
+ * Postgres store, shared by every instance without needing Redis
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  const serviceClient = createServiceRoleClient()
+
+  return {
+    name: "postgres",
+    async limit(key, rule) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database type does not declare Functions
+      const { data, error } = await (serviceClient as any).rpc("check_rate_limit", {
+        p_key: key,
+        p_limit: rule.limit,
+        p_window_ms: rule.windowMs,
+      })
+
+      if (error) {
+        throw new Error(`Failed to check rate limit: ${error.message}`)
+      }
+
+      const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; hits: number; reset_at: string }
+      return {
+        success: row.allowed,
+        limit: rule.limit,
+        remaining: Math.max(rule.limit - row.hits, 0),
+        reset: new Date(row.reset_at).getTime(),
+      }
+    },
+    async block(key, until) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database type does not declare Functions
+      const { error } = await (serviceClient as any).rpc("block_rate_limit", {
+        p_key: key,
+        p_until: new Date(until).toISOString(),
+      })
+
+      if (error) {
+        throw new Error(`Failed to record rate limit block: ${error.message}`)
+      }
+    },
+  }
+}
+
+/**
+ * In-memory store - counts only this process's requests, and forgets them on restart
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>()
+  const blocks = new Map<string, number>()
+
+  return {
+    name: "memory",
+    async limit(key, rule) {
+      const now = Date.now()
+
+      const blockedUntil = blocks.get(key)
+      if (blockedUntil && blockedUntil > now) {
+        return { success: false, limit: rule.limit, remaining: 0, reset: blockedUntil }
+      }
+
+      const recent = (hits.get(key) ?? []).filter((time) => time > now - rule.windowMs)
+      const allowed = recent.length < rule.limit
+      if (allowed) {
+        recent.push(now)
+      }
+      hits.set(key, recent)
+
+      return {
+        success: allowed,
+        limit: rule.limit,
+        remaining: rule.limit - recent.length,
+        reset: (recent[0] ?? now) + rule.windowMs, // When the oldest counted request leaves the window
+      }
+    },
+    async block(key, until) {
+      blocks.set(key, Math.max(until, blocks.get(key) ?? 0))
+    },
+  }
+}
+
+let storeOverride: RateLimitStore | null = null
+let configuredStore: RateLimitStore | null = null
+
+/**
+ * Replace the configured store (e.g. with your own implementation); pass null to reset
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  storeOverride = store
+}
+
+/**
+ * Resolve the store from RATE_LIMIT_STORE / the Upstash and Supabase settings
+ * Created once per process, since the memory store's counters live in the store itself
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (storeOverride) {
+    return storeOverride
+  }
+  if (configuredStore) {
+    return configuredStore
+  }
+
+  const configured =
+    process.env.RATE_LIMIT_STORE ||
+    (isConfigured(process.env.UPSTASH_REDIS_REST_URL, "your_redis_url") &&
+    isConfigured(process.env.UPSTASH_REDIS_REST_TOKEN, "your_redis_token")
+      ? "upstash"
+      : isConfigured(process.env.SUPABASE_SERVICE_ROLE_KEY, "your_service_role_key")
+        ? "postgres"
+        : "memory")
+
+  switch (configured) {
+    case "upstash":
+      configuredStore = createUpstashRateLimitStore()
+      break
+    case "postgres":
+      configuredStore = createPostgresRateLimitStore()
+      break
+    case "memory":
+      configuredStore = createMemoryRateLimitStore()
+      break
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${configured}`)
+  }
+
+  console.log(`Using ${configuredStore.name} rate limit store`, {
+    store: configuredStore.name,
+    timestamp: new Date().toISOString(),
+  })
+
+  return configuredStore
+}
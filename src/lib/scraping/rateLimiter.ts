@@ -1,37 +1,48 @@
-import { Ratelimit } from "@upstash/ratelimit"
-import { Redis } from "@upstash/redis"
+import { z } from "zod"
 import type { RateLimitResult } from "./types"
+import { createMemoryRateLimitStore, getRateLimitStore, type RateLimitRule } from "./rate-limit-store"
+
+// 10 requests per domain per minute unless a domain has its own rule
+const DEFAULT_RATE_LIMIT: RateLimitRule = { limit: 10, windowMs: 60_000 }
+
+// Backoff after a 429 without a usable Retry-After, and the longest backoff we honour
+const DEFAULT_BACKOFF_MS = 60_000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
 
 /**
- * Initialize Redis client for rate limiting
- * Falls back gracefully if Redis is not configured
+ * SCRAPE_RATE_LIMITS: JSON object of domain -> rule, with "default" replacing the default rule,
+ * e.g. {"default": {"limit": 10, "windowSeconds": 60}, "reddit.com": {"limit": 30, "windowSeconds": 60}}
+ * A domain's rule also covers its subdomains
  */
-let redis: Redis | null = null
-let ratelimit: Ratelimit | null = null
-
-try {
-  const redisUrl = process.env.UPSTASH_REDIS_REST_URL
-  const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN
+const rateLimitConfigSchema = z.record(
+  z.object({
+    limit: z.number().int().min(1),
+    windowSeconds: z.number().positive(),
+  })
+)
 
-  if (redisUrl && redisToken && redisUrl !== "your_redis_url" && redisToken !== "your_redis_token") {
-    redis = new Redis({
-      url: redisUrl,
-      token: redisToken,
-    })
+const domainRules = new Map<string, RateLimitRule>()
+let defaultRule = DEFAULT_RATE_LIMIT
 
-    // Create rate limiter with sliding window
-    // 10 requests per domain per minute
-    ratelimit = new Ratelimit({
-      redis: redis,
-      limiter: Ratelimit.slidingWindow(10, "1 m"),
-      analytics: true,
-    })
+try {
+  if (process.env.SCRAPE_RATE_LIMITS) {
+    const config = rateLimitConfigSchema.parse(JSON.parse(process.env.SCRAPE_RATE_LIMITS))
+    for (const [domain, rule] of Object.entries(config)) {
+      const parsed = { limit: rule.limit, windowMs: rule.windowSeconds * 1000 }
+      if (domain === "default") {
+        defaultRule = parsed
+      } else {
+        domainRules.set(domain.toLowerCase().replace(/^www\./, ""), parsed)
+      }
+    }
   }
 } catch (error) {
-  console.error("Failed to initialize Redis for rate limiting:", error)
-  // Continue without rate limiting if Redis fails
+  console.error("Invalid SCRAPE_RATE_LIMITS, using the default rate limit for every domain:", error)
 }
 
+// Used when the configured store fails, so an outage degrades to per-process limits rather than none
+const fallbackStore = createMemoryRateLimitStore()
+
 /**
  * Extract domain from URL for rate limiting
  * Handles edge cases: localhost, IP addresses, malformed URLs
@@ -61,55 +72,103 @@ function extractDomain(url: string): string {
   }
 }
 
+/**
+ * Set the rate limit for a domain and its subdomains, overriding SCRAPE_RATE_LIMITS
+ */
+export function setDomainRateLimit(domain: string, rule: RateLimitRule): void {
+  domainRules.set(domain.toLowerCase().replace(/^www\./, ""), rule)
+}
+
+/**
+ * The rule for a domain: its own, else its closest parent domain's, else the default
+ */
+export function getDomainRateLimit(domain: string): RateLimitRule {
+  const labels = domain.split(".")
+  for (let i = 0; i < labels.length - 1; i++) {
+    const rule = domainRules.get(labels.slice(i).join("."))
+    if (rule) return rule
+  }
+  return domainRules.get(domain) ?? defaultRule
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into milliseconds from now
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null
+
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  return isNaN(date) ? null : Math.max(date - now, 0)
+}
+
 /**
  * Check rate limit for a URL
- * Uses per-domain rate limiting (not per-URL)
- * 
+ * Uses per-domain rate limiting (not per-URL), against the configured store (see rate-limit-store.ts)
+ *
  * @param url - The URL to check rate limit for
  * @returns RateLimitResult with success status and limit information
  */
 export async function checkRateLimit(url: string): Promise<RateLimitResult> {
-  // If Redis is not configured, allow the request but log a warning
-  if (!ratelimit || !redis) {
-    console.warn(
-      "Rate limiting not configured (Redis not available). Allowing request.",
-      { url, timestamp: new Date().toISOString() }
-    )
-    return {
-      success: true,
-      limit: 10,
-      remaining: 10,
-      reset: Date.now() + 60000, // 1 minute from now
-    }
-  }
+  const domain = extractDomain(url)
+  const key = `ratelimit:domain:${domain}`
+  const rule = getDomainRateLimit(domain)
 
   try {
-    const domain = extractDomain(url)
-    const key = `ratelimit:domain:${domain}`
-
-    const result = await ratelimit.limit(key)
-
-    return {
-      success: result.success,
-      limit: result.limit,
-      remaining: result.remaining,
-      reset: result.reset,
-    }
+    return await getRateLimitStore().limit(key, rule)
   } catch (error) {
-    // If rate limiting fails, allow the request but log the error
     console.error(
-      "Rate limiting check failed. Allowing request.",
+      "Rate limit store failed. Falling back to in-memory rate limiting.",
       {
         url,
         error: error instanceof Error ? error.message : String(error),
         timestamp: new Date().toISOString(),
       }
     )
-    return {
-      success: true,
-      limit: 10,
-      remaining: 10,
-      reset: Date.now() + 60000,
-    }
+    return fallbackStore.limit(key, rule)
   }
 }
+
+/**
+ * Feed a site's own rate limiting back into the limiter
+ * After a 429 (or a 503 with Retry-After), requests to the domain are turned away until the
+ * Retry-After time (a minute if the site didn't say), capped at an hour
+ *
+ * @returns true if the response told us to back off
+ */
+export async function recordRateLimitResponse(url: string, response: Response): Promise<boolean> {
+  const retryAfter = response.headers.get("retry-after")
+  if (response.status !== 429 && !(response.status === 503 && retryAfter)) {
+    return false
+  }
+
+  const domain = extractDomain(url)
+  const key = `ratelimit:domain:${domain}`
+  const backoffMs = Math.min(parseRetryAfter(retryAfter) ?? DEFAULT_BACKOFF_MS, MAX_BACKOFF_MS)
+  const until = Date.now() + backoffMs
+
+  console.warn(`Rate limited by ${domain}, backing off for ${Math.round(backoffMs / 1000)}s`, {
+    url,
+    status: response.status,
+    retryAfter,
+    until: new Date(until).toISOString(),
+    timestamp: new Date().toISOString(),
+  })
+
+  try {
+    await getRateLimitStore().block(key, until)
+  } catch (error) {
+    console.error("Failed to record rate limit backoff. Recording it in memory instead.", {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    await fallbackStore.block(key, until)
+  }
+
+  return true
+}
@@ -4,7 +4,7 @@
  * Extracts post content + comments, or discovers trending posts from subreddits
  */
 
-import { checkRateLimit } from "./rateLimiter"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
 import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
 
 /**
@@ -257,6 +257,7 @@ async function fetchSubredditListing(
   clearTimeout(timeoutId)
 
   if (!response.ok) {
+    await recordRateLimitResponse(url, response)
     throw new Error(`HTTP ${response.status} ${response.statusText}: ${url}`)
   }
 
@@ -278,12 +279,33 @@ async function fetchSubredditListing(
 }
 
 /**
- * Scrape a single Reddit post (internal function, used by both single post and subreddit scraping)
+ * A Reddit post and its top-level comments, as returned by the JSON API
  */
-async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent | null> {
+export interface RedditThread {
+  url: string // Post permalink
+  post: RedditPost["data"]
+  comments: RedditComment[]
+}
+
+/**
+ * A Reddit URL's threads as fetched, before they're turned into ScrapedContent
+ */
+export interface FetchedRedditUrl {
+  url: string
+  type: "post" | "subreddit"
+  subreddit: string
+  postsFound: number // Posts in the subreddit listing (1 for a post URL)
+  threads: RedditThread[] // The post, or a subreddit's top trending posts in trending order
+  errors: string[] // Listing posts whose thread couldn't be fetched
+}
+
+/**
+ * Fetch a single Reddit post and its comments (used by both single post and subreddit scraping)
+ */
+async function fetchRedditThread(postUrl: string): Promise<RedditThread> {
   const jsonUrl = convertToRedditPostJsonUrl(postUrl)
   if (!jsonUrl) {
-    return null
+    throw new Error(`Invalid Reddit post URL format: ${postUrl}`)
   }
 
   const controller = new AbortController()
@@ -309,6 +331,7 @@ async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent |
   clearTimeout(timeoutId)
 
   if (!response.ok) {
+    await recordRateLimitResponse(postUrl, response)
     throw new Error(`HTTP ${response.status} ${response.statusText}: ${postUrl}`)
   }
 
@@ -337,6 +360,15 @@ async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent |
     )
   }
 
+  return { url: postUrl, post: postData, comments }
+}
+
+/**
+ * Build ScrapedContent for a single Reddit post, including its top comments
+ */
+function buildPostContent(thread: RedditThread): ScrapedContent | null {
+  const { post: postData, comments } = thread
+
   // Build content text
   const contentParts: string[] = []
   const title = postData.title || ""
@@ -356,7 +388,7 @@ async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent |
 
   let commentTexts: string[] = []
   if (comments.length > 0) {
-    const topComments = comments
+    const topComments = [...comments]
       .sort((a, b) => (b.data.score || 0) - (a.data.score || 0))
       .slice(0, 20)
 
@@ -376,7 +408,7 @@ async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent |
   const excerpt = fullContent.substring(0, 300).trim() + "..."
 
   return {
-    url: postUrl,
+    url: thread.url,
     title: title || null,
     content: fullContent,
     publishDate,
@@ -394,9 +426,10 @@ async function scrapeSingleRedditPost(postUrl: string): Promise<ScrapedContent |
 }
 
 /**
- * Scrape a Reddit post or subreddit using Reddit's JSON API
+ * Fetch a Reddit post, or a subreddit's top trending posts, from Reddit's JSON API
+ * without building ScrapedContent
  */
-export async function scrapeRedditUrl(url: string): Promise<ScrapeResult> {
+export async function fetchRedditUrl(url: string): Promise<FetchedRedditUrl | ScrapeError> {
   const startTime = Date.now()
 
   try {
@@ -433,31 +466,27 @@ export async function scrapeRedditUrl(url: string): Promise<ScrapeResult> {
     // Handle single post URL
     if (urlInfo.type === "post") {
       try {
-        const scrapedPost = await scrapeSingleRedditPost(url)
-        if (!scrapedPost) {
-          const errorMessage = `Failed to scrape Reddit post: ${url}`
-          console.error(errorMessage, { url, timestamp: new Date().toISOString() })
-          return {
-            url,
-            error: errorMessage,
-            timestamp: new Date(),
-          } as ScrapeError
-        }
+        const thread = await fetchRedditThread(url)
 
-        const duration = Date.now() - startTime
-        console.log(`Successfully scraped Reddit post: ${url}`, {
+        console.log(`Fetched Reddit post: ${url}`, {
           url,
-          title: scrapedPost.title,
-          contentLength: scrapedPost.contentLength,
-          duration: `${duration}ms`,
+          comments: thread.comments.length,
+          duration: `${Date.now() - startTime}ms`,
           timestamp: new Date().toISOString(),
         })
 
-        return scrapedPost
+        return {
+          url,
+          type: "post",
+          subreddit: urlInfo.subreddit,
+          postsFound: 1,
+          threads: [thread],
+          errors: [],
+        }
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : `Unknown error: ${String(error)}`
-        console.error(`Failed to scrape Reddit post: ${url}`, {
+        console.error(`Failed to fetch Reddit post: ${url}`, {
           url,
           error: errorMessage,
           stack: error instanceof Error ? error.stack : undefined,
@@ -472,177 +501,104 @@ export async function scrapeRedditUrl(url: string): Promise<ScrapeResult> {
       }
     }
 
-    // Handle subreddit URL - discover and scrape trending posts
-    if (urlInfo.type === "subreddit") {
-      console.log(`Detected subreddit URL, discovering trending posts: ${url}`, {
-        url,
-        subreddit: urlInfo.subreddit,
-        sort: urlInfo.sort,
-        timestamp: new Date().toISOString(),
-      })
-
-      try {
-        // Fetch subreddit listing
-        const jsonUrl = convertToRedditSubredditJsonUrl(url)
-        if (!jsonUrl) {
-          const errorMessage = `Invalid subreddit URL format: ${url}`
-          console.error(errorMessage, { url, timestamp: new Date().toISOString() })
-          return {
-            url,
-            error: errorMessage,
-            timestamp: new Date(),
-          } as ScrapeError
-        }
-
-        const posts = await fetchSubredditListing(jsonUrl, url)
+    // Handle subreddit URL - discover and fetch trending posts
+    console.log(`Detected subreddit URL, discovering trending posts: ${url}`, {
+      url,
+      subreddit: urlInfo.subreddit,
+      sort: urlInfo.sort,
+      timestamp: new Date().toISOString(),
+    })
 
-        if (posts.length === 0) {
-          const errorMessage = `No posts found in subreddit: r/${urlInfo.subreddit}`
-          console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
-          return {
-            url,
-            error: errorMessage,
-            timestamp: new Date(),
-          } as ScrapeError
-        }
+    // Fetch subreddit listing
+    const jsonUrl = convertToRedditSubredditJsonUrl(url)
+    if (!jsonUrl) {
+      const errorMessage = `Invalid subreddit URL format: ${url}`
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
 
-        // Calculate trending scores and sort
-        const postsWithScores = posts.map((post) => ({
-          post,
-          trendingScore: calculateTrendingScore(post),
-        }))
+    const posts = await fetchSubredditListing(jsonUrl, url)
 
-        // Sort by trending score (highest first) and take top 5-8 posts
-        const topTrendingPosts = postsWithScores
-          .sort((a, b) => b.trendingScore - a.trendingScore)
-          .slice(0, 7) // Scrape top 7 trending posts
+    if (posts.length === 0) {
+      const errorMessage = `No posts found in subreddit: r/${urlInfo.subreddit}`
+      console.warn(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
 
-        console.log(`Found ${posts.length} posts, selecting top ${topTrendingPosts.length} trending posts`, {
-          url,
-          subreddit: urlInfo.subreddit,
-          selectedCount: topTrendingPosts.length,
-          timestamp: new Date().toISOString(),
-        })
+    // Calculate trending scores and sort
+    const postsWithScores = posts.map((post) => ({
+      post,
+      trendingScore: calculateTrendingScore(post),
+    }))
 
-        // Scrape each trending post
-        const scrapedPosts: ScrapedContent[] = []
-        const errors: string[] = []
-
-        for (let i = 0; i < topTrendingPosts.length; i++) {
-          const { post } = topTrendingPosts[i]
-          const postUrl = `https://www.reddit.com${post.permalink}`
-
-          try {
-            // Add small delay between requests to respect rate limits
-            if (i > 0) {
-              await new Promise((resolve) => setTimeout(resolve, 2000))
-            }
-
-            const scrapedPost = await scrapeSingleRedditPost(postUrl)
-            if (scrapedPost) {
-              scrapedPosts.push(scrapedPost)
-            }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            errors.push(`Failed to scrape post "${post.title}": ${errorMsg}`)
-            console.warn(`Failed to scrape post: ${postUrl}`, {
-              postUrl,
-              error: errorMsg,
-              timestamp: new Date().toISOString(),
-            })
-          }
-        }
+    // Sort by trending score (highest first) and take top 5-8 posts
+    const topTrendingPosts = postsWithScores
+      .sort((a, b) => b.trendingScore - a.trendingScore)
+      .slice(0, 7) // Scrape top 7 trending posts
 
-        if (scrapedPosts.length === 0) {
-          const errorMessage = `Failed to scrape any posts from subreddit: r/${urlInfo.subreddit}. Errors: ${errors.join("; ")}`
-          console.error(errorMessage, { url, errors, timestamp: new Date().toISOString() })
-          return {
-            url,
-            error: errorMessage,
-            timestamp: new Date(),
-          } as ScrapeError
-        }
+    console.log(`Found ${posts.length} posts, selecting top ${topTrendingPosts.length} trending posts`, {
+      url,
+      subreddit: urlInfo.subreddit,
+      selectedCount: topTrendingPosts.length,
+      timestamp: new Date().toISOString(),
+    })
 
-        // Aggregate content from all scraped posts
-        const aggregatedContent: string[] = []
-        aggregatedContent.push(
-          `=== TRENDING POSTS FROM r/${urlInfo.subreddit.toUpperCase()} ===\n`
-        )
-        aggregatedContent.push(
-          `Scraped ${scrapedPosts.length} trending posts from ${posts.length} total posts\n`
-        )
-
-        scrapedPosts.forEach((post, index) => {
-          aggregatedContent.push(`\n${"=".repeat(60)}`)
-          aggregatedContent.push(`POST ${index + 1} of ${scrapedPosts.length}`)
-          aggregatedContent.push(`${"=".repeat(60)}\n`)
-          aggregatedContent.push(post.content)
-          aggregatedContent.push("\n")
-        })
+    // Fetch each trending post with its comments
+    const threads: RedditThread[] = []
+    const errors: string[] = []
 
-        const fullContent = aggregatedContent.join("\n")
-        const title = `Trending Posts from r/${urlInfo.subreddit}`
-        const excerpt = `Aggregated content from ${scrapedPosts.length} trending posts in r/${urlInfo.subreddit}. ${scrapedPosts[0]?.excerpt || ""}`
+    for (let i = 0; i < topTrendingPosts.length; i++) {
+      const { post } = topTrendingPosts[i]
+      const postUrl = `https://www.reddit.com${post.permalink}`
 
-        const aggregatedScrapedContent: ScrapedContent = {
-          url,
-          title,
-          content: fullContent,
-          publishDate: scrapedPosts[0]?.publishDate || null,
-          author: null, // Multiple authors
-          excerpt: excerpt.substring(0, 300).trim() + "...",
-          metadata: {
-            openGraphTitle: title,
-            openGraphDescription: `Top ${scrapedPosts.length} trending posts from r/${urlInfo.subreddit}`,
-            metaDescription: `Aggregated trending content from r/${urlInfo.subreddit} with ${scrapedPosts.length} posts`,
-          },
-          scrapedAt: new Date(),
-          contentLength: fullContent.length,
+      try {
+        // Add small delay between requests to respect rate limits
+        if (i > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 2000))
         }
 
-        const duration = Date.now() - startTime
-        console.log(`Successfully scraped subreddit: ${url}`, {
-          url,
-          subreddit: urlInfo.subreddit,
-          postsFound: posts.length,
-          postsScraped: scrapedPosts.length,
-          errors: errors.length,
-          contentLength: fullContent.length,
-          duration: `${duration}ms`,
-          timestamp: new Date().toISOString(),
-        })
-
-        return aggregatedScrapedContent
+        threads.push(await fetchRedditThread(postUrl))
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : `Unknown error: ${String(error)}`
-        console.error(`Failed to scrape subreddit: ${url}`, {
-          url,
-          error: errorMessage,
-          stack: error instanceof Error ? error.stack : undefined,
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        errors.push(`Failed to scrape post "${post.title}": ${errorMsg}`)
+        console.warn(`Failed to fetch post: ${postUrl}`, {
+          postUrl,
+          error: errorMsg,
           timestamp: new Date().toISOString(),
         })
-
-        return {
-          url,
-          error: errorMessage,
-          timestamp: new Date(),
-        } as ScrapeError
       }
     }
 
-    // Should not reach here, but handle just in case
-    const errorMessage = `Unsupported Reddit URL type: ${url}`
-    console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+    console.log(`Fetched subreddit: ${url}`, {
+      url,
+      subreddit: urlInfo.subreddit,
+      postsFound: posts.length,
+      postsFetched: threads.length,
+      errors: errors.length,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString(),
+    })
+
     return {
       url,
-      error: errorMessage,
-      timestamp: new Date(),
-    } as ScrapeError
+      type: "subreddit",
+      subreddit: urlInfo.subreddit,
+      postsFound: posts.length,
+      threads,
+      errors,
+    }
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : `Unknown error: ${String(error)}`
-    console.error(`Failed to scrape Reddit URL: ${url}`, {
+    console.error(`Failed to fetch Reddit URL: ${url}`, {
       url,
       error: errorMessage,
       stack: error instanceof Error ? error.stack : undefined,
@@ -656,3 +612,105 @@ export async function scrapeRedditUrl(url: string): Promise<ScrapeResult> {
     } as ScrapeError
   }
 }
+
+/**
+ * Turn a fetched Reddit URL into ScrapedContent
+ * A post becomes one item; a subreddit's trending posts are aggregated into one document
+ */
+export function normalizeRedditUrl(data: FetchedRedditUrl): ScrapeResult {
+  const { url, subreddit } = data
+
+  // Handle single post URL
+  if (data.type === "post") {
+    const scrapedPost = data.threads[0] ? buildPostContent(data.threads[0]) : null
+    if (!scrapedPost) {
+      const errorMessage = `Failed to scrape Reddit post: ${url}`
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    console.log(`Successfully scraped Reddit post: ${url}`, {
+      url,
+      title: scrapedPost.title,
+      contentLength: scrapedPost.contentLength,
+      timestamp: new Date().toISOString(),
+    })
+
+    return scrapedPost
+  }
+
+  const scrapedPosts = data.threads
+    .map(buildPostContent)
+    .filter((post): post is ScrapedContent => post !== null)
+
+  if (scrapedPosts.length === 0) {
+    const errorMessage = `Failed to scrape any posts from subreddit: r/${subreddit}. Errors: ${data.errors.join("; ")}`
+    console.error(errorMessage, { url, errors: data.errors, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  // Aggregate content from all scraped posts
+  const aggregatedContent: string[] = []
+  aggregatedContent.push(
+    `=== TRENDING POSTS FROM r/${subreddit.toUpperCase()} ===\n`
+  )
+  aggregatedContent.push(
+    `Scraped ${scrapedPosts.length} trending posts from ${data.postsFound} total posts\n`
+  )
+
+  scrapedPosts.forEach((post, index) => {
+    aggregatedContent.push(`\n${"=".repeat(60)}`)
+    aggregatedContent.push(`POST ${index + 1} of ${scrapedPosts.length}`)
+    aggregatedContent.push(`${"=".repeat(60)}\n`)
+    aggregatedContent.push(post.content)
+    aggregatedContent.push("\n")
+  })
+
+  const fullContent = aggregatedContent.join("\n")
+  const title = `Trending Posts from r/${subreddit}`
+  const excerpt = `Aggregated content from ${scrapedPosts.length} trending posts in r/${subreddit}. ${scrapedPosts[0]?.excerpt || ""}`
+
+  const aggregatedScrapedContent: ScrapedContent = {
+    url,
+    title,
+    content: fullContent,
+    publishDate: scrapedPosts[0]?.publishDate || null,
+    author: null, // Multiple authors
+    excerpt: excerpt.substring(0, 300).trim() + "...",
+    metadata: {
+      openGraphTitle: title,
+      openGraphDescription: `Top ${scrapedPosts.length} trending posts from r/${subreddit}`,
+      metaDescription: `Aggregated trending content from r/${subreddit} with ${scrapedPosts.length} posts`,
+    },
+    scrapedAt: new Date(),
+    contentLength: fullContent.length,
+  }
+
+  console.log(`Successfully scraped subreddit: ${url}`, {
+    url,
+    subreddit,
+    postsFound: data.postsFound,
+    postsScraped: scrapedPosts.length,
+    errors: data.errors.length,
+    contentLength: fullContent.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return aggregatedScrapedContent
+}
+
+/**
+ * Scrape a Reddit post or subreddit using Reddit's JSON API (fetchRedditUrl, then normalizeRedditUrl)
+ */
+export async function scrapeRedditUrl(url: string): Promise<ScrapeResult> {
+  const data = await fetchRedditUrl(url)
+  return "threads" in data ? normalizeRedditUrl(data) : data
+}
@@ -0,0 +1,95 @@
+import { afterEach, test } from "node:test"
+import assert from "node:assert/strict"
+import { enforceRobotsPolicy, isPathAllowed, parseRobotsTxt } from "./robots"
+
+const originalFetch = globalThis.fetch
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+// Answer every request with the given robots.txt status and body; each test uses its own origin, as policies are cached per origin
+const serveRobotsTxt = (status: number, body = "") => {
+  globalThis.fetch = (async () => new Response(body, { status })) as typeof fetch
+}
+
+test("consecutive user-agent lines share one group", () => {
+  const policy = parseRobotsTxt(
+    ["User-agent: Googlebot", "User-agent: *", "Disallow: /private", "", "User-agent: Bingbot", "Disallow: /"].join("\n")
+  )
+
+  assert.equal(isPathAllowed(policy, "/private/page"), false)
+  assert.equal(isPathAllowed(policy, "/public"), true)
+})
+
+test("a Postdraft group takes precedence over *", () => {
+  const policy = parseRobotsTxt(
+    [
+      "User-agent: *",
+      "Disallow: /",
+      "Crawl-delay: 60",
+      "",
+      "User-agent: Postdraft",
+      "Disallow: /drafts",
+      "Crawl-delay: 2",
+      "",
+      "user-agent: POSTDRAFT # Matched case-insensitively and merged with the group above",
+      "Disallow: /admin",
+    ].join("\n")
+  )
+
+  assert.equal(isPathAllowed(policy, "/blog/post"), true)
+  assert.equal(isPathAllowed(policy, "/drafts/1"), false)
+  assert.equal(isPathAllowed(policy, "/admin"), false)
+  assert.equal(policy.crawlDelaySeconds, 2)
+})
+
+test("the longest matching pattern wins, and Allow wins a tie", () => {
+  const policy = parseRobotsTxt(
+    ["User-agent: *", "Disallow: /shop", "Allow: /shop/public", "Disallow: /page", "Allow: /page"].join("\n")
+  )
+
+  assert.equal(isPathAllowed(policy, "/shop/cart"), false)
+  assert.equal(isPathAllowed(policy, "/shop/public/item"), true)
+  assert.equal(isPathAllowed(policy, "/page"), true)
+})
+
+test("supports * wildcards and $ end anchors", () => {
+  const policy = parseRobotsTxt(
+    ["User-agent: *", "Disallow: /*.pdf$", "Disallow: /search*q="].join("\n")
+  )
+
+  assert.equal(isPathAllowed(policy, "/files/report.pdf"), false)
+  assert.equal(isPathAllowed(policy, "/files/report.pdf?download=1"), true)
+  assert.equal(isPathAllowed(policy, "/search/results?q=ai"), false)
+  assert.equal(isPathAllowed(policy, "/search/results"), true)
+})
+
+test("an empty Disallow and a file with no matching group allow everything", () => {
+  assert.equal(isPathAllowed(parseRobotsTxt("User-agent: *\nDisallow:"), "/anything"), true)
+  assert.equal(isPathAllowed(parseRobotsTxt("User-agent: Googlebot\nDisallow: /"), "/anything"), true)
+  assert.equal(isPathAllowed(parseRobotsTxt(""), "/anything"), true)
+})
+
+test("a 4xx robots.txt means there are no restrictions", async () => {
+  serveRobotsTxt(404)
+  assert.equal(await enforceRobotsPolicy("https://93.184.216.34:8401/article"), null)
+})
+
+test("a 5xx or 429 robots.txt disallows everything until it can be read", async () => {
+  serveRobotsTxt(503)
+  const unavailable = await enforceRobotsPolicy("https://93.184.216.34:8402/article")
+  assert.equal(unavailable?.code, "ROBOTS_DISALLOWED")
+  assert.match(unavailable?.error ?? "", /HTTP 503/)
+
+  serveRobotsTxt(429)
+  const rateLimited = await enforceRobotsPolicy("https://93.184.216.34:8403/article")
+  assert.equal(rateLimited?.code, "ROBOTS_DISALLOWED")
+})
+
+test("a disallowed path is reported as ROBOTS_DISALLOWED", async () => {
+  serveRobotsTxt(200, "User-agent: *\nDisallow: /private")
+
+  assert.equal((await enforceRobotsPolicy("https://93.184.216.34:8404/private/page"))?.code, "ROBOTS_DISALLOWED")
+  assert.equal(await enforceRobotsPolicy("https://93.184.216.34:8404/public"), null)
+})
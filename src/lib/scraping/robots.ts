@@ -0,0 +1,258 @@
+import type { ScrapeError } from "./types"
+import { FetchPolicyError, readResponseText, safeFetch, toPolicyScrapeError } from "./safe-fetch"
+
+/**
+ * User agent for fetching user-supplied URLs
+ * Site owners can address us in robots.txt as "User-agent: Postdraft"
+ */
+export const SCRAPER_USER_AGENT = "Mozilla/5.0 (compatible; Postdraft/1.0)"
+const ROBOTS_AGENT_TOKEN = "postdraft"
+
+// RFC 9309 asks crawlers not to cache robots.txt for more than 24 hours
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+// An unreachable robots.txt means "disallow everything" until we can read it; retry sooner than the full TTL
+const ROBOTS_UNAVAILABLE_TTL_MS = 10 * 60 * 1000
+
+// RFC 9309 requires parsing at least the first 500 KiB
+const MAX_ROBOTS_BYTES = 512 * 1024
+
+// Some sites set absurd Crawl-delays; beyond this a scrape would hold up the whole job
+const MAX_CRAWL_DELAY_SECONDS = 30
+
+interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+/**
+ * The parts of a robots.txt that apply to us
+ */
+interface RobotsPolicy {
+  rules: RobotsRule[]
+  crawlDelaySeconds: number | null
+  unavailableReason: string | null // Set when robots.txt couldn't be fetched; everything is disallowed
+}
+
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>()
+
+// Earliest time the next request to each origin may start, for Crawl-delay
+const nextRequestAt = new Map<string, number>()
+
+/**
+ * Parse robots.txt into the rules for our user agent
+ * Groups naming "Postdraft" take precedence over "*"; several matching groups are merged (RFC 9309)
+ */
+export function parseRobotsTxt(body: string): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelaySeconds: number | null }> = []
+  let current: (typeof groups)[number] | null = null
+  let lastLineWasAgent = false
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim()
+    const separator = line.indexOf(":")
+    if (separator === -1) continue
+
+    const key = line.substring(0, separator).trim().toLowerCase()
+    const value = line.substring(separator + 1).trim()
+
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastLineWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastLineWasAgent = true
+      continue
+    }
+
+    lastLineWasAgent = false
+    if (!current) continue
+
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow allows everything, which is the default anyway
+      if (value) {
+        current.rules.push({ allow: key === "allow", pattern: value })
+      }
+    } else if (key === "crawl-delay") {
+      const seconds = parseFloat(value)
+      if (!isNaN(seconds) && seconds >= 0) {
+        current.crawlDelaySeconds = seconds
+      }
+    }
+  }
+
+  const ownGroups = groups.filter((group) => group.agents.includes(ROBOTS_AGENT_TOKEN))
+  const matched = ownGroups.length > 0 ? ownGroups : groups.filter((group) => group.agents.includes("*"))
+
+  const delays = matched
+    .map((group) => group.crawlDelaySeconds)
+    .filter((seconds): seconds is number => seconds !== null)
+
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : null,
+    unavailableReason: null,
+  }
+}
+
+/**
+ * Check whether a path pattern matches ("*" matches any characters, a trailing "$" anchors the end)
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$")
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path)
+}
+
+/**
+ * Check a path against the rules: the longest matching pattern wins, and Allow wins a tie
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (policy.unavailableReason) return false
+
+  let best: RobotsRule | null = null
+  for (const rule of policy.rules) {
+    if (!matchesPattern(rule.pattern, path)) continue
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? best.allow : true
+}
+
+/**
+ * Fetch and parse an origin's robots.txt
+ * Following RFC 9309: a 4xx means there are no restrictions; a 5xx, 429 or network error means
+ * the site may be unable to tell us, so everything is disallowed until it can be read
+ */
+async function fetchRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const robotsUrl = `${origin}/robots.txt`
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
+
+  try {
+    const response = await safeFetch(robotsUrl, {
+      signal: controller.signal,
+      headers: {
+        "User-Agent": SCRAPER_USER_AGENT,
+        Accept: "text/plain, */*",
+      },
+    })
+
+    if (response.ok) {
+      return parseRobotsTxt(await readResponseText(response, MAX_ROBOTS_BYTES))
+    }
+
+    if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+      return { rules: [], crawlDelaySeconds: null, unavailableReason: null }
+    }
+
+    return {
+      rules: [],
+      crawlDelaySeconds: null,
+      unavailableReason: `robots.txt returned HTTP ${response.status}`,
+    }
+  } catch (error) {
+    if (error instanceof FetchPolicyError && error.code === "BLOCKED_URL") {
+      throw error
+    }
+
+    return {
+      rules: [],
+      crawlDelaySeconds: null,
+      unavailableReason: `robots.txt could not be fetched (${error instanceof Error ? error.message : String(error)})`,
+    }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Get an origin's robots.txt policy, from the cache when fresh
+ */
+async function getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const cached = robotsCache.get(origin)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy
+  }
+
+  const policy = await fetchRobotsPolicy(origin)
+  robotsCache.set(origin, {
+    policy,
+    expiresAt: Date.now() + (policy.unavailableReason ? ROBOTS_UNAVAILABLE_TTL_MS : ROBOTS_CACHE_TTL_MS),
+  })
+
+  return policy
+}
+
+/**
+ * Wait until the origin's Crawl-delay has passed since our previous request to it
+ * The slot is claimed before waiting, so concurrent scrapes of one site queue up behind each other
+ */
+async function waitForCrawlDelay(origin: string, crawlDelaySeconds: number): Promise<void> {
+  const delayMs = Math.min(crawlDelaySeconds, MAX_CRAWL_DELAY_SECONDS) * 1000
+  const now = Date.now()
+  const startAt = Math.max(now, nextRequestAt.get(origin) ?? 0)
+  nextRequestAt.set(origin, startAt + delayMs)
+
+  if (startAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, startAt - now))
+  }
+}
+
+/**
+ * Check robots.txt before fetching a user-supplied URL, then wait out the site's Crawl-delay
+ * Returns a ROBOTS_DISALLOWED ScrapeError when we may not fetch the URL, or null to go ahead
+ */
+export async function enforceRobotsPolicy(url: string): Promise<ScrapeError | null> {
+  let urlObj: URL
+  try {
+    urlObj = new URL(url)
+  } catch {
+    return null // Callers report invalid URLs themselves
+  }
+
+  let policy: RobotsPolicy
+  try {
+    policy = await getRobotsPolicy(urlObj.origin)
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+    throw error
+  }
+
+  const path = `${urlObj.pathname}${urlObj.search}`
+  if (!isPathAllowed(policy, path)) {
+    const errorMessage = policy.unavailableReason
+      ? `Blocked until the site's robots.txt can be read: ${policy.unavailableReason}`
+      : `The site's robots.txt does not allow Postdraft to fetch ${path}`
+    console.warn(errorMessage, {
+      url,
+      timestamp: new Date().toISOString(),
+    })
+    return {
+      url,
+      error: errorMessage,
+      code: "ROBOTS_DISALLOWED",
+      timestamp: new Date(),
+    }
+  }
+
+  if (policy.crawlDelaySeconds) {
+    await waitForCrawlDelay(urlObj.origin, policy.crawlDelaySeconds)
+  }
+
+  return null
+}
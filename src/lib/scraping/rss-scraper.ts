@@ -1,5 +1,28 @@
-import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
-import { checkRateLimit } from "./rateLimiter"
+import type {
+  ScrapeResult,
+  ScrapedContent,
+  ScrapeError,
+  NotModifiedResult,
+  FeedAttachment,
+  FetchedDocument,
+} from "./types"
+import { isFetchedDocument } from "./types"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import { FetchPolicyError, readResponseText, safeFetch, toPolicyScrapeError } from "./safe-fetch"
+import { SCRAPER_USER_AGENT, enforceRobotsPolicy } from "./robots"
+import {
+  buildConditionalHeaders,
+  buildNotModifiedResult,
+  getResponseValidators,
+  type ConditionalFetchOptions,
+} from "./http-cache"
+
+/**
+ * Options for fetchRssFeed and scrapeRssFeed
+ */
+export interface RssFetchOptions extends ConditionalFetchOptions {
+  signal?: AbortSignal // Cancels the request (e.g. from a job the caller gave up on)
+}
 
 /**
  * Check if a URL is likely an RSS feed
@@ -11,22 +34,43 @@ export function isRssFeedUrl(url: string): boolean {
     urlLower.includes("/rss") ||
     urlLower.endsWith(".rss") ||
     urlLower.endsWith(".xml") ||
+    urlLower.endsWith(".rdf") ||
     urlLower.includes("?feed=rss") ||
     urlLower.includes("?feed=atom")
   )
 }
 
+export type FeedFormat = "rss2" | "atom" | "rdf" | "json"
+
 /**
- * Check if content is RSS/Atom XML
+ * Detect the feed format of a response body
+ * RDF is checked before RSS 2.0 since RSS 1.0 documents also contain <channel> and <item>
  */
-function isRssContent(content: string): boolean {
-  const contentLower = content.trim().toLowerCase()
-  return (
-    contentLower.includes("<rss") ||
-    contentLower.includes("<feed") ||
-    contentLower.includes("xmlns=\"http://www.w3.org/2005/atom\"") ||
-    contentLower.includes("xmlns=\"http://purl.org/rss/1.0/\"")
-  )
+export function detectFeedFormat(content: string): FeedFormat | null {
+  const trimmed = content.trim()
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed)
+      return typeof json.version === "string" && json.version.startsWith("https://jsonfeed.org/version/")
+        ? "json"
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  const contentLower = trimmed.toLowerCase()
+  if (contentLower.includes("<rdf:rdf") || contentLower.includes("xmlns=\"http://purl.org/rss/1.0/\"")) {
+    return "rdf"
+  }
+  if (contentLower.includes("<rss") || contentLower.includes("<channel>")) {
+    return "rss2"
+  }
+  if (contentLower.includes("<feed") || contentLower.includes("xmlns=\"http://www.w3.org/2005/atom\"")) {
+    return "atom"
+  }
+  return null
 }
 
 /**
@@ -170,6 +214,200 @@ function parseAtomFeed(xml: string, feedUrl: string): ScrapedContent[] {
   return items
 }
 
+/**
+ * Parse RSS 1.0 (RDF) feed
+ * Items are siblings of <channel> rather than children, and dates/authors use Dublin Core
+ */
+function parseRdfFeed(xml: string, feedUrl: string): ScrapedContent[] {
+  const items: ScrapedContent[] = []
+
+  // Extract channel title
+  const channelTitleMatch = xml.match(/<channel\b[^>]*>[\s\S]*?<title>([\s\S]*?)<\/title>/i)
+  const channelTitle = channelTitleMatch ? cleanXmlText(channelTitleMatch[1]) : null
+
+  // Extract all items (<item rdf:about="...">)
+  const itemRegex = /<item\b[^>]*>([\s\S]*?)<\/item>/gi
+  let itemMatch
+
+  while ((itemMatch = itemRegex.exec(xml)) !== null) {
+    const itemXml = itemMatch[1]
+    const aboutMatch = itemMatch[0].match(/^<item\b[^>]*rdf:about=["']([^"']+)["']/i)
+
+    // Extract title
+    const titleMatch = itemXml.match(/<title>([\s\S]*?)<\/title>/i)
+    const title = titleMatch ? cleanXmlText(titleMatch[1]) : null
+
+    // Extract link (falls back to the item's rdf:about URI)
+    const linkMatch = itemXml.match(/<link>([\s\S]*?)<\/link>/i)
+    const link = linkMatch ? cleanXmlText(linkMatch[1]) : (aboutMatch ? cleanXmlText(aboutMatch[1]) : null)
+
+    // Extract description/content
+    const descriptionMatch = itemXml.match(/<description>([\s\S]*?)<\/description>/i)
+    const contentMatch = itemXml.match(/<content:encoded>([\s\S]*?)<\/content:encoded>/i)
+    const content = contentMatch
+      ? cleanXmlText(contentMatch[1])
+      : (descriptionMatch ? cleanXmlText(descriptionMatch[1]) : "")
+
+    // Extract publish date (ISO 8601)
+    const dateMatch = itemXml.match(/<dc:date>([\s\S]*?)<\/dc:date>/i)
+    const publishDate = dateMatch ? parseAtomDate(cleanXmlText(dateMatch[1])) : null
+
+    // Extract author
+    const authorMatch = itemXml.match(/<dc:creator>([\s\S]*?)<\/dc:creator>/i)
+    const author = authorMatch ? cleanXmlText(authorMatch[1]) : null
+
+    if (title && link) {
+      // Clean HTML from content
+      const cleanContent = stripHtmlTags(content)
+      const excerpt = cleanContent.substring(0, 200).trim()
+
+      items.push({
+        url: link,
+        title,
+        content: cleanContent,
+        publishDate,
+        author,
+        excerpt: excerpt.length < cleanContent.length ? excerpt + "..." : excerpt,
+        metadata: {
+          openGraphTitle: title,
+          openGraphDescription: excerpt,
+          openGraphImage: undefined,
+          feedTitle: channelTitle,
+          feedUrl,
+        },
+        scrapedAt: new Date(),
+        contentLength: cleanContent.length,
+      })
+    }
+  }
+
+  return items
+}
+
+/**
+ * JSON Feed author (https://www.jsonfeed.org/version/1.1/)
+ */
+interface JsonFeedAuthor {
+  name?: string
+  url?: string
+  avatar?: string
+}
+
+interface JsonFeedAttachment {
+  url?: string
+  mime_type?: string
+  title?: string
+  size_in_bytes?: number
+  duration_in_seconds?: number
+}
+
+interface JsonFeedItem {
+  id?: string | number
+  url?: string
+  external_url?: string
+  title?: string
+  content_html?: string
+  content_text?: string
+  summary?: string
+  image?: string
+  banner_image?: string
+  date_published?: string
+  date_modified?: string
+  authors?: JsonFeedAuthor[]
+  author?: JsonFeedAuthor // JSON Feed 1.0; replaced by authors in 1.1
+  tags?: string[]
+  attachments?: JsonFeedAttachment[]
+}
+
+interface JsonFeed {
+  version: string
+  title?: string
+  home_page_url?: string
+  feed_url?: string
+  authors?: JsonFeedAuthor[]
+  author?: JsonFeedAuthor
+  items?: JsonFeedItem[]
+}
+
+/**
+ * Join author names from a JSON Feed authors list
+ */
+function getJsonFeedAuthorNames(authors: JsonFeedAuthor[] | undefined): string | null {
+  const names = (authors || [])
+    .map((author) => author?.name?.trim())
+    .filter((name): name is string => !!name)
+  return names.length > 0 ? names.join(", ") : null
+}
+
+/**
+ * Parse JSON Feed (1.0 and 1.1)
+ */
+function parseJsonFeed(body: string, feedUrl: string): ScrapedContent[] {
+  const feed = JSON.parse(body) as JsonFeed
+  const items: ScrapedContent[] = []
+
+  const feedTitle = feed.title?.trim() || null
+  const feedAuthor = getJsonFeedAuthorNames(feed.authors || (feed.author ? [feed.author] : undefined))
+
+  for (const item of feed.items || []) {
+    // Item URL; id is only a fallback when it is itself a URL
+    const id = item.id !== undefined ? String(item.id) : ""
+    const link = item.url || item.external_url || (/^https?:\/\//i.test(id) ? id : null)
+
+    // Prefer the plain-text body, otherwise strip the HTML one
+    const cleanContent = item.content_text?.trim()
+      ? item.content_text.replace(/\s+/g, " ").trim()
+      : stripHtmlTags(item.content_html || item.summary || "")
+
+    // Title is optional in JSON Feed (e.g. microblog posts), so fall back to the start of the text
+    const title = item.title?.trim() ||
+      (cleanContent ? (cleanContent.length > 80 ? `${cleanContent.substring(0, 80).trim()}...` : cleanContent) : null)
+
+    if (!title || !link) continue
+
+    const dateStr = item.date_published || item.date_modified
+    const publishDate = dateStr ? parseAtomDate(dateStr) : null
+
+    const author = getJsonFeedAuthorNames(item.authors || (item.author ? [item.author] : undefined)) || feedAuthor
+
+    const attachments: FeedAttachment[] = (item.attachments || [])
+      .filter((attachment) => typeof attachment?.url === "string")
+      .map((attachment) => ({
+        url: attachment.url as string,
+        mimeType: attachment.mime_type || null,
+        title: attachment.title || null,
+        sizeInBytes: typeof attachment.size_in_bytes === "number" ? attachment.size_in_bytes : null,
+        durationInSeconds: typeof attachment.duration_in_seconds === "number" ? attachment.duration_in_seconds : null,
+      }))
+
+    const summary = item.summary?.trim()
+    const excerpt = (summary || cleanContent).substring(0, 200).trim()
+
+    items.push({
+      url: link,
+      title,
+      content: cleanContent || summary || "",
+      publishDate,
+      author,
+      excerpt: excerpt.length < (summary || cleanContent).length ? excerpt + "..." : excerpt,
+      metadata: {
+        openGraphTitle: title,
+        openGraphDescription: excerpt,
+        openGraphImage: item.image || item.banner_image || undefined,
+        feedTitle,
+        feedUrl,
+        externalUrl: item.external_url,
+        topics: item.tags && item.tags.length > 0 ? item.tags : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+      },
+      scrapedAt: new Date(),
+      contentLength: (cleanContent || summary || "").length,
+    })
+  }
+
+  return items
+}
+
 /**
  * Clean XML text (remove CDATA, decode entities)
  */
@@ -241,9 +479,21 @@ function parseAtomDate(dateStr: string): Date | null {
 }
 
 /**
- * Scrape an RSS/Atom feed and return multiple items
+ * Fetch a feed's body without parsing it
+ * With validators from a previous fetch, an unchanged feed returns a NotModifiedResult instead
  */
-export async function scrapeRssFeed(url: string): Promise<ScrapeResult | ScrapedContent[]> {
+export async function fetchRssFeed(
+  url: string,
+  options?: { signal?: AbortSignal; validators?: undefined }
+): Promise<FetchedDocument | ScrapeError>
+export async function fetchRssFeed(
+  url: string,
+  options: RssFetchOptions
+): Promise<FetchedDocument | ScrapeError | NotModifiedResult>
+export async function fetchRssFeed(
+  url: string,
+  options: RssFetchOptions = {}
+): Promise<FetchedDocument | ScrapeError | NotModifiedResult> {
   const startTime = Date.now()
 
   try {
@@ -279,23 +529,40 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
       } as ScrapeError
     }
 
+    // Respect the site's robots.txt (and Crawl-delay) for user-supplied URLs
+    const robotsError = await enforceRobotsPolicy(url)
+    if (robotsError) {
+      return robotsError
+    }
+
     // Fetch RSS feed
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    const cancel = () => controller.abort()
+    options.signal?.addEventListener("abort", cancel, { once: true })
 
     let response: Response
     try {
-      response = await fetch(url, {
+      response = await safeFetch(url, {
         signal: controller.signal,
         headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          Accept: "application/rss+xml, application/xml, text/xml, */*",
+          "User-Agent": SCRAPER_USER_AGENT,
+          Accept: "application/rss+xml, application/atom+xml, application/rdf+xml, application/feed+json, application/xml, text/xml, application/json, */*",
           "Accept-Language": "en-US,en;q=0.9",
+          ...buildConditionalHeaders(options.validators),
         },
       })
     } catch (fetchError) {
       clearTimeout(timeoutId)
+      options.signal?.removeEventListener("abort", cancel)
+      if (fetchError instanceof Error && fetchError.name === "AbortError" && options.signal?.aborted) {
+        return {
+          url,
+          error: `Scrape cancelled: ${url}`,
+          code: "CANCELLED",
+          timestamp: new Date(),
+        } as ScrapeError
+      }
       if (fetchError instanceof Error && fetchError.name === "AbortError") {
         const errorMessage = `Request timeout after 30 seconds: ${url}`
         console.error(errorMessage, { url, timestamp: new Date().toISOString() })
@@ -309,9 +576,21 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
     }
 
     clearTimeout(timeoutId)
+    options.signal?.removeEventListener("abort", cancel)
+
+    // Unchanged since the last fetch - skip download and parsing entirely
+    if (response.status === 304) {
+      console.log(`RSS feed not modified since last fetch: ${url}`, {
+        url,
+        duration: `${Date.now() - startTime}ms`,
+        timestamp: new Date().toISOString(),
+      })
+      return buildNotModifiedResult(url, response, options.validators)
+    }
 
     // Handle HTTP errors
     if (!response.ok) {
+      await recordRateLimitResponse(url, response)
       const errorMessage = `HTTP ${response.status} ${response.statusText}: ${url}`
       console.error(errorMessage, {
         url,
@@ -326,12 +605,48 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
       } as ScrapeError
     }
 
-    // Get XML content
-    const xml = await response.text()
+    // Get feed content
+    const body = await readResponseText(response)
 
-    // Verify it's RSS/Atom content
-    if (!isRssContent(xml)) {
-      const errorMessage = `Content is not a valid RSS/Atom feed: ${url}`
+    return {
+      url,
+      body,
+      httpValidators: getResponseValidators(response),
+    }
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch RSS feed: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Parse a fetched RSS 2.0, RSS 1.0 (RDF), Atom or JSON Feed into one item per entry
+ * Returns a ScrapeError when the body isn't a feed or has no items
+ */
+export function parseRssFeed(feed: FetchedDocument): ScrapedContent[] | ScrapeError {
+  const { url, body } = feed
+
+  try {
+    // Verify it's a feed we can parse
+    const format = detectFeedFormat(body)
+    if (!format) {
+      const errorMessage = `Content is not a valid RSS/Atom/JSON feed: ${url}`
       console.error(errorMessage, { url, timestamp: new Date().toISOString() })
       return {
         url,
@@ -340,20 +655,21 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
       } as ScrapeError
     }
 
-    // Parse RSS or Atom feed
+    // Parse the feed
     let items: ScrapedContent[] = []
-    if (xml.includes("<rss") || xml.includes("<channel>")) {
-      items = parseRss2Feed(xml, url)
-    } else if (xml.includes("<feed") || xml.includes("xmlns=\"http://www.w3.org/2005/atom\"")) {
-      items = parseAtomFeed(xml, url)
-    } else {
-      const errorMessage = `Unknown feed format: ${url}`
-      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
-      return {
-        url,
-        error: errorMessage,
-        timestamp: new Date(),
-      } as ScrapeError
+    switch (format) {
+      case "json":
+        items = parseJsonFeed(body, url)
+        break
+      case "rdf":
+        items = parseRdfFeed(body, url)
+        break
+      case "rss2":
+        items = parseRss2Feed(body, url)
+        break
+      case "atom":
+        items = parseAtomFeed(body, url)
+        break
     }
 
     if (items.length === 0) {
@@ -366,11 +682,14 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
       } as ScrapeError
     }
 
-    const duration = Date.now() - startTime
+    // Every item carries the feed's validators so callers can persist them after processing
+    items.forEach((item) => {
+      item.httpValidators = feed.httpValidators
+    })
+
     console.log(`Successfully scraped RSS feed: ${url}`, {
       url,
       itemsCount: items.length,
-      duration: `${duration}ms`,
       timestamp: new Date().toISOString(),
     })
 
@@ -378,7 +697,7 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : `Unknown error: ${String(error)}`
-    console.error(`Failed to scrape RSS feed: ${url}`, {
+    console.error(`Failed to parse RSS feed: ${url}`, {
       url,
       error: errorMessage,
       stack: error instanceof Error ? error.stack : undefined,
@@ -392,3 +711,23 @@ export async function scrapeRssFeed(url: string): Promise<ScrapeResult | Scraped
     } as ScrapeError
   }
 }
+
+/**
+ * Scrape an RSS 2.0, RSS 1.0 (RDF), Atom or JSON Feed and return multiple items (fetchRssFeed, then parseRssFeed)
+ * With validators from a previous fetch, an unchanged feed returns a NotModifiedResult instead
+ */
+export async function scrapeRssFeed(
+  url: string,
+  options?: { signal?: AbortSignal; validators?: undefined }
+): Promise<ScrapeResult | ScrapedContent[]>
+export async function scrapeRssFeed(
+  url: string,
+  options: RssFetchOptions
+): Promise<ScrapeResult | ScrapedContent[] | NotModifiedResult>
+export async function scrapeRssFeed(
+  url: string,
+  options: RssFetchOptions = {}
+): Promise<ScrapeResult | ScrapedContent[] | NotModifiedResult> {
+  const feed = await fetchRssFeed(url, options)
+  return isFetchedDocument(feed) ? parseRssFeed(feed) : feed
+}
@@ -0,0 +1,124 @@
+import { afterEach, test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  FetchPolicyError,
+  getUrlPolicyViolation,
+  isBlockedAddress,
+  readResponseBody,
+  safeFetch,
+} from "./safe-fetch"
+
+const originalFetch = globalThis.fetch
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+test("blocks private, loopback, link-local and reserved addresses", () => {
+  for (const address of [
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fd00:ec2::254",
+    "fe80::1",
+    "not-an-ip",
+  ]) {
+    assert.equal(isBlockedAddress(address), true, address)
+  }
+})
+
+test("checks IPv4-mapped and NAT64 addresses against the IPv4 ranges", () => {
+  assert.equal(isBlockedAddress("::ffff:127.0.0.1"), true)
+  assert.equal(isBlockedAddress("::ffff:169.254.169.254"), true)
+  assert.equal(isBlockedAddress("64:ff9b::10.0.0.1"), true)
+  assert.equal(isBlockedAddress("64:ff9b::a00:1"), true)
+  assert.equal(isBlockedAddress("64:ff9b::a9fe:a9fe"), true)
+
+  assert.equal(isBlockedAddress("::ffff:93.184.216.34"), false)
+  assert.equal(isBlockedAddress("64:ff9b::5db8:d822"), false)
+})
+
+test("allows public addresses", () => {
+  assert.equal(isBlockedAddress("93.184.216.34"), false)
+  assert.equal(isBlockedAddress("8.8.8.8"), false)
+  assert.equal(isBlockedAddress("2606:4700:4700::1111"), false)
+})
+
+test("getUrlPolicyViolation rejects non-http schemes and internal IP literals", async () => {
+  assert.match((await getUrlPolicyViolation("file:///etc/passwd")) ?? "", /Only http and https/)
+  assert.match((await getUrlPolicyViolation("not a url")) ?? "", /Invalid URL format/)
+  assert.match((await getUrlPolicyViolation("http://169.254.169.254/latest/meta-data/")) ?? "", /169\.254\.169\.254/)
+  assert.match((await getUrlPolicyViolation("http://[fd00::1]/")) ?? "", /fd00::1/)
+  assert.match((await getUrlPolicyViolation("http://[::ffff:127.0.0.1]:8080/")) ?? "", /private or reserved/)
+
+  assert.equal(await getUrlPolicyViolation("https://93.184.216.34/article"), null)
+  assert.equal(await getUrlPolicyViolation("https://[2606:4700:4700::1111]/"), null)
+})
+
+test("safeFetch re-checks the policy on every redirect", async () => {
+  const requested: string[] = []
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    requested.push(String(input))
+    return new Response(null, { status: 302, headers: { location: "http://127.0.0.1/admin" } })
+  }) as typeof fetch
+
+  await assert.rejects(safeFetch("https://93.184.216.34/start"), (error: unknown) => {
+    assert.ok(error instanceof FetchPolicyError)
+    assert.equal(error.code, "BLOCKED_URL")
+    assert.match(error.message, /127\.0\.0\.1/)
+    return true
+  })
+  assert.deepEqual(requested, ["https://93.184.216.34/start"])
+})
+
+test("safeFetch follows redirects between public addresses", async () => {
+  const requested: string[] = []
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    requested.push(String(input))
+    return requested.length === 1
+      ? new Response(null, { status: 301, headers: { location: "/moved" } })
+      : new Response("ok", { status: 200 })
+  }) as typeof fetch
+
+  const response = await safeFetch("https://93.184.216.34/start")
+  assert.equal(await response.text(), "ok")
+  assert.deepEqual(requested, ["https://93.184.216.34/start", "https://93.184.216.34/moved"])
+})
+
+test("readResponseBody returns bodies within the cap", async () => {
+  const body = await readResponseBody(new Response("hello"), 5)
+  assert.equal(body.toString("utf8"), "hello")
+})
+
+test("readResponseBody rejects a declared Content-Length over the cap", async () => {
+  const response = new Response("0123456789", { headers: { "content-length": "10" } })
+  await assert.rejects(readResponseBody(response, 5), (error: unknown) => {
+    assert.ok(error instanceof FetchPolicyError)
+    assert.equal(error.code, "RESPONSE_TOO_LARGE")
+    return true
+  })
+})
+
+test("readResponseBody stops a streamed body once it passes the cap", async () => {
+  let chunksSent = 0
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      chunksSent++
+      controller.enqueue(new Uint8Array(4))
+    },
+  })
+
+  await assert.rejects(readResponseBody(new Response(stream), 10), (error: unknown) => {
+    assert.ok(error instanceof FetchPolicyError)
+    assert.equal(error.code, "RESPONSE_TOO_LARGE")
+    return true
+  })
+  assert.ok(chunksSent < 10)
+})
@@ -0,0 +1,213 @@
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+import type { ScrapeError, ScrapeErrorCode } from "./types"
+import { decodeResponseText } from "./charset"
+
+const MAX_REDIRECTS = 5
+
+// Large enough for any real article or feed; stops a hostile server from streaming an endless body
+export const MAX_RESPONSE_BYTES = 10 * 1024 * 1024
+
+/**
+ * Address ranges user-supplied URLs may not reach: private networks, loopback, link-local
+ * (including the cloud metadata endpoint 169.254.169.254), and other non-public ranges
+ */
+const blockedAddresses = new BlockList()
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4") // "This" network
+blockedAddresses.addSubnet("10.0.0.0", 8, "ipv4") // Private
+blockedAddresses.addSubnet("100.64.0.0", 10, "ipv4") // Carrier-grade NAT
+blockedAddresses.addSubnet("127.0.0.0", 8, "ipv4") // Loopback
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4") // Link-local and cloud metadata
+blockedAddresses.addSubnet("172.16.0.0", 12, "ipv4") // Private
+blockedAddresses.addSubnet("192.0.0.0", 24, "ipv4") // IETF protocol assignments
+blockedAddresses.addSubnet("192.168.0.0", 16, "ipv4") // Private
+blockedAddresses.addSubnet("198.18.0.0", 15, "ipv4") // Benchmarking
+blockedAddresses.addSubnet("224.0.0.0", 4, "ipv4") // Multicast
+blockedAddresses.addSubnet("240.0.0.0", 4, "ipv4") // Reserved and broadcast
+blockedAddresses.addAddress("::", "ipv6") // Unspecified
+blockedAddresses.addAddress("::1", "ipv6") // Loopback
+blockedAddresses.addSubnet("fc00::", 7, "ipv6") // Unique local (includes AWS's fd00:ec2::254 metadata)
+blockedAddresses.addSubnet("fe80::", 10, "ipv6") // Link-local
+blockedAddresses.addSubnet("ff00::", 8, "ipv6") // Multicast
+
+/**
+ * Thrown when a fetch would break the URL policy (non-public address, bad scheme) or the size cap
+ */
+export class FetchPolicyError extends Error {
+  constructor(public code: Extract<ScrapeErrorCode, "BLOCKED_URL" | "RESPONSE_TOO_LARGE">, message: string) {
+    super(message)
+    this.name = "FetchPolicyError"
+  }
+}
+
+/**
+ * Check whether an IP address is in a blocked range
+ * BlockList already checks IPv4-mapped addresses (::ffff:a.b.c.d) against the IPv4 ranges;
+ * NAT64 addresses (64:ff9b::/96) are checked here as the IPv4 address they embed
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) {
+    return blockedAddresses.check(address, "ipv4")
+  }
+  if (family !== 6) {
+    return true
+  }
+
+  const nat64 = address.toLowerCase().match(/^64:ff9b::(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+  if (nat64) {
+    const embedded = nat64[1] ?? [
+      parseInt(nat64[2], 16) >> 8, parseInt(nat64[2], 16) & 0xff,
+      parseInt(nat64[3], 16) >> 8, parseInt(nat64[3], 16) & 0xff,
+    ].join(".")
+    return blockedAddresses.check(embedded, "ipv4")
+  }
+
+  return blockedAddresses.check(address, "ipv6")
+}
+
+/**
+ * Check that a URL is safe to fetch server-side: http(s) only, and every address its host
+ * resolves to is public
+ * Returns the reason it isn't, or null when it is
+ */
+export async function getUrlPolicyViolation(url: string): Promise<string | null> {
+  let urlObj: URL
+  try {
+    urlObj = new URL(url)
+  } catch {
+    return `Invalid URL format: ${url}`
+  }
+
+  if (urlObj.protocol !== "http:" && urlObj.protocol !== "https:") {
+    return `Only http and https URLs can be scraped (got ${urlObj.protocol.replace(/:$/, "")})`
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = urlObj.hostname.replace(/^\[|\]$/g, "")
+
+  let addresses: string[]
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map((result) => result.address)
+  } catch {
+    return `Could not resolve host: ${hostname}`
+  }
+
+  const blocked = addresses.find(isBlockedAddress)
+  if (blocked) {
+    const target = blocked === hostname ? blocked : `${hostname} resolves to ${blocked}`
+    return `URL points to a private or reserved network address (${target})`
+  }
+
+  return null
+}
+
+/**
+ * Fetch a user-supplied URL, enforcing the URL policy on the URL and on every redirect
+ * Throws FetchPolicyError on a violation, like fetch throws on network errors
+ *
+ * The host is resolved separately from the connection fetch makes, so a DNS server that answers
+ * differently the second time can still get through; this closes off plain URLs, IP literals and
+ * redirects to internal addresses, which is what user input can reach
+ */
+export async function safeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let currentUrl = url
+
+  for (let redirects = 0; ; redirects++) {
+    const violation = await getUrlPolicyViolation(currentUrl)
+    if (violation) {
+      throw new FetchPolicyError("BLOCKED_URL", violation)
+    }
+
+    const response = await fetch(currentUrl, { ...init, redirect: "manual" })
+
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return response
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new FetchPolicyError("BLOCKED_URL", `Too many redirects (more than ${MAX_REDIRECTS}): ${url}`)
+    }
+
+    // Discard the redirect body so the connection can be reused
+    await response.body?.cancel()
+    currentUrl = new URL(location, currentUrl).toString()
+  }
+}
+
+/**
+ * Read a response body, giving up once it passes maxBytes
+ * Checks Content-Length first, then counts bytes as they stream in (the header can be missing or wrong)
+ */
+export async function readResponseBody(
+  response: Response,
+  maxBytes: number = MAX_RESPONSE_BYTES
+): Promise<Buffer> {
+  const tooLarge = () =>
+    new FetchPolicyError(
+      "RESPONSE_TOO_LARGE",
+      `Response is larger than ${Math.round(maxBytes / 1024 / 1024)}MB: ${response.url}`
+    )
+
+  const declaredLength = Number(response.headers.get("content-length"))
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  if (!response.body) {
+    return Buffer.alloc(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let totalBytes = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    totalBytes += value.byteLength
+    if (totalBytes > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Read a response body as text, subject to the size cap
+ * Decoded with the charset the response declares or, failing that, one sniffed from the bytes
+ * (see charset.ts); response.text() would assume UTF-8 and garble Shift_JIS or windows-1250 pages
+ */
+export async function readResponseText(
+  response: Response,
+  maxBytes: number = MAX_RESPONSE_BYTES
+): Promise<string> {
+  const bytes = await readResponseBody(response, maxBytes)
+  return decodeResponseText(bytes, response.headers.get("content-type"))
+}
+
+/**
+ * Turn a FetchPolicyError into a ScrapeError
+ */
+export function toPolicyScrapeError(url: string, error: FetchPolicyError): ScrapeError {
+  console.warn(`Blocked fetch: ${error.message}`, {
+    url,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  })
+
+  return {
+    url,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date(),
+  }
+}
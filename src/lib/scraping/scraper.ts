@@ -7,23 +7,27 @@ import {
   extractMetadata,
   validateContent,
 } from "./contentCleaner"
-import { checkRateLimit } from "./rateLimiter"
-import type { ScrapeResult, ScrapedContent, ScrapeError } from "./types"
-import { isRedditUrl, scrapeRedditUrl } from "./reddit-scraper"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import type { ScrapeResult, ScrapedContent, ScrapeError, NotModifiedResult, FetchedDocument } from "./types"
+import { isFetchedDocument, isScrapedContent } from "./types"
+import {
+  buildConditionalHeaders,
+  buildNotModifiedResult,
+  getResponseValidators,
+  type ConditionalFetchOptions,
+} from "./http-cache"
+import { FetchPolicyError, readResponseText, safeFetch, toPolicyScrapeError } from "./safe-fetch"
+import { SCRAPER_USER_AGENT, enforceRobotsPolicy } from "./robots"
+import { extractStructuredData } from "./structured-data"
 import { isRssFeedUrl, scrapeRssFeed } from "./rss-scraper"
+import { scheduleFetches, type FetchScheduleOptions } from "./fetch-scheduler"
+import { fetchSourceContent, resolveSourceAdapter } from "./source-adapter"
 
 /**
- * Generate a random delay between min and max milliseconds
- */
-function randomDelay(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min
-}
-
-/**
- * Sleep for specified milliseconds
+ * Options for scrapeUrl
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+export interface ScrapeUrlOptions extends ConditionalFetchOptions {
+  signal?: AbortSignal // Cancels the request (e.g. from a scheduled batch the caller gave up on)
 }
 
 /**
@@ -46,7 +50,7 @@ function extractTitle($: CheerioAPI): string | null {
 }
 
 /**
- * Extract publish date from HTML
+ * Extract publish date from HTML meta tags (fallback when there's no structured data)
  */
 function extractPublishDate($: CheerioAPI): Date | null {
   // Try 1: article:published_time meta tag
@@ -63,45 +67,11 @@ function extractPublishDate($: CheerioAPI): Date | null {
     if (!isNaN(date.getTime())) return date
   }
 
-  // Try 3: JSON-LD structured data
-  try {
-    const jsonLdScripts = $('script[type="application/ld+json"]')
-    for (let i = 0; i < jsonLdScripts.length; i++) {
-      const scriptContent = $(jsonLdScripts[i]).html()
-      if (scriptContent) {
-        try {
-          const jsonLd = JSON.parse(scriptContent)
-          // Handle both single objects and arrays
-          const data = Array.isArray(jsonLd) ? jsonLd[0] : jsonLd
-
-          if (data.datePublished) {
-            const date = new Date(data.datePublished)
-            if (!isNaN(date.getTime())) return date
-          }
-
-          // Also check for @graph array in JSON-LD
-          if (data["@graph"] && Array.isArray(data["@graph"])) {
-            for (const item of data["@graph"]) {
-              if (item.datePublished) {
-                const date = new Date(item.datePublished)
-                if (!isNaN(date.getTime())) return date
-              }
-            }
-          }
-        } catch {
-          // Ignore JSON parse errors
-        }
-      }
-    }
-  } catch {
-    // Ignore JSON-LD extraction errors
-  }
-
   return null
 }
 
 /**
- * Extract author from HTML
+ * Extract author from HTML meta tags and links (fallback when there's no structured data)
  */
 function extractAuthor($: CheerioAPI): string | null {
   // Try 1: meta name="author"
@@ -112,37 +82,6 @@ function extractAuthor($: CheerioAPI): string | null {
   const relAuthor = $('a[rel="author"]').first().text().trim()
   if (relAuthor) return relAuthor
 
-  // Try 3: JSON-LD structured data
-  try {
-    const jsonLdScripts = $('script[type="application/ld+json"]')
-    for (let i = 0; i < jsonLdScripts.length; i++) {
-      const scriptContent = $(jsonLdScripts[i]).html()
-      if (scriptContent) {
-        try {
-          const jsonLd = JSON.parse(scriptContent)
-          const data = Array.isArray(jsonLd) ? jsonLd[0] : jsonLd
-
-          if (data.author) {
-            // Handle both string and object authors
-            if (typeof data.author === "string") {
-              return data.author.trim()
-            }
-            if (typeof data.author === "object" && data.author.name) {
-              return data.author.name.trim()
-            }
-            if (Array.isArray(data.author) && data.author[0]?.name) {
-              return data.author[0].name.trim()
-            }
-          }
-        } catch {
-          // Ignore JSON parse errors
-        }
-      }
-    }
-  } catch {
-    // Ignore JSON-LD extraction errors
-  }
-
   return null
 }
 
@@ -186,12 +125,26 @@ function findMainContent($: CheerioAPI): cheerio.Cheerio<Element> {
 }
 
 /**
- * Scrape a single URL
- * 
- * @param url - URL to scrape
- * @returns ScrapeResult (either ScrapedContent or ScrapeError)
+ * Fetch a single web page's HTML without parsing it
+ * When validators from a previous fetch are passed, the request is conditional and an
+ * unchanged page short-circuits with a NotModifiedResult
+ *
+ * @param url - URL to fetch
+ * @param options - Optional validators for a conditional request, and a signal to cancel it
+ * @returns FetchedDocument, ScrapeError, or NotModifiedResult for a 304
  */
-export async function scrapeUrl(url: string): Promise<ScrapeResult> {
+export async function fetchPage(
+  url: string,
+  options?: { signal?: AbortSignal; validators?: undefined }
+): Promise<FetchedDocument | ScrapeError>
+export async function fetchPage(
+  url: string,
+  options: ScrapeUrlOptions
+): Promise<FetchedDocument | ScrapeError | NotModifiedResult>
+export async function fetchPage(
+  url: string,
+  options: ScrapeUrlOptions = {}
+): Promise<FetchedDocument | ScrapeError | NotModifiedResult> {
   const startTime = Date.now()
 
   try {
@@ -209,15 +162,6 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
       } as ScrapeError
     }
 
-    // Check if this is a Reddit URL and route to Reddit scraper
-    if (isRedditUrl(url)) {
-      console.log(`Detected Reddit URL, using Reddit-specific scraper: ${url}`, {
-        url,
-        timestamp: new Date().toISOString(),
-      })
-      return await scrapeRedditUrl(url)
-    }
-
     // Check rate limit
     const rateLimitResult = await checkRateLimit(url)
     if (!rateLimitResult.success) {
@@ -236,27 +180,41 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
       } as ScrapeError
     }
 
-    // Add random delay (2-5 seconds) before fetching
-    const delay = randomDelay(2000, 5000)
-    await sleep(delay)
+    // Respect the site's robots.txt (and Crawl-delay) for user-supplied URLs
+    const robotsError = await enforceRobotsPolicy(url)
+    if (robotsError) {
+      return robotsError
+    }
 
     // Fetch URL with proper headers
+    // Pacing between requests to the same host is up to the caller (see fetch-scheduler.ts)
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    const cancel = () => controller.abort()
+    options.signal?.addEventListener("abort", cancel, { once: true })
 
     let response: Response
     try {
-      response = await fetch(url, {
+      response = await safeFetch(url, {
         signal: controller.signal,
         headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+          "User-Agent": SCRAPER_USER_AGENT,
           Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
           "Accept-Language": "en-US,en;q=0.9",
+          ...buildConditionalHeaders(options.validators),
         },
       })
     } catch (fetchError) {
       clearTimeout(timeoutId)
+      options.signal?.removeEventListener("abort", cancel)
+      if (fetchError instanceof Error && fetchError.name === "AbortError" && options.signal?.aborted) {
+        return {
+          url,
+          error: `Scrape cancelled: ${url}`,
+          code: "CANCELLED",
+          timestamp: new Date(),
+        } as ScrapeError
+      }
       if (fetchError instanceof Error && fetchError.name === "AbortError") {
         const errorMessage = `Request timeout after 30 seconds: ${url}`
         console.error(errorMessage, { url, timestamp: new Date().toISOString() })
@@ -270,9 +228,21 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
     }
 
     clearTimeout(timeoutId)
+    options.signal?.removeEventListener("abort", cancel)
+
+    // Unchanged since the last fetch - skip download and parsing entirely
+    if (response.status === 304) {
+      console.log(`Not modified since last fetch: ${url}`, {
+        url,
+        duration: `${Date.now() - startTime}ms`,
+        timestamp: new Date().toISOString(),
+      })
+      return buildNotModifiedResult(url, response, options.validators)
+    }
 
     // Handle HTTP errors
     if (!response.ok) {
+      await recordRateLimitResponse(url, response)
       const errorMessage = `HTTP ${response.status} ${response.statusText}: ${url}`
       console.error(errorMessage, {
         url,
@@ -288,13 +258,54 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
     }
 
     // Get HTML content
-    const html = await response.text()
+    const body = await readResponseText(response)
+
+    return {
+      url,
+      body,
+      httpValidators: getResponseValidators(response),
+    }
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch URL: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Parse a fetched web page into ScrapedContent
+ * Extracts the main content, metadata and structured data, and rejects pages with too little text
+ *
+ * @param page - Page as returned by fetchPage
+ * @returns ScrapedContent, or ScrapeError when the page has no usable content
+ */
+export function parsePage(page: FetchedDocument): ScrapeResult {
+  const { url } = page
 
+  try {
     // Load HTML into Cheerio
-    const $ = cheerio.load(html)
+    const $ = cheerio.load(page.body)
 
     // Extract metadata
-    const metadata = extractMetadata($)
+    const metadata: ScrapedContent["metadata"] = extractMetadata($)
+
+    // schema.org JSON-LD / microdata, when the publisher declares it, beats meta tags and heuristics
+    const structured = extractStructuredData($)
 
     // Find main content
     const $mainContent = findMainContent($)
@@ -324,13 +335,20 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
     }
 
     // Extract title
-    const title = extractTitle($)
+    const title = structured?.headline ?? extractTitle($)
 
     // Extract publish date
-    const publishDate = extractPublishDate($)
+    const publishDate = structured?.datePublished ?? extractPublishDate($)
 
     // Extract author
-    const author = extractAuthor($)
+    const author = structured?.author ?? extractAuthor($)
+
+    if (structured) {
+      if (structured.keywords.length > 0) metadata.keywords = structured.keywords
+      if (structured.section) metadata.section = structured.section
+      metadata.structuredDataType = structured.type
+    }
+    metadata.wordCount = structured?.wordCount ?? cleanText.split(/\s+/).filter((word) => word.length > 0).length
 
     // Generate excerpt (first 200 characters)
     const excerpt = cleanText.substring(0, 200).trim()
@@ -346,18 +364,80 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
       metadata,
       scrapedAt: new Date(),
       contentLength: cleanText.length,
+      httpValidators: page.httpValidators,
     }
 
-    const duration = Date.now() - startTime
     console.log(`Successfully scraped URL: ${url}`, {
       url,
       title,
       contentLength: cleanText.length,
-      duration: `${duration}ms`,
       timestamp: new Date().toISOString(),
     })
 
     return scrapedContent
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to parse page: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Scrape a URL through the adapter its URL resolves to (see resolveSourceAdapter)
+ * Reddit and Hacker News URLs go to their own adapters; anything else unclaimed is fetched and
+ * parsed as a web page. Adapters that return several items (feeds, sitemaps, Hacker News in
+ * stories mode) give their first item; use fetchSourceContent to get them all.
+ * When validators from a previous fetch are passed, the request is conditional and an
+ * unchanged source short-circuits with a NotModifiedResult before any parsing
+ * 
+ * @param url - URL to scrape
+ * @param options - Optional validators for a conditional request, and a signal to cancel it
+ * @returns ScrapeResult (either ScrapedContent or ScrapeError), or NotModifiedResult for a 304
+ */
+export async function scrapeUrl(
+  url: string,
+  options?: { signal?: AbortSignal; validators?: undefined }
+): Promise<ScrapeResult>
+export async function scrapeUrl(
+  url: string,
+  options: ScrapeUrlOptions
+): Promise<ScrapeResult | NotModifiedResult>
+export async function scrapeUrl(
+  url: string,
+  options: ScrapeUrlOptions = {}
+): Promise<ScrapeResult | NotModifiedResult> {
+  try {
+    const result = await fetchSourceContent(
+      { url, sourceType: null, userId: null, validators: options.validators, signal: options.signal },
+      resolveSourceAdapter({ url })
+    )
+
+    if (result.status === "not_modified") {
+      return { url, notModified: true, validators: result.validators, timestamp: new Date() }
+    }
+    if (result.status === "failed") {
+      return result.error
+    }
+    if (result.data.length === 0) {
+      return {
+        url,
+        error: `No content found: ${url}`,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    return result.data[0]
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : `Unknown error: ${String(error)}`
@@ -377,64 +457,66 @@ export async function scrapeUrl(url: string): Promise<ScrapeResult> {
 }
 
 /**
- * Batch scrape multiple URLs with controlled concurrency
+ * Fetch multiple pages without parsing them
+ * Runs in parallel across hosts and one at a time per host (see scheduleFetches)
+ *
+ * @param urls - Array of URLs to fetch
+ * @param options - Concurrency cap, per-host delay, cancellation signal and progress callback
+ * @returns Array of FetchedDocument or ScrapeError in the order of `urls`
+ */
+export async function fetchPages(
+  urls: string[],
+  options: FetchScheduleOptions = {}
+): Promise<Array<FetchedDocument | ScrapeError>> {
+  const scheduled = await scheduleFetches(urls, (url, signal) => fetchPage(url, { signal }), options)
+
+  return scheduled.map((result): FetchedDocument | ScrapeError => {
+    if (result.status === "fulfilled") {
+      return result.value
+    }
+    if (result.status === "cancelled") {
+      return { url: result.url, error: `Scrape cancelled: ${result.url}`, code: "CANCELLED", timestamp: new Date() }
+    }
+    return {
+      url: result.url,
+      error: result.error instanceof Error ? result.error.message : String(result.error),
+      timestamp: new Date(),
+    }
+  })
+}
+
+/**
+ * Batch scrape multiple URLs
+ * Runs in parallel across hosts and one at a time per host (see scheduleFetches)
  * 
  * @param urls - Array of URLs to scrape
- * @param concurrency - Maximum number of concurrent requests (default: 3)
- * @returns Array of ScrapeResult (mix of ScrapedContent and ScrapeError)
+ * @param options - Concurrency cap, per-host delay, cancellation signal and progress callback
+ * @returns Array of ScrapeResult in the order of `urls` (mix of ScrapedContent and ScrapeError)
  */
 export async function batchScrape(
   urls: string[],
-  concurrency: number = 3
+  options: FetchScheduleOptions = {}
 ): Promise<ScrapeResult[]> {
-  const pLimit = (await import("p-limit")).default
-  const limit = pLimit(concurrency)
+  const startTime = Date.now()
 
-  console.log(`Starting batch scrape: ${urls.length} URLs with concurrency ${concurrency}`, {
+  console.log(`Starting batch scrape: ${urls.length} URLs`, {
     urlCount: urls.length,
-    concurrency,
+    concurrency: options.concurrency,
+    perHostDelayMs: options.perHostDelayMs,
     timestamp: new Date().toISOString(),
   })
 
-  const results: ScrapeResult[] = []
-  let completed = 0
-
-  // Process URLs with concurrency control
-  const promises = urls.map((url) =>
-    limit(async () => {
-      const result = await scrapeUrl(url)
-      results.push(result)
-      completed++
-
-      // Log progress
-      console.log(`Batch scrape progress: ${completed}/${urls.length}`, {
-        completed,
-        total: urls.length,
-        url,
-        success: "content" in result,
-        timestamp: new Date().toISOString(),
-      })
-
-      // Add random delay between batches (2-5 seconds)
-      if (completed < urls.length) {
-        const delay = randomDelay(2000, 5000)
-        await sleep(delay)
-      }
-
-      return result
-    })
-  )
-
-  // Wait for all promises to settle (using allSettled to handle errors independently)
-  await Promise.allSettled(promises)
+  const pages = await fetchPages(urls, options)
+  const results = pages.map((page) => (isFetchedDocument(page) ? parsePage(page) : page))
 
-  const successCount = results.filter((r) => "content" in r).length
-  const errorCount = results.filter((r) => "error" in r).length
+  const successCount = results.filter(isScrapedContent).length
 
-  console.log(`Batch scrape completed: ${successCount} successful, ${errorCount} failed`, {
+  console.log(`Batch scrape completed: ${successCount} successful, ${results.length - successCount} failed`, {
     total: urls.length,
     successful: successCount,
-    failed: errorCount,
+    failed: results.length - successCount,
+    cancelled: options.signal?.aborted ?? false,
+    duration: `${Date.now() - startTime}ms`,
     timestamp: new Date().toISOString(),
   })
 
@@ -0,0 +1,412 @@
+import * as cheerio from "cheerio"
+import { gunzipSync } from "zlib"
+import type { ScrapeResult, ScrapedContent, ScrapeError, FetchedDocument } from "./types"
+import { isFetchedDocument, isScrapedContent } from "./types"
+import { checkRateLimit, recordRateLimitResponse } from "./rateLimiter"
+import { fetchPages, parsePage } from "./scraper"
+import type { FetchProgress } from "./fetch-scheduler"
+import { SCRAPER_USER_AGENT, enforceRobotsPolicy } from "./robots"
+import {
+  FetchPolicyError,
+  MAX_RESPONSE_BYTES,
+  readResponseBody,
+  safeFetch,
+  toPolicyScrapeError,
+} from "./safe-fetch"
+import { decodeResponseText } from "./charset"
+
+// The domain rate limit (10/min) is shared by the sitemap fetches and the page scrapes,
+// so a single run reads a few child sitemaps and scrapes a handful of the newest pages
+const MAX_CHILD_SITEMAPS = 3
+const MAX_PAGES_PER_RUN = 5
+const MAX_INDEX_DEPTH = 2
+
+/**
+ * A page listed in a sitemap
+ */
+export interface SitemapEntry {
+  url: string
+  lastModified: Date | null
+}
+
+/**
+ * Options for scrapeSitemap
+ */
+export interface SitemapScrapeOptions {
+  since?: Date | null // Only pages with a lastmod after this (the previous successful run); all pages when unset
+  pathPrefix?: string // Only pages whose path starts with this, e.g. "/blog/"
+  signal?: AbortSignal // Stops scraping further pages
+  onProgress?: (progress: FetchProgress) => void // Called as each page finishes
+}
+
+/**
+ * A sitemap's selected pages as fetched, before they're parsed into ScrapedContent
+ */
+export interface FetchedSitemap {
+  url: string
+  pages: Array<{ entry: SitemapEntry; page: FetchedDocument | ScrapeError }> // Newest first
+}
+
+/**
+ * Check if a URL is likely a sitemap
+ */
+export function isSitemapUrl(url: string): boolean {
+  try {
+    const path = new URL(url).pathname.toLowerCase()
+    return /sitemap[^/]*\.xml(\.gz)?$/.test(path)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parse a <lastmod> value (W3C datetime, e.g. "2024-05-01" or "2024-05-01T10:00:00+00:00")
+ */
+function parseLastModified(value: string | undefined): Date | null {
+  if (!value) return null
+  const date = new Date(value.trim())
+  return isNaN(date.getTime()) ? null : date
+}
+
+function hasPathPrefix(url: string, pathPrefix: string): boolean {
+  try {
+    return new URL(url).pathname.startsWith(pathPrefix)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Fetch a sitemap body, gunzipping .xml.gz files
+ * Servers send those as application/x-gzip rather than with Content-Encoding, so fetch leaves them compressed
+ */
+async function fetchSitemap(url: string): Promise<string | ScrapeError> {
+  const urlObj = new URL(url)
+
+  const rateLimitResult = await checkRateLimit(url)
+  if (!rateLimitResult.success) {
+    const errorMessage = `Rate limit exceeded for domain: ${urlObj.hostname}`
+    console.warn(errorMessage, {
+      url,
+      limit: rateLimitResult.limit,
+      remaining: rateLimitResult.remaining,
+      reset: new Date(rateLimitResult.reset).toISOString(),
+      timestamp: new Date().toISOString(),
+    })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  const robotsError = await enforceRobotsPolicy(url)
+  if (robotsError) {
+    return robotsError
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+
+  let response: Response
+  try {
+    response = await safeFetch(url, {
+      signal: controller.signal,
+      headers: {
+        "User-Agent": SCRAPER_USER_AGENT,
+        Accept: "application/xml, text/xml, application/x-gzip, */*",
+        "Accept-Language": "en-US,en;q=0.9",
+      },
+    })
+  } catch (fetchError) {
+    clearTimeout(timeoutId)
+    if (fetchError instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, fetchError)
+    }
+    if (fetchError instanceof Error && fetchError.name === "AbortError") {
+      const errorMessage = `Request timeout after 30 seconds: ${url}`
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+    throw fetchError
+  }
+
+  clearTimeout(timeoutId)
+
+  if (!response.ok) {
+    await recordRateLimitResponse(url, response)
+    const errorMessage = `HTTP ${response.status} ${response.statusText}: ${url}`
+    console.error(errorMessage, {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      timestamp: new Date().toISOString(),
+    })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  try {
+    const bytes = await readResponseBody(response)
+
+    // Gzip magic number; the size cap applies to the unpacked sitemap too
+    if (bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      try {
+        // The Content-Type describes the gzip file, so only the XML declaration can name the charset
+        return decodeResponseText(gunzipSync(bytes, { maxOutputLength: MAX_RESPONSE_BYTES }), null)
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new FetchPolicyError(
+            "RESPONSE_TOO_LARGE",
+            `Sitemap is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024}MB once unpacked: ${url}`
+          )
+        }
+        throw error
+      }
+    }
+
+    return decodeResponseText(bytes, response.headers.get("content-type"))
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+    throw error
+  }
+}
+
+/**
+ * Collect page entries from a sitemap, following a sitemap index into its child sitemaps
+ * Child sitemaps whose own lastmod is older than `since` are skipped without being fetched
+ */
+async function collectSitemapEntries(
+  url: string,
+  since: Date | null,
+  depth: number
+): Promise<SitemapEntry[] | ScrapeError> {
+  const body = await fetchSitemap(url)
+  if (typeof body !== "string") {
+    return body
+  }
+
+  const $ = cheerio.load(body, { xml: true })
+
+  if ($("urlset").length > 0) {
+    const entries: SitemapEntry[] = []
+    $("urlset > url").each((_, element) => {
+      const loc = $(element).children("loc").first().text().trim()
+      if (!loc) return
+      entries.push({
+        url: loc,
+        lastModified: parseLastModified($(element).children("lastmod").first().text()),
+      })
+    })
+    return entries
+  }
+
+  if ($("sitemapindex").length === 0) {
+    const errorMessage = `Content is not a valid sitemap: ${url}`
+    console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  if (depth >= MAX_INDEX_DEPTH) {
+    console.warn(`Sitemap index nested too deeply, skipping: ${url}`, {
+      url,
+      depth,
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+
+  const children: SitemapEntry[] = []
+  $("sitemapindex > sitemap").each((_, element) => {
+    const loc = $(element).children("loc").first().text().trim()
+    if (!loc) return
+    children.push({
+      url: loc,
+      lastModified: parseLastModified($(element).children("lastmod").first().text()),
+    })
+  })
+
+  // Newest child sitemaps first; those without a lastmod can't be ruled out, so they follow
+  const candidates = children
+    .filter((child) => !since || !child.lastModified || child.lastModified > since)
+    .sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0))
+    .slice(0, MAX_CHILD_SITEMAPS)
+
+  const entries: SitemapEntry[] = []
+  for (const child of candidates) {
+    const childEntries = await collectSitemapEntries(child.url, since, depth + 1)
+    if (!Array.isArray(childEntries)) {
+      // One broken child sitemap shouldn't hide the others
+      console.warn(`Skipping child sitemap: ${childEntries.error}`, {
+        url: child.url,
+        sitemapIndex: url,
+        timestamp: new Date().toISOString(),
+      })
+      continue
+    }
+    entries.push(...childEntries)
+  }
+
+  return entries
+}
+
+/**
+ * Fetch the pages listed in a sitemap (or sitemap index) without parsing them
+ * Picks pages with a lastmod after `since`, newest first, and fetches them with fetchPages.
+ * Pages without a lastmod are only picked on the first run, since there's no way to tell if they changed.
+ * Returns a ScrapeError when the sitemap can't be read
+ */
+export async function fetchSitemapPages(
+  url: string,
+  options: SitemapScrapeOptions = {}
+): Promise<FetchedSitemap | ScrapeError> {
+  const startTime = Date.now()
+  const since = options.since ?? null
+
+  try {
+    try {
+      new URL(url)
+    } catch (error) {
+      const errorMessage = `Invalid URL format: ${url}`
+      console.error(errorMessage, { url, timestamp: new Date().toISOString() })
+      return {
+        url,
+        error: errorMessage,
+        timestamp: new Date(),
+      } as ScrapeError
+    }
+
+    const entries = await collectSitemapEntries(url, since, 0)
+    if (!Array.isArray(entries)) {
+      return entries
+    }
+
+    // Sitemaps can list a page more than once (e.g. in several child sitemaps)
+    const seen = new Set<string>()
+    const selected = entries
+      .filter((entry) => {
+        if (seen.has(entry.url)) return false
+        seen.add(entry.url)
+        if (options.pathPrefix && !hasPathPrefix(entry.url, options.pathPrefix)) return false
+        return since ? entry.lastModified !== null && entry.lastModified > since : true
+      })
+      .sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0))
+
+    const pages = selected.slice(0, MAX_PAGES_PER_RUN)
+
+    console.log(`Sitemap lists ${entries.length} pages, ${selected.length} new since last run`, {
+      url,
+      since: since?.toISOString() ?? null,
+      scraping: pages.length,
+      timestamp: new Date().toISOString(),
+    })
+
+    if (pages.length === 0) {
+      return { url, pages: [] }
+    }
+
+    const fetched = await fetchPages(
+      pages.map((page) => page.url),
+      { signal: options.signal, onProgress: options.onProgress }
+    )
+
+    console.log(`Fetched ${fetched.filter(isFetchedDocument).length} of ${pages.length} pages from sitemap: ${url}`, {
+      url,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      pages: pages.map((entry, index) => ({ entry, page: fetched[index] })),
+    }
+  } catch (error) {
+    if (error instanceof FetchPolicyError) {
+      return toPolicyScrapeError(url, error)
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : `Unknown error: ${String(error)}`
+    console.error(`Failed to fetch sitemap: ${url}`, {
+      url,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    })
+
+    return {
+      url,
+      error: errorMessage,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+}
+
+/**
+ * Parse a sitemap's fetched pages into ScrapedContent
+ * Returns a ScrapeError when every selected page failed to fetch or parse
+ */
+export function normalizeSitemapPages(sitemap: FetchedSitemap): ScrapedContent[] | ScrapeError {
+  const { url, pages } = sitemap
+
+  const items: ScrapedContent[] = []
+  let lastError: ScrapeError | null = null
+
+  for (const { entry, page } of pages) {
+    const result = isFetchedDocument(page) ? parsePage(page) : page
+    if (isScrapedContent(result)) {
+      // The sitemap's lastmod is a better publish date than nothing
+      if (!result.publishDate && entry.lastModified) {
+        result.publishDate = entry.lastModified
+      }
+      items.push(result)
+    } else {
+      lastError = result
+    }
+  }
+
+  if (items.length === 0 && lastError) {
+    return {
+      url,
+      error: `Failed to scrape any of ${pages.length} pages from sitemap (last error: ${lastError.error})`,
+      code: lastError.code,
+      timestamp: new Date(),
+    } as ScrapeError
+  }
+
+  if (pages.length > 0) {
+    console.log(`Successfully scraped sitemap: ${url}`, {
+      url,
+      pagesScraped: items.length,
+      pagesFailed: pages.length - items.length,
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  return items
+}
+
+/**
+ * Scrape the pages listed in a sitemap (or sitemap index) (fetchSitemapPages, then normalizeSitemapPages)
+ * Returns a ScrapeError when the sitemap can't be read or every selected page fails
+ */
+export async function scrapeSitemap(
+  url: string,
+  options: SitemapScrapeOptions = {}
+): Promise<ScrapeResult | ScrapedContent[]> {
+  const sitemap = await fetchSitemapPages(url, options)
+  return "pages" in sitemap ? normalizeSitemapPages(sitemap) : sitemap
+}
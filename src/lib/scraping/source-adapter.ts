@@ -0,0 +1,146 @@
+import type { z } from "zod"
+import type { ScrapedContent, ScrapeError, HttpValidators } from "./types"
+import type { FetchProgress } from "./fetch-scheduler"
+import { builtInSourceAdapters } from "./adapters"
+
+/**
+ * A source as handed to an adapter
+ */
+export interface AdapterSource<TConfig = unknown> {
+  url: string
+  sourceType: string | null // As stored on the source row (custom_sources / scrape_sources)
+  config: TConfig // Validated against the adapter's configSchema
+  userId: string | null // Owning user; null for global sources
+  validators?: HttpValidators | null // From the previous successful fetch, for conditional requests
+  since?: Date | null // Start of the previous successful run, for adapters that only fetch what's new
+  signal?: AbortSignal // Cancels the fetch, for adapters that support it
+  onProgress?: (progress: FetchProgress) => void // Per-request progress, for adapters that fetch several URLs
+}
+
+/**
+ * Outcome of fetching a source
+ */
+export type SourceFetchResult<T> =
+  | { status: "fetched"; data: T }
+  | { status: "not_modified"; validators: HttpValidators }
+  | { status: "failed"; error: ScrapeError }
+
+/**
+ * A kind of source (web page, RSS feed, subreddit, newsletter...)
+ * fetch() gets the raw data (page HTML, feed body, API JSON, emails) and normalize() turns it into
+ * ScrapedContent items, so every source feeds the same dedupe and topic extraction pipeline.
+ * normalize() returns a ScrapeError when the raw data has nothing usable (e.g. a feed with no items)
+ */
+export interface SourceAdapter<TConfig = unknown, TRaw = unknown> {
+  id: string
+  name: string // For logs and error messages, e.g. "RSS feed"
+  sourceTypes: string[] // source_type values that select this adapter regardless of URL
+  priority: number // Order in which match() is tried; higher first
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>
+  match(url: string): boolean
+  fetch(source: AdapterSource<TConfig>): Promise<SourceFetchResult<TRaw>>
+  normalize(raw: TRaw, source: AdapterSource<TConfig>): ScrapedContent[] | ScrapeError
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- the registry holds adapters with different config and raw types
+type AnySourceAdapter = SourceAdapter<any, any>
+
+const registry = new Map<string, AnySourceAdapter>()
+
+/**
+ * Register an adapter
+ * Registering an id again replaces the earlier adapter (modules re-run on hot reload in development)
+ */
+export function registerSourceAdapter<TConfig, TRaw>(adapter: SourceAdapter<TConfig, TRaw>): void {
+  registry.set(adapter.id, adapter)
+}
+
+builtInSourceAdapters.forEach((adapter) => registerSourceAdapter(adapter))
+
+/**
+ * Get an adapter by id
+ */
+export function getSourceAdapter(id: string): AnySourceAdapter | null {
+  return registry.get(id) ?? null
+}
+
+/**
+ * All registered adapters, in match order
+ */
+export function listSourceAdapters(): AnySourceAdapter[] {
+  return [...registry.values()].sort((a, b) => b.priority - a.priority)
+}
+
+/**
+ * Pick the adapter for a source: one claiming its source_type, else the highest-priority adapter
+ * whose match() accepts the URL (the web page adapter accepts anything)
+ */
+export function resolveSourceAdapter(source: { url: string; sourceType?: string | null }): AnySourceAdapter {
+  const adapters = listSourceAdapters()
+
+  if (source.sourceType) {
+    const byType = adapters.find((adapter) => adapter.sourceTypes.includes(source.sourceType as string))
+    if (byType) return byType
+  }
+
+  const byUrl = adapters.find((adapter) => adapter.match(source.url))
+  if (!byUrl) {
+    throw new Error(`No source adapter matches ${source.url}`)
+  }
+  return byUrl
+}
+
+/**
+ * Validate a source's stored config against an adapter's schema (filling in defaults)
+ */
+export function parseAdapterConfig<TConfig>(
+  adapter: SourceAdapter<TConfig, unknown>,
+  config: unknown
+): { success: true; config: TConfig } | { success: false; error: string } {
+  const result = adapter.configSchema.safeParse(config ?? {})
+  if (result.success) {
+    return { success: true, config: result.data }
+  }
+
+  const issues = result.error.errors
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ")
+  return { success: false, error: `Invalid ${adapter.name} settings: ${issues}` }
+}
+
+/**
+ * Fetch a source through its adapter and normalize the result to ScrapedContent items
+ * Pass `adapter` to skip resolution (e.g. for sources whose kind isn't stored in source_type)
+ */
+export async function fetchSourceContent(
+  source: Omit<AdapterSource, "config"> & { config?: unknown },
+  adapter: AnySourceAdapter = resolveSourceAdapter(source)
+): Promise<SourceFetchResult<ScrapedContent[]> & { adapter: AnySourceAdapter }> {
+  const parsed = parseAdapterConfig(adapter, source.config)
+  if (!parsed.success) {
+    return {
+      status: "failed",
+      adapter,
+      error: {
+        url: source.url,
+        error: parsed.error,
+        code: "INVALID_CONFIG",
+        timestamp: new Date(),
+      },
+    }
+  }
+
+  const adapterSource: AdapterSource = { ...source, config: parsed.config }
+  const result = await adapter.fetch(adapterSource)
+
+  if (result.status !== "fetched") {
+    return { ...result, adapter }
+  }
+
+  const items = adapter.normalize(result.data, adapterSource)
+  if (!Array.isArray(items)) {
+    return { status: "failed", adapter, error: items }
+  }
+
+  return { status: "fetched", adapter, data: items }
+}
@@ -0,0 +1,298 @@
+import type { CheerioAPI } from "cheerio"
+import type { Element } from "domhandler"
+
+/**
+ * schema.org types treated as the page's article
+ */
+const ARTICLE_TYPES = new Set([
+  "article",
+  "newsarticle",
+  "analysisnewsarticle",
+  "opinionnewsarticle",
+  "reportagenewsarticle",
+  "reviewnewsarticle",
+  "backgroundnewsarticle",
+  "blogposting",
+  "liveblogposting",
+  "techarticle",
+  "scholarlyarticle",
+  "report",
+  "socialmediaposting",
+])
+
+/**
+ * Article fields publishers declare in schema.org markup
+ */
+export interface StructuredArticleData {
+  type: string
+  headline: string | null
+  description: string | null
+  datePublished: Date | null
+  dateModified: Date | null
+  author: string | null // Names joined with ", " when there are several
+  keywords: string[]
+  section: string | null
+  wordCount: number | null
+  image: string | null
+}
+
+type JsonLdNode = Record<string, unknown>
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Get a node's schema.org types, lowercased and without a "schema:" / URL prefix
+ */
+function getTypes(node: JsonLdNode): string[] {
+  return toArray(node["@type"])
+    .filter((type): type is string => typeof type === "string")
+    .map((type) => type.replace(/^(https?:\/\/schema\.org\/|schema:)/i, "").toLowerCase())
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value.trim()) return null
+  const date = new Date(value.trim())
+  return isNaN(date.getTime()) ? null : date
+}
+
+function firstString(value: unknown): string | null {
+  for (const item of toArray(value)) {
+    if (typeof item === "string" && item.trim()) return item.trim()
+    if (isNode(item) && typeof item["@value"] === "string" && item["@value"].trim()) {
+      return item["@value"].trim()
+    }
+  }
+  return null
+}
+
+/**
+ * Keywords may be a comma-separated string or a list (of strings or DefinedTerms)
+ */
+function parseKeywords(value: unknown): string[] {
+  const keywords: string[] = []
+  for (const item of toArray(value)) {
+    if (typeof item === "string") {
+      keywords.push(...item.split(","))
+    } else if (isNode(item) && typeof item.name === "string") {
+      keywords.push(item.name)
+    }
+  }
+
+  const seen = new Set<string>()
+  return keywords
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => {
+      const key = keyword.toLowerCase()
+      if (!keyword || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+function parseWordCount(value: unknown): number | null {
+  const count = typeof value === "number" ? value : parseInt(String(value ?? ""), 10)
+  return Number.isFinite(count) && count > 0 ? Math.round(count) : null
+}
+
+/**
+ * Collect every node from the page's JSON-LD blocks, flattening top-level arrays and @graph
+ */
+function collectJsonLdNodes($: CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = []
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const scriptContent = $(element).html()
+    if (!scriptContent) return
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(scriptContent.trim())
+    } catch {
+      return // Ignore malformed blocks; other blocks on the page may still be valid
+    }
+
+    for (const item of toArray(parsed)) {
+      if (!isNode(item)) continue
+      nodes.push(item)
+      for (const graphItem of toArray(item["@graph"])) {
+        if (isNode(graphItem)) nodes.push(graphItem)
+      }
+    }
+  })
+
+  return nodes
+}
+
+/**
+ * Resolve author names, following @id references to Person/Organization nodes elsewhere in the graph
+ */
+function resolveAuthorNames(value: unknown, nodesById: Map<string, JsonLdNode>): string[] {
+  const names: string[] = []
+  for (const item of toArray(value)) {
+    if (typeof item === "string" && item.trim()) {
+      names.push(item.trim())
+      continue
+    }
+    if (!isNode(item)) continue
+
+    const node = typeof item["@id"] === "string" && !item.name ? nodesById.get(item["@id"]) ?? item : item
+    const name = firstString(node.name)
+    if (name) names.push(name)
+  }
+  return names
+}
+
+/**
+ * Read the page's article from JSON-LD
+ */
+function extractFromJsonLd($: CheerioAPI): StructuredArticleData | null {
+  const nodes = collectJsonLdNodes($)
+  const article = nodes.find((node) => getTypes(node).some((type) => ARTICLE_TYPES.has(type)))
+  if (!article) return null
+
+  const nodesById = new Map<string, JsonLdNode>()
+  for (const node of nodes) {
+    if (typeof node["@id"] === "string") nodesById.set(node["@id"], node)
+  }
+
+  const authors = resolveAuthorNames(article.author, nodesById)
+
+  let image: string | null = null
+  for (const item of toArray(article.image)) {
+    if (typeof item === "string") image = item
+    else if (isNode(item) && typeof item.url === "string") image = item.url
+    if (image) break
+  }
+
+  return {
+    type: getTypes(article)[0],
+    headline: firstString(article.headline) ?? firstString(article.name),
+    description: firstString(article.description),
+    datePublished: parseDate(article.datePublished) ?? parseDate(article.dateCreated),
+    dateModified: parseDate(article.dateModified),
+    author: authors.length > 0 ? authors.join(", ") : null,
+    keywords: parseKeywords(article.keywords),
+    section: firstString(article.articleSection),
+    wordCount: parseWordCount(article.wordCount),
+    image,
+  }
+}
+
+/**
+ * Read the page's article from microdata (itemscope/itemprop)
+ */
+function extractFromMicrodata($: CheerioAPI): StructuredArticleData | null {
+  const $article = $("[itemscope][itemtype]")
+    .filter((_, element) => {
+      const itemTypes = ($(element).attr("itemtype") || "").split(/\s+/)
+      return itemTypes.some((itemType) =>
+        ARTICLE_TYPES.has(itemType.replace(/^https?:\/\/schema\.org\//i, "").replace(/\/$/, "").toLowerCase())
+      )
+    })
+    .first()
+
+  if ($article.length === 0) return null
+
+  // Properties of this item only, not of items nested inside it (e.g. a Person's name)
+  const ownProps = (name: string) =>
+    $article.find(`[itemprop~="${name}"]`).filter((_, element) => {
+      const $scope = $(element).parent().closest("[itemscope]")
+      return $scope.length > 0 && $scope[0] === $article[0]
+    })
+
+  const propValue = (element: Element): string | null => {
+    const $element = $(element)
+    const value =
+      $element.attr("content") ??
+      $element.attr("datetime") ??
+      (element.tagName === "meta" ? undefined : $element.attr("src") ?? $element.attr("href")) ??
+      $element.text()
+    return value?.trim() || null
+  }
+
+  const firstProp = (name: string): string | null => {
+    const element = ownProps(name).get(0)
+    return element ? propValue(element) : null
+  }
+
+  const authors: string[] = []
+  ownProps("author").each((_, element) => {
+    const $author = $(element)
+    const name = $author.is("[itemscope]")
+      ? $author.find('[itemprop~="name"]').first().attr("content") ?? $author.find('[itemprop~="name"]').first().text()
+      : propValue(element)
+    if (name?.trim()) authors.push(name.trim())
+  })
+
+  const keywords: string[] = []
+  ownProps("keywords").each((_, element) => {
+    const value = propValue(element)
+    if (value) keywords.push(value)
+  })
+
+  const itemType = ($article.attr("itemtype") || "").split(/\s+/)[0]
+
+  return {
+    type: itemType.replace(/^https?:\/\/schema\.org\//i, "").replace(/\/$/, "").toLowerCase(),
+    headline: firstProp("headline") ?? firstProp("name"),
+    description: firstProp("description"),
+    datePublished: parseDate(firstProp("datePublished")),
+    dateModified: parseDate(firstProp("dateModified")),
+    author: authors.length > 0 ? authors.join(", ") : null,
+    keywords: parseKeywords(keywords),
+    section: firstProp("articleSection"),
+    wordCount: parseWordCount(firstProp("wordCount")),
+    image: firstProp("image"),
+  }
+}
+
+/**
+ * Extract the page's article from schema.org structured data
+ * JSON-LD (including @graph) is preferred; microdata fills in any fields it lacks.
+ * Returns null when the page declares no article, so callers fall back to meta tags and heuristics
+ */
+export function extractStructuredData($: CheerioAPI): StructuredArticleData | null {
+  let jsonLd: StructuredArticleData | null = null
+  let microdata: StructuredArticleData | null = null
+
+  try {
+    jsonLd = extractFromJsonLd($)
+  } catch (error) {
+    console.warn("Failed to read JSON-LD structured data", {
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  try {
+    microdata = extractFromMicrodata($)
+  } catch (error) {
+    console.warn("Failed to read microdata structured data", {
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  if (!jsonLd) return microdata
+  if (!microdata) return jsonLd
+
+  return {
+    type: jsonLd.type,
+    headline: jsonLd.headline ?? microdata.headline,
+    description: jsonLd.description ?? microdata.description,
+    datePublished: jsonLd.datePublished ?? microdata.datePublished,
+    dateModified: jsonLd.dateModified ?? microdata.dateModified,
+    author: jsonLd.author ?? microdata.author,
+    keywords: jsonLd.keywords.length > 0 ? jsonLd.keywords : microdata.keywords,
+    section: jsonLd.section ?? microdata.section,
+    wordCount: jsonLd.wordCount ?? microdata.wordCount,
+    image: jsonLd.image ?? microdata.image,
+  }
+}
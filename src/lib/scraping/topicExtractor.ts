@@ -1,7 +1,35 @@
-import { generateWithClaude } from "@/lib/ai/claude"
+import { z } from "zod"
+import { generateStructuredWithClaude, type StructuredOutput } from "@/lib/ai/claude"
 import type { ScrapedContent, ExtractedTopic, ScrapeResult } from "./types"
 import { isScrapedContent } from "./types"
 
+const TOPIC_CATEGORIES = [
+  "Technology",
+  "Business",
+  "Marketing",
+  "Health",
+  "Entertainment",
+  "Politics",
+  "Science",
+  "Sports",
+  "Lifestyle",
+  "Other",
+] as const
+
+// Topics scoring below this are too weak to suggest
+const MIN_TRENDING_SCORE = 40
+
+// Most topics kept from one extraction, however many chunks it took
+const MAX_TOPICS = 10
+
+/**
+ * A block of numbered sources sent to Claude in one call; items[n - 1] is source [n]
+ */
+interface ContentChunk {
+  text: string
+  items: ScrapedContent[]
+}
+
 /**
  * Calculate simple string similarity between two strings
  * Returns a ratio between 0 and 1
@@ -19,81 +47,101 @@ function calculateSimilarity(str1: string, str2: string): number {
 }
 
 /**
- * Deduplicate topics by title similarity
- * Keeps the topic with higher trendingScore when duplicates are found
+ * Reduce step: merge topics extracted from different chunks (or repeated within one) and rank them
+ * Topics with the same or a >80% similar title are merged, keeping the higher-scoring topic's text
+ * and the sources of both. Ranked by trendingScore, then by how many sources they came from
  */
-function deduplicateTopics(topics: ExtractedTopic[]): ExtractedTopic[] {
-  const unique: ExtractedTopic[] = []
-  const seen: string[] = []
+function mergeTopics(topics: ExtractedTopic[]): ExtractedTopic[] {
+  const merged: ExtractedTopic[] = []
 
   for (const topic of topics) {
-    // Check for exact duplicate (case-insensitive)
     const normalizedTitle = topic.title.toLowerCase().trim()
-    if (seen.includes(normalizedTitle)) {
+    const index = merged.findIndex(
+      (existingTopic) =>
+        existingTopic.title.toLowerCase().trim() === normalizedTitle ||
+        calculateSimilarity(topic.title, existingTopic.title) > 0.8
+    )
+
+    if (index === -1) {
+      merged.push(topic)
       continue
     }
 
-    // Check for similar topics (>80% similarity)
-    let isDuplicate = false
-    for (const existingTopic of unique) {
-      const similarity = calculateSimilarity(topic.title, existingTopic.title)
-      if (similarity > 0.8) {
-        // Keep the one with higher trendingScore
-        if (topic.trendingScore > existingTopic.trendingScore) {
-          // Replace existing with this one
-          const index = unique.indexOf(existingTopic)
-          unique[index] = topic
-        }
-        isDuplicate = true
-        break
-      }
-    }
-
-    if (!isDuplicate) {
-      unique.push(topic)
-      seen.push(normalizedTitle)
+    const existingTopic = merged[index]
+    const kept = topic.trendingScore > existingTopic.trendingScore ? topic : existingTopic
+    merged[index] = {
+      ...kept,
+      sourceUrls: [...new Set([...existingTopic.sourceUrls, ...topic.sourceUrls])],
     }
   }
 
-  return unique
+  return merged
+    .sort((a, b) => b.trendingScore - a.trendingScore || b.sourceUrls.length - a.sourceUrls.length)
+    .slice(0, MAX_TOPICS)
 }
 
 /**
- * Combine scraped content into a batched text block for Claude
- * Keeps total under ~15,000 characters to avoid token limits
+ * Format one scraped item for the prompt, numbered so topics can cite it
  */
-function combineContentForBatching(
+function formatContentForPrompt(content: ScrapedContent, sourceNumber: number): string {
+  // Include title, excerpt (first 500 chars), and metadata
+  return [
+    `=== Source [${sourceNumber}]: ${content.url || "(no URL)"} ===`,
+    `Title: ${content.title || "No title"}`,
+    `Excerpt: ${content.excerpt || content.content.substring(0, 500)}`,
+    content.metadata.openGraphDescription
+      ? `Description: ${content.metadata.openGraphDescription}`
+      : "",
+    content.publishDate
+      ? `Published: ${content.publishDate.toISOString()}`
+      : "",
+    content.metadata.section ? `Section: ${content.metadata.section}` : "",
+    content.metadata.keywords && content.metadata.keywords.length > 0
+      ? `Keywords: ${content.metadata.keywords.slice(0, 15).join(", ")}`
+      : "",
+    content.metadata.wordCount ? `Length: ${content.metadata.wordCount} words` : "",
+  ]
+    .filter((line) => line.length > 0)
+    .join("\n")
+}
+
+/**
+ * Split scraped content into text blocks for Claude, one extraction call each
+ * Each chunk stays under ~15,000 characters to avoid token limits, and every item lands in one
+ * (an item too long on its own is cut to fit). Sources are numbered from 1 within each chunk
+ */
+function chunkContentForExtraction(
   scrapedContent: ScrapedContent[],
   maxChars: number = 15000
-): string {
-  const parts: string[] = []
+): ContentChunk[] {
+  const chunks: ContentChunk[] = []
+  let parts: string[] = []
+  let items: ScrapedContent[] = []
+  let length = 0
 
   for (const content of scrapedContent) {
-    // Include title, excerpt (first 500 chars), and metadata
-    const part = [
-      `=== Source: ${content.url} ===`,
-      `Title: ${content.title || "No title"}`,
-      `Excerpt: ${content.excerpt || content.content.substring(0, 500)}`,
-      content.metadata.openGraphDescription
-        ? `Description: ${content.metadata.openGraphDescription}`
-        : "",
-      content.publishDate
-        ? `Published: ${content.publishDate.toISOString()}`
-        : "",
-    ]
-      .filter((line) => line.length > 0)
-      .join("\n")
-
-    // Check if adding this part would exceed the limit
-    const currentLength = parts.join("\n\n").length
-    if (currentLength + part.length > maxChars) {
-      break // Stop adding more content
+    let part = formatContentForPrompt(content, items.length + 1)
+
+    // Start a new chunk if adding this part would exceed the limit
+    if (items.length > 0 && length + part.length + 2 > maxChars) {
+      chunks.push({ text: parts.join("\n\n"), items })
+      parts = []
+      items = []
+      length = 0
+      part = formatContentForPrompt(content, 1)
     }
 
+    part = part.substring(0, maxChars)
+    length += part.length + (parts.length > 0 ? 2 : 0)
     parts.push(part)
+    items.push(content)
+  }
+
+  if (items.length > 0) {
+    chunks.push({ text: parts.join("\n\n"), items })
   }
 
-  return parts.join("\n\n")
+  return chunks
 }
 
 /**
@@ -122,100 +170,141 @@ ${combinedContent}
 Extract 5-10 trending topics from this content. For each topic:
 - Title: Clear, concise topic name (5-10 words max)
 - Description: Why this topic is trending and why it matters (2-3 sentences)
-- Category: One of [Technology, Business, Marketing, Health, Entertainment, Politics, Science, Sports, Lifestyle, Other]
+- Category: One of [${TOPIC_CATEGORIES.join(", ")}]
 - Trending Score: 0-100 based on recency, relevance, and potential engagement
 - Relevance: Brief explanation of why this topic matches the user's industry/interests
+- Sources: The numbers of the sources (e.g. [1], [3]) the topic comes from
 
 Focus on:
 - Recent developments (prioritize newer content)
 - Topics with broad appeal or timely relevance
 - Actionable topics that could generate engaging social media posts
 
-Return ONLY valid JSON array of topics, no other text:
-[
-  {
-    "title": "...",
-    "description": "...",
-    "category": "...",
-    "trendingScore": 85,
-    "relevance": "..."
-  }
-]`
+Record the topics with the record_topics tool.`
 }
 
 /**
- * Parse and validate Claude's JSON response
+ * Zod schema for the record_topics tool input; source numbers must be within the batch
  */
-function parseTopicsFromResponse(response: string): ExtractedTopic[] {
-  try {
-    // Try to extract JSON from response (in case Claude adds extra text)
-    const jsonMatch = response.match(/\[[\s\S]*\]/)
-    const jsonStr = jsonMatch ? jsonMatch[0] : response
-
-    const parsed = JSON.parse(jsonStr)
+function createTopicExtractionSchema(sourceCount: number) {
+  return z.object({
+    topics: z.array(
+      z.object({
+        title: z.string().trim().min(1),
+        description: z.string().trim().min(1),
+        category: z.enum(TOPIC_CATEGORIES),
+        trendingScore: z.number().min(0).max(100),
+        relevance: z.string().trim(),
+        sources: z.array(z.number().int().min(1).max(sourceCount)).min(1),
+      })
+    ),
+  })
+}
 
-    if (!Array.isArray(parsed)) {
-      console.warn("Claude response is not an array", { response })
-      return []
-    }
+type TopicExtractionOutput = z.infer<ReturnType<typeof createTopicExtractionSchema>>
 
-    // Validate and filter topics
-    const validTopics: ExtractedTopic[] = []
-
-    for (const item of parsed) {
-      // Validate required fields
-      if (
-        typeof item.title === "string" &&
-        typeof item.description === "string" &&
-        typeof item.category === "string" &&
-        typeof item.trendingScore === "number" &&
-        typeof item.relevance === "string" &&
-        item.trendingScore >= 40 && // Filter out low quality topics
-        item.trendingScore <= 100
-      ) {
-        validTopics.push({
-          title: item.title.trim(),
-          description: item.description.trim(),
-          category: item.category.trim(),
-          trendingScore: Math.round(item.trendingScore),
-          relevance: item.relevance.trim(),
-        })
-      } else {
-        console.warn("Invalid topic structure, skipping", { item })
-      }
-    }
+/**
+ * The record_topics tool Claude answers with
+ */
+function createTopicExtractionOutput(sourceCount: number): StructuredOutput<TopicExtractionOutput> {
+  return {
+    toolName: "record_topics",
+    toolDescription: "Record the trending topics extracted from the web content",
+    inputSchema: {
+      type: "object",
+      properties: {
+        topics: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string", description: "Clear, concise topic name (5-10 words max)" },
+              description: {
+                type: "string",
+                description: "Why this topic is trending and why it matters (2-3 sentences)",
+              },
+              category: { type: "string", enum: [...TOPIC_CATEGORIES] },
+              trendingScore: {
+                type: "integer",
+                minimum: 0,
+                maximum: 100,
+                description: "Based on recency, relevance, and potential engagement",
+              },
+              relevance: {
+                type: "string",
+                description: "Why this topic matches the user's industry/interests",
+              },
+              sources: {
+                type: "array",
+                items: { type: "integer", minimum: 1, maximum: sourceCount },
+                minItems: 1,
+                description: "Numbers of the sources the topic comes from",
+              },
+            },
+            required: ["title", "description", "category", "trendingScore", "relevance", "sources"],
+          },
+        },
+      },
+      required: ["topics"],
+    },
+    schema: createTopicExtractionSchema(sourceCount),
+  }
+}
 
-    return validTopics
-  } catch (error) {
-    console.error("Failed to parse topics from Claude response", {
-      error: error instanceof Error ? error.message : String(error),
-      response: response.substring(0, 500), // Log first 500 chars
-    })
+/**
+ * Turn validated tool output into topics, resolving source numbers to URLs
+ */
+function toExtractedTopics(output: TopicExtractionOutput, items: ScrapedContent[]): ExtractedTopic[] {
+  return output.topics
+    .filter((topic) => topic.trendingScore >= MIN_TRENDING_SCORE) // Filter out low quality topics
+    .map((topic) => ({
+      title: topic.title,
+      description: topic.description,
+      category: topic.category,
+      trendingScore: Math.round(topic.trendingScore),
+      relevance: topic.relevance,
+      sourceUrls: [
+        ...new Set(topic.sources.map((source) => items[source - 1].url).filter((url) => url.length > 0)),
+      ],
+    }))
+}
 
-    // Try to extract topics manually from text response
-    return extractTopicsFromText(response)
-  }
+/**
+ * The URL to show as a topic's source: the first web page it came from (emails have mailto: URLs)
+ */
+export function getTopicSourceUrl(topic: ExtractedTopic): string | null {
+  return topic.sourceUrls.find((url) => /^https?:\/\//i.test(url)) ?? null
 }
 
 /**
- * Fallback: Extract topics from text response when JSON parsing fails
+ * Extract topics from one chunk with a single Claude call
+ * Throws if Claude fails or its output still doesn't validate after the repair retry
  */
-function extractTopicsFromText(text: string): ExtractedTopic[] {
-  const topics: ExtractedTopic[] = []
+async function extractTopicsFromChunk(
+  chunk: ContentChunk,
+  userIndustry?: string,
+  userInterests?: string[]
+): Promise<ExtractedTopic[]> {
+  const prompt = buildTopicExtractionPrompt(chunk.text, userIndustry, userInterests)
+
+  const systemPrompt =
+    "You are an expert at identifying trending topics from web content. Extract actionable, engaging topics suitable for social media content creation."
 
-  // Try to find topic-like patterns in the text
-  // This is a fallback, so we'll be lenient
-  const titleMatches = text.match(/title["\s:]+([^,}]+)/gi)
-  const scoreMatches = text.match(/trendingScore["\s:]+(\d+)/gi)
+  const output = await generateStructuredWithClaude(
+    prompt,
+    createTopicExtractionOutput(chunk.items.length),
+    systemPrompt,
+    2000
+  )
 
-  // If we can't extract structured data, return empty array
-  // The user should see an error rather than bad data
-  return topics
+  return toExtractedTopics(output, chunk.items)
 }
 
 /**
  * Extract trending topics from scraped content using Claude API
- * 
+ * Large batches are split into chunks that are extracted separately, then the topics are merged
+ * and ranked across chunks; each topic carries the URLs of the items it came from
+ *
  * @param scrapedContent - Array of ScrapeResult (will filter out errors)
  * @param userIndustry - Optional user industry for context
  * @param userInterests - Optional user interests for context
@@ -245,43 +334,36 @@ export async function extractTopicsFromContent(
       timestamp: new Date().toISOString(),
     })
 
-    // Combine content for batching
-    const combinedContent = combineContentForBatching(validContent)
-
-    if (combinedContent.length === 0) {
-      console.warn("Combined content is empty after batching", {
-        timestamp: new Date().toISOString(),
-      })
-      return []
+    // Map: extract topics from each chunk of content
+    const chunks = chunkContentForExtraction(validContent)
+    const chunkTopics: ExtractedTopic[] = []
+    let failedChunks = 0
+
+    for (const [index, chunk] of chunks.entries()) {
+      try {
+        chunkTopics.push(...(await extractTopicsFromChunk(chunk, userIndustry, userInterests)))
+      } catch (error) {
+        // One bad chunk shouldn't lose the topics from the rest
+        failedChunks++
+        console.error(`Failed to extract topics from chunk ${index + 1} of ${chunks.length}`, {
+          chunkItems: chunk.items.length,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        })
+      }
     }
 
-    // Build prompt
-    const prompt = buildTopicExtractionPrompt(combinedContent, userIndustry, userInterests)
-
-    // Call Claude API
-    const systemPrompt =
-      "You are an expert at identifying trending topics from web content. Extract actionable, engaging topics suitable for social media content creation."
-
-    const response = await generateWithClaude(prompt, systemPrompt, 2000)
-
-    if (!response || response.trim().length === 0) {
-      console.warn("Empty response from Claude API", {
-        timestamp: new Date().toISOString(),
-      })
-      return []
+    if (failedChunks === chunks.length) {
+      throw new Error(`Topic extraction failed for all ${chunks.length} chunks`)
     }
 
-    // Parse and validate response
-    let topics = parseTopicsFromResponse(response)
-
-    // Deduplicate topics
-    topics = deduplicateTopics(topics)
-
-    // Filter out low quality topics (trendingScore < 40 already filtered in parseTopicsFromResponse)
-    // But we can add additional filtering here if needed
+    // Reduce: merge and rank topics across chunks
+    const topics = mergeTopics(chunkTopics)
 
     console.log(`Extracted ${topics.length} unique topics from content`, {
       topicCount: topics.length,
+      chunkCount: chunks.length,
+      failedChunks,
       timestamp: new Date().toISOString(),
     })
 
@@ -20,17 +20,89 @@ export interface ScrapedContent {
     feedTitle?: string | null
     feedUrl?: string
     emailLinks?: string[]
+    externalUrl?: string // Link target for aggregator posts (e.g. Hacker News)
+    score?: number // Upvotes/points on aggregator sources
+    commentCount?: number
+    trendingScore?: number // Engagement-based score used to rank aggregator posts
+    topics?: string[] // Source-provided tags (e.g. Product Hunt topics)
+    sourceTrendScore?: number // 0-100, stored directly as trend_score instead of Claude's estimate
+    region?: string // Geo code for regional sources (e.g. Google Trends)
+    searchVolume?: number // Approximate searches, parsed from searchVolumeLabel
+    searchVolumeLabel?: string // As reported by the source, e.g. "200K+"
+    relatedQueries?: string[]
+    relatedArticles?: Array<{ title: string; url: string; source: string | null }>
+    attachments?: FeedAttachment[] // Enclosures such as podcast audio (JSON Feed attachments)
+    keywords?: string[] // Publisher-declared keywords (schema.org structured data)
+    section?: string // Publisher-declared section, e.g. "Technology"
+    wordCount?: number // Declared by the publisher, else counted from the extracted text
+    structuredDataType?: string // schema.org type the above came from, e.g. "newsarticle"
   }
   scrapedAt: Date
   contentLength: number
+  httpValidators?: HttpValidators // Cache validators from the response, for the next conditional fetch
+  contentHash?: string // Dedupe hash set by the source when it isn't derived from the parsed fields (newsletter emails)
 }
 
+/**
+ * A file attached to a feed item
+ */
+export interface FeedAttachment {
+  url: string
+  mimeType: string | null
+  title: string | null
+  sizeInBytes: number | null
+  durationInSeconds: number | null
+}
+
+/**
+ * HTTP cache validators (ETag / Last-Modified) remembered between fetches
+ */
+export interface HttpValidators {
+  etag: string | null
+  lastModified: string | null
+}
+
+/**
+ * A response body as fetched, before it's parsed into ScrapedContent
+ */
+export interface FetchedDocument {
+  url: string
+  body: string
+  httpValidators?: HttpValidators // Cache validators from the response, for the next conditional fetch
+}
+
+/**
+ * Result when a conditional request is answered with 304 Not Modified
+ */
+export interface NotModifiedResult {
+  url: string
+  notModified: true
+  validators: HttpValidators
+  timestamp: Date
+}
+
+/**
+ * Machine-readable reasons for a ScrapeError, for failures callers handle differently
+ * BLOCKED_URL: not http(s), or resolves to a private/reserved address (see safe-fetch.ts)
+ * RESPONSE_TOO_LARGE: body exceeded the size cap
+ * ROBOTS_DISALLOWED: the site's robots.txt doesn't allow us to fetch the URL (see robots.ts)
+ * INVALID_CONFIG: the source's adapter_config doesn't match its adapter's schema (see source-adapter.ts)
+ * CANCELLED: the caller aborted the fetch (see fetch-scheduler.ts)
+ */
+export type ScrapeErrorCode =
+  | "BLOCKED_URL"
+  | "RESPONSE_TOO_LARGE"
+  | "ROBOTS_DISALLOWED"
+  | "INVALID_CONFIG"
+  | "CANCELLED"
+
 /**
  * Error result when scraping fails
  */
 export interface ScrapeError {
   url: string
   error: string
+  code?: ScrapeErrorCode
   timestamp: Date
 }
 
@@ -53,6 +125,20 @@ export function isScrapeError(result: ScrapeResult): result is ScrapeError {
   return 'error' in result && 'timestamp' in result
 }
 
+/**
+ * Type guard to check if a conditional fetch found the resource unchanged
+ */
+export function isNotModified(result: unknown): result is NotModifiedResult {
+  return typeof result === "object" && result !== null && "notModified" in result
+}
+
+/**
+ * Type guard to check if a fetch returned a body (rather than an error or a 304)
+ */
+export function isFetchedDocument(result: unknown): result is FetchedDocument {
+  return typeof result === "object" && result !== null && "body" in result && "url" in result
+}
+
 /**
  * Extracted topic from Claude
  */
@@ -62,6 +148,7 @@ export interface ExtractedTopic {
   category: string
   trendingScore: number // 0-100
   relevance: string // Why this topic is trending
+  sourceUrls: string[] // URLs of the scraped items the topic came from
 }
 
 /**
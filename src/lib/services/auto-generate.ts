@@ -4,6 +4,8 @@ import { ApiError } from "@/lib/api/auth"
 import type { Database } from "@/types/database"
 import { discoverTrends } from "./trends"
 import { generatePost } from "./posts"
+import { getRemainingQuota, assertWithinQuota } from "./usage"
+import { sendAutoGenerationDigest, type DigestPost } from "./notifications"
 
 /**
  * Trigger auto-generation for a user
@@ -35,12 +37,9 @@ export async function triggerAutoGeneration(userId: string) {
     )
   }
 
-  // Get user's subscription to check limits
-  const { data: subscription } = await supabase
-    .from("subscriptions")
-    .select("plan_tier")
-    .eq("user_id", userId)
-    .single()
+  // Check remaining auto-generation quota for this billing period
+  await assertWithinQuota(userId, "auto_generations")
+  const remainingQuota = await getRemainingQuota(userId, "auto_generations")
 
   // Get trending topics
   const topics = await discoverTrends(userId, prefs.daily_post_count || 5)
@@ -52,9 +51,14 @@ export async function triggerAutoGeneration(userId: string) {
   // Get user's preferred platform (default to multi)
   const postsGenerated = []
   const topicsUsed = []
+  const digestPosts: DigestPost[] = []
 
-  // Generate posts (limit based on subscription)
-  const maxPosts = Math.min(prefs.daily_post_count || 5, topics.length)
+  // Generate posts (limit based on subscription quota)
+  const maxPosts = Math.min(
+    prefs.daily_post_count || 5,
+    topics.length,
+    remainingQuota ?? Number.POSITIVE_INFINITY
+  )
 
   for (let i = 0; i < maxPosts; i++) {
     const topic = topics[i]
@@ -63,10 +67,17 @@ export async function triggerAutoGeneration(userId: string) {
         userId,
         topic.id,
         "multi",
-        undefined // Use voice analysis for generation
+        undefined, // Use voice analysis for generation
+        "auto"
       )
       postsGenerated.push(post)
       topicsUsed.push(topic.id)
+      digestPosts.push({
+        id: post.id,
+        platform: post.platform,
+        content: post.content,
+        topicTitle: topic.title || null,
+      })
     } catch (error) {
       // Log error but continue with other topics
       console.error(`Failed to generate post for topic ${topic.id}:`, error)
@@ -91,11 +102,19 @@ export async function triggerAutoGeneration(userId: string) {
     console.error("Failed to log auto-generation:", logError)
   }
 
+  // Email the digest (respects notification_email) and flip notification_sent on the log
+  let notificationSent = false
+  const logRow = log as { id: string } | null
+  if (logRow) {
+    notificationSent = await sendAutoGenerationDigest(userId, logRow.id, digestPosts)
+  }
+
   return {
     success: true,
     postsGenerated: postsGenerated.length,
     topicsUsed: topicsUsed.length,
-    log,
+    notificationSent,
+    log: logRow && notificationSent ? { ...logRow, notification_sent: true } : log,
   }
 }
 
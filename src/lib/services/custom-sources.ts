@@ -1,17 +1,34 @@
 import { createClient } from "@/lib/supabase/server"
 import { ApiError } from "@/lib/api/auth"
 import {
-  scrapeUrl,
-  isScrapedContent,
   isScrapeError,
   extractTopicsFromContent,
   filterDuplicateTopics,
   generateContentHash,
   isContentHashDuplicate,
-  isRssFeedUrl,
-  scrapeRssFeed,
+  discoverFeeds,
+  getUrlPolicyViolation,
+  resolveSourceAdapter,
+  parseAdapterConfig,
+  fetchSourceContent,
+  parseContentFilters,
+  applyContentFilters,
+  evaluateContentFilters,
 } from "@/lib/scraping"
+import type {
+  HttpValidators,
+  DiscoveredFeed,
+  ScrapedContent,
+  ScrapeResult,
+  SourceAdapter,
+  ContentFilters,
+  FetchScheduleOptions,
+} from "@/lib/scraping"
+import type { CustomSource, ScrapeRun } from "@/types/database"
 import { getUserPreferences } from "./user-preferences"
+import { assertWithinQuota, consumeUsage, syncCustomSourcesCount } from "./usage"
+import { recordScrapeRun } from "./scrape-runs"
+import { storeScrapedDocuments } from "./scraped-documents"
 
 /**
  * Get all custom sources for a user
@@ -67,21 +84,27 @@ export async function getCustomSourceById(sourceId: string, userId: string) {
 
 /**
  * Create a new custom source
+ * For page URLs, also looks for feeds the page advertises (or that live at common paths) and returns
+ * them as discovered_feeds so the user can switch to the feed; scraping a feed yields the latest articles
+ * rather than a homepage's navigation text
  */
 export async function createCustomSource(
   userId: string,
   sourceUrl: string,
   sourceName: string,
-  sourceType?: string
+  sourceType?: string,
+  category?: string,
+  adapterConfig?: Record<string, unknown>,
+  contentFilters?: ContentFilters
 ) {
   const supabase = await createClient()
 
-  // Basic URL validation
-  try {
-    new URL(sourceUrl)
-  } catch {
-    throw new ApiError("INVALID_URL", "Invalid source URL", 400)
-  }
+  await assertScrapableUrl(sourceUrl)
+
+  const adapter = resolveSourceAdapter({ url: sourceUrl, sourceType })
+  assertValidAdapterConfig(adapter, adapterConfig)
+
+  await assertWithinQuota(userId, "custom_sources")
 
   const { data, error } = await supabase
     .from("custom_sources")
@@ -90,6 +113,9 @@ export async function createCustomSource(
       source_url: sourceUrl,
       source_name: sourceName,
       source_type: sourceType,
+      category: category || null,
+      adapter_config: adapterConfig ?? {},
+      content_filters: contentFilters ?? {},
       is_active: true,
     })
     .select()
@@ -104,11 +130,53 @@ export async function createCustomSource(
     )
   }
 
-  return data
+  await syncCustomSourcesCount(userId)
+
+  let discoveredFeeds: DiscoveredFeed[] = []
+  if (adapter.id === "web") {
+    discoveredFeeds = await discoverFeeds(sourceUrl)
+  }
+
+  return {
+    ...data,
+    discovered_feeds: discoveredFeeds,
+  }
+}
+
+/**
+ * Reject URLs the scrapers would refuse to fetch, so the problem shows up when the source is saved
+ * rather than as a failing scrape later (see getUrlPolicyViolation)
+ */
+async function assertScrapableUrl(sourceUrl: string) {
+  try {
+    new URL(sourceUrl)
+  } catch {
+    throw new ApiError("INVALID_URL", "Invalid source URL", 400)
+  }
+
+  const violation = await getUrlPolicyViolation(sourceUrl)
+  if (violation) {
+    throw new ApiError("BLOCKED_URL", violation, 400)
+  }
+}
+
+/**
+ * Reject adapter_config that doesn't match the adapter's schema
+ */
+function assertValidAdapterConfig(
+  adapter: SourceAdapter,
+  adapterConfig: Record<string, unknown> | undefined
+) {
+  const parsed = parseAdapterConfig(adapter, adapterConfig)
+  if (!parsed.success) {
+    throw new ApiError("INVALID_CONFIG", parsed.error, 400)
+  }
 }
 
 /**
  * Update a custom source
+ * Changing the URL or type to one handled by a different adapter resets adapter_config,
+ * unless new settings are passed along
  */
 export async function updateCustomSource(
   sourceId: string,
@@ -117,26 +185,50 @@ export async function updateCustomSource(
     source_url?: string
     source_name?: string
     source_type?: string
+    category?: string | null
+    adapter_config?: Record<string, unknown>
+    content_filters?: ContentFilters
     is_active?: boolean
   }
 ) {
   const supabase = await createClient()
 
   // Verify ownership first
-  await getCustomSourceById(sourceId, userId)
+  const existing = await getCustomSourceById(sourceId, userId)
 
-  // Validate URL if provided
-  if (updates.source_url) {
-    try {
-      new URL(updates.source_url)
-    } catch {
-      throw new ApiError("INVALID_URL", "Invalid source URL", 400)
-    }
+  // Validate URL if it's changing
+  if (updates.source_url && updates.source_url !== existing.source_url) {
+    await assertScrapableUrl(updates.source_url)
+  }
+
+  const previousAdapter = resolveSourceAdapter({ url: existing.source_url, sourceType: existing.source_type })
+  const adapter = resolveSourceAdapter({
+    url: updates.source_url ?? existing.source_url,
+    sourceType: updates.source_type ?? existing.source_type,
+  })
+
+  if (updates.adapter_config) {
+    assertValidAdapterConfig(adapter, updates.adapter_config)
   }
 
+  // The old settings belong to the old adapter
+  const adapterChange = adapter.id !== previousAdapter.id && !updates.adapter_config
+    ? { adapter_config: {} }
+    : {}
+
+  // Turning a source back on gives it a fresh failure budget before it can be auto-paused again
+  const reactivation = updates.is_active === true && !existing.is_active
+    ? { consecutive_failures: 0, auto_paused_at: null }
+    : {}
+
+  // Validators belong to the old URL
+  const urlChange = updates.source_url && updates.source_url !== existing.source_url
+    ? { http_etag: null, http_last_modified: null }
+    : {}
+
   const { data, error } = await supabase
     .from("custom_sources")
-    .update(updates)
+    .update({ ...updates, ...reactivation, ...urlChange, ...adapterChange })
     .eq("id", sourceId)
     .eq("user_id", userId)
     .select()
@@ -178,74 +270,99 @@ export async function deleteCustomSource(sourceId: string, userId: string) {
     )
   }
 
+  await syncCustomSourcesCount(userId)
+
   return { success: true }
 }
 
 /**
- * Handle RSS feed scraping (multiple items)
+ * Get the most recent scrape runs for a custom source (newest first)
  */
-async function handleRssFeedScrape(
+export async function getCustomSourceRuns(
   sourceId: string,
   userId: string,
-  feedUrl: string,
-  supabase: Awaited<ReturnType<typeof createClient>>
-): Promise<{ scrape_triggered: boolean; topics_found: number; scrape_successful: boolean; items_processed: number; items_skipped?: number }> {
-  console.log(`Scraping RSS feed: ${feedUrl}`, {
-    sourceId,
-    userId,
-    timestamp: new Date().toISOString(),
-  })
-
-  // Scrape RSS feed
-  const rssResult = await scrapeRssFeed(feedUrl)
+  limit: number = 20
+): Promise<ScrapeRun[]> {
+  const supabase = await createClient()
 
-  // Check if scraping failed
-  if (!Array.isArray(rssResult)) {
-    const errorMessage = isScrapeError(rssResult) ? rssResult.error : "Unknown RSS scraping error"
-    console.error(`RSS scraping failed for source ${sourceId}`, {
-      sourceId,
-      url: feedUrl,
-      error: errorMessage,
-      timestamp: new Date().toISOString(),
-    })
+  // Verify ownership first
+  await getCustomSourceById(sourceId, userId)
 
-    // Update last_scraped_at even on failure
-    await supabase
-      .from("custom_sources")
-      .update({ last_scraped_at: new Date().toISOString() })
-      .eq("id", sourceId)
-      .eq("user_id", userId)
+  const { data, error } = await supabase
+    .from("scrape_runs")
+    .select("*")
+    .eq("source_id", sourceId)
+    .eq("user_id", userId)
+    .order("started_at", { ascending: false })
+    .limit(limit)
 
+  if (error) {
     throw new ApiError(
-      "SCRAPE_FAILED",
-      `Failed to scrape RSS feed: ${errorMessage}`,
-      500
+      "FETCH_ERROR",
+      "Failed to fetch scrape history",
+      500,
+      error
     )
   }
 
-  const feedItems = rssResult
-  console.log(`RSS feed returned ${feedItems.length} items`, {
-    sourceId,
-    itemsCount: feedItems.length,
-    timestamp: new Date().toISOString(),
-  })
+  return (data || []) as ScrapeRun[]
+}
 
-  if (feedItems.length === 0) {
-    // Update last_scraped_at even if no items found
-    await supabase
-      .from("custom_sources")
-      .update({ last_scraped_at: new Date().toISOString() })
-      .eq("id", sourceId)
-      .eq("user_id", userId)
+/**
+ * Fetch a source's current items and report which would pass the given filters, without extracting topics
+ * Takes the URL, type and settings from the form, so filters can be tried out before the source is saved
+ */
+export async function previewContentFilters(
+  userId: string,
+  source: { sourceUrl: string; sourceType?: string; adapterConfig?: Record<string, unknown> },
+  contentFilters: ContentFilters
+) {
+  await assertScrapableUrl(source.sourceUrl)
 
-    return {
-      scrape_triggered: true,
-      topics_found: 0,
-      scrape_successful: true,
-      items_processed: 0,
-    }
+  const adapter = resolveSourceAdapter({ url: source.sourceUrl, sourceType: source.sourceType })
+  assertValidAdapterConfig(adapter, source.adapterConfig)
+
+  // No validators or since, so the preview always sees the source's current items
+  const result = await fetchSourceContent(
+    {
+      url: source.sourceUrl,
+      sourceType: source.sourceType ?? null,
+      config: source.adapterConfig,
+      userId,
+    },
+    adapter
+  )
+
+  if (result.status === "failed") {
+    throw scrapeFailedError(`Failed to scrape ${adapter.name}: ${result.error.error}`, result.error)
+  }
+
+  const items = result.status === "fetched" ? result.data : []
+
+  return {
+    adapter: adapter.id,
+    items: evaluateContentFilters(items, contentFilters).map(({ item, passed, reason }) => ({
+      url: item.url,
+      title: item.title,
+      excerpt: item.excerpt,
+      content_length: item.content.length,
+      publish_date: item.publishDate?.toISOString() ?? null,
+      passed,
+      reason,
+    })),
   }
+}
 
+/**
+ * Run scraped items through the per-item pipeline: content hash dedupe, topic extraction and
+ * duplicate topic filtering, then store all new topics in one insert
+ */
+async function processScrapedItems(
+  sourceId: string,
+  userId: string,
+  items: ScrapedContent[],
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<{ topicsFound: number; itemsProcessed: number; itemsSkipped: number }> {
   // Get user preferences for context
   let userIndustry: string | undefined
   let userInterests: string[] | undefined
@@ -257,7 +374,7 @@ async function handleRssFeedScrape(
       userInterests = preferences.content_topics.length > 0 ? preferences.content_topics : undefined
     }
   } catch (error) {
-    console.warn("Could not fetch user preferences for RSS topic extraction", {
+    console.warn("Could not fetch user preferences for feed topic extraction", {
       userId,
       error: error instanceof Error ? error.message : String(error),
     })
@@ -274,18 +391,19 @@ async function handleRssFeedScrape(
     
     selectedNiches = prefs?.selected_niches || []
   } catch (error) {
-    console.warn("Could not fetch user niches for RSS topic assignment", {
+    console.warn("Could not fetch user niches for feed topic assignment", {
       userId,
       error: error instanceof Error ? error.message : String(error),
     })
   }
 
-  // Process each RSS item
+  // Process each item
   const allTopicsToInsert: any[] = []
+  const newDocuments: Array<{ item: ScrapedContent; contentHash: string }> = []
   let itemsProcessed = 0
   let itemsSkipped = 0
 
-  for (const item of feedItems) {
+  for (const item of items) {
     // Check for content hash duplicate for this item
     const contentHash = generateContentHash(
       item.title || "",
@@ -305,6 +423,8 @@ async function handleRssFeedScrape(
       continue
     }
 
+    newDocuments.push({ item, contentHash })
+
     // Extract topics from this item
     const extractedTopics = await extractTopicsFromContent(
       [item],
@@ -363,28 +483,18 @@ async function handleRssFeedScrape(
     itemsProcessed++
   }
 
+  // Keep the full text of every new item, including those that yielded no topics this time
+  await storeScrapedDocuments(userId, { sourceId }, newDocuments)
+
   if (allTopicsToInsert.length === 0) {
-    console.log(`No new topics from RSS feed ${sourceId}`, {
+    console.log(`No new topics from source ${sourceId}`, {
       sourceId,
-      itemsCount: feedItems.length,
+      itemsCount: items.length,
       itemsSkipped,
       timestamp: new Date().toISOString(),
     })
 
-    // Update last_scraped_at
-    await supabase
-      .from("custom_sources")
-      .update({ last_scraped_at: new Date().toISOString() })
-      .eq("id", sourceId)
-      .eq("user_id", userId)
-
-    return {
-      scrape_triggered: true,
-      topics_found: 0,
-      scrape_successful: true,
-      items_processed: itemsProcessed,
-      items_skipped: itemsSkipped,
-    }
+    return { topicsFound: 0, itemsProcessed, itemsSkipped }
   }
 
   // Insert all topics
@@ -394,7 +504,7 @@ async function handleRssFeedScrape(
     .select()
 
   if (insertError) {
-    console.error(`Failed to insert RSS topics for source ${sourceId}`, {
+    console.error(`Failed to insert topics for source ${sourceId}`, {
       sourceId,
       error: insertError.message,
       topicsCount: allTopicsToInsert.length,
@@ -402,42 +512,26 @@ async function handleRssFeedScrape(
     })
     throw new ApiError(
       "INSERT_ERROR",
-      "Failed to store extracted topics from RSS feed",
+      "Failed to store extracted topics",
       500,
       insertError
     )
   }
 
-  // Update last_scraped_at
-  await supabase
-    .from("custom_sources")
-    .update({ last_scraped_at: new Date().toISOString() })
-    .eq("id", sourceId)
-    .eq("user_id", userId)
-
-  console.log(`Successfully processed RSS feed ${sourceId}`, {
-    sourceId,
-    itemsCount: feedItems.length,
-    itemsProcessed,
-    itemsSkipped,
-    topicsCount: insertedTopics.length,
-    timestamp: new Date().toISOString(),
-  })
-
-  return {
-    scrape_triggered: true,
-    topics_found: insertedTopics.length,
-    scrape_successful: true,
-    items_processed: itemsProcessed,
-    items_skipped: itemsSkipped,
-  }
+  return { topicsFound: insertedTopics.length, itemsProcessed, itemsSkipped }
 }
 
 /**
  * Trigger scrape for a custom source
  * Scrapes the URL, extracts topics using Claude, and stores them in trending_topics
+ * Every attempt is recorded in scrape_runs and updates the source's health (see scrape-runs.ts),
+ * except one cancelled through options.signal, which says nothing about the source
  */
-export async function triggerScrape(sourceId: string, userId: string) {
+export async function triggerScrape(
+  sourceId: string,
+  userId: string,
+  options: Pick<FetchScheduleOptions, "signal" | "onProgress"> = {}
+) {
   const supabase = await createClient()
 
   // Verify ownership and get source details
@@ -451,6 +545,9 @@ export async function triggerScrape(sourceId: string, userId: string) {
     )
   }
 
+  // Each scrape run counts as one API call (fetching plus Claude extraction)
+  await consumeUsage(userId, "api_calls")
+
   console.log(`Starting scrape for source: ${source.source_name} (${source.source_url})`, {
     sourceId,
     userId,
@@ -458,307 +555,256 @@ export async function triggerScrape(sourceId: string, userId: string) {
     timestamp: new Date().toISOString(),
   })
 
+  const startedAt = new Date()
+
   try {
-    // Step 1: Check if this is an RSS feed
-    const isRss = source.source_type === "rss" || isRssFeedUrl(source.source_url)
-    
-    if (isRss) {
-      // Handle RSS feed (returns multiple items)
-      return await handleRssFeedScrape(sourceId, userId, source.source_url, supabase)
+    const { http_validators: httpValidators, ...result } = await scrapeCustomSource(source, userId, supabase, options)
+
+    // Only saved after a successful run, so a failed extraction is retried in full rather than hidden by a 304
+    if (httpValidators) {
+      await saveHttpValidators(sourceId, userId, httpValidators, supabase)
     }
 
-    // Step 1: Scrape the URL (regular HTML page)
-    const scrapeResult = await scrapeUrl(source.source_url)
-
-    if (!isScrapedContent(scrapeResult)) {
-      // Scraping failed
-      const errorMessage = isScrapeError(scrapeResult) ? scrapeResult.error : "Unknown scraping error"
-      console.error(`Scraping failed for source ${sourceId}`, {
-        sourceId,
-        url: source.source_url,
-        error: errorMessage,
-        timestamp: new Date().toISOString(),
-      })
+    const health = await recordScrapeRun(sourceId, userId, {
+      status: "success",
+      startedAt,
+      itemsSeen: result.items_seen,
+      itemsSkipped: result.items_skipped,
+      topicsCreated: result.topics_found,
+    })
 
-      // Update last_scraped_at even on failure (to track attempts)
-      await supabase
-        .from("custom_sources")
-        .update({ last_scraped_at: new Date().toISOString() })
-        .eq("id", sourceId)
-        .eq("user_id", userId)
-
-      throw new ApiError(
-        "SCRAPE_FAILED",
-        `Failed to scrape URL: ${errorMessage}`,
-        500
-      )
+    return {
+      ...result,
+      health_status: health?.healthStatus ?? "healthy",
     }
+  } catch (error) {
+    const apiError = error instanceof ApiError ? error : wrapUnexpectedScrapeError(sourceId, error)
 
-    // Step 2: Get user preferences for context
-    let userIndustry: string | undefined
-    let userInterests: string[] | undefined
-
-    try {
-      const { preferences } = await getUserPreferences(userId)
-      if (preferences) {
-        userIndustry = preferences.industry || undefined
-        userInterests = preferences.content_topics.length > 0 ? preferences.content_topics : undefined
-      }
-    } catch (error) {
-      // If preferences don't exist, continue without context
-      console.warn("Could not fetch user preferences for topic extraction", {
-        userId,
-        error: error instanceof Error ? error.message : String(error),
-      })
+    if (apiError.code === "CANCELLED") {
+      throw apiError
     }
 
-    // Step 3: Check for content hash duplicate (early exit if content unchanged)
-    const contentHash = generateContentHash(
-      scrapeResult.title || "",
-      scrapeResult.excerpt || scrapeResult.content.substring(0, 500),
-      scrapeResult.url
-    )
-
-    const isContentDuplicate = await isContentHashDuplicate(
-      contentHash,
-      sourceId,
-      userId,
-      supabase
-    )
+    await recordScrapeRun(sourceId, userId, {
+      status: "failed",
+      startedAt,
+      errorCode: apiError.code,
+      errorMessage: apiError.message,
+    })
 
-    if (isContentDuplicate) {
-      console.log(`Content hash duplicate detected for source ${sourceId}, skipping topic extraction`, {
-        sourceId,
-        url: source.source_url,
-        contentHash,
-        timestamp: new Date().toISOString(),
-      })
+    throw apiError
+  }
+}
 
-      // Update last_scraped_at even if content is duplicate
-      const { data, error } = await supabase
-        .from("custom_sources")
-        .update({ last_scraped_at: new Date().toISOString() })
-        .eq("id", sourceId)
-        .eq("user_id", userId)
-        .select()
-        .single()
-
-      if (error) {
-        throw new ApiError(
-          "UPDATE_ERROR",
-          "Failed to update last_scraped_at",
-          500,
-          error
-        )
-      }
-
-      return {
-        ...data,
-        scrape_triggered: true,
-        topics_found: 0,
-        scrape_successful: true,
-        skipped_duplicate: true,
-      }
-    }
+/**
+ * Remember a source's ETag / Last-Modified for the next conditional fetch
+ */
+async function saveHttpValidators(
+  sourceId: string,
+  userId: string,
+  validators: HttpValidators,
+  supabase: Awaited<ReturnType<typeof createClient>>
+) {
+  const { error } = await supabase
+    .from("custom_sources")
+    .update({
+      http_etag: validators.etag,
+      http_last_modified: validators.lastModified,
+    })
+    .eq("id", sourceId)
+    .eq("user_id", userId)
 
-    // Step 4: Extract topics from scraped content
-    const extractedTopics = await extractTopicsFromContent(
-      [scrapeResult],
-      userIndustry,
-      userInterests
-    )
+  if (error) {
+    // Not fatal - the next scrape just downloads the full body again
+    console.error(`Failed to save HTTP validators for source ${sourceId}`, {
+      sourceId,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
 
-    if (extractedTopics.length === 0) {
-      console.warn(`No topics extracted from source ${sourceId}`, {
-        sourceId,
-        url: source.source_url,
-        timestamp: new Date().toISOString(),
-      })
+/**
+ * Build the ApiError for a scrape that came back as a ScrapeError
+ * Keeps the scraper's error code (e.g. ROBOTS_DISALLOWED) so run history and the sources page can
+ * explain failures that retrying won't fix
+ */
+function scrapeFailedError(message: string, result: ScrapeResult): ApiError {
+  if (isScrapeError(result) && result.code) {
+    return new ApiError(result.code, message, 400)
+  }
+  return new ApiError("SCRAPE_FAILED", message, 500)
+}
 
-      // Update last_scraped_at even if no topics found
-      const { data, error } = await supabase
-        .from("custom_sources")
-        .update({ last_scraped_at: new Date().toISOString() })
-        .eq("id", sourceId)
-        .eq("user_id", userId)
-        .select()
-        .single()
-
-      if (error) {
-        throw new ApiError(
-          "UPDATE_ERROR",
-          "Failed to update last_scraped_at",
-          500,
-          error
-        )
-      }
-
-      return {
-        ...data,
-        scrape_triggered: true,
-        topics_found: 0,
-        scrape_successful: true,
-      }
-    }
+/**
+ * Wrap a non-ApiError thrown while scraping
+ */
+function wrapUnexpectedScrapeError(sourceId: string, error: unknown): ApiError {
+  console.error(`Unexpected error during scrape for source ${sourceId}`, {
+    sourceId,
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    timestamp: new Date().toISOString(),
+  })
 
-    // Step 5: Filter out duplicate topics (check against database)
-    const uniqueTopics = await filterDuplicateTopics(
-      extractedTopics,
-      userId,
-      supabase
-    )
+  return new ApiError(
+    "SCRAPE_ERROR",
+    "An unexpected error occurred during scraping",
+    500,
+    error
+  )
+}
 
-    if (uniqueTopics.length === 0) {
-      console.log(`All topics are duplicates for source ${sourceId}, skipping insert`, {
-        sourceId,
-        url: source.source_url,
-        originalCount: extractedTopics.length,
-        timestamp: new Date().toISOString(),
-      })
+/**
+ * Scrape a custom source through its adapter and store the extracted topics
+ * Throws ApiError on failure; triggerScrape records the attempt either way
+ */
+async function scrapeCustomSource(
+  source: CustomSource,
+  userId: string,
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  options: Pick<FetchScheduleOptions, "signal" | "onProgress">
+): Promise<{
+  scrape_triggered: boolean
+  topics_found: number
+  scrape_successful: boolean
+  items_seen: number
+  items_processed: number
+  items_skipped: number
+  items_filtered: number
+  not_modified?: boolean
+  http_validators: HttpValidators | null
+  adapter: string
+}> {
+  const sourceId = source.id
+  const validators: HttpValidators | null = source.http_etag || source.http_last_modified
+    ? { etag: source.http_etag, lastModified: source.http_last_modified }
+    : null
+
+  // Adapters that only fetch what's new (e.g. sitemaps) pick up from the last successful run
+  const { data: lastRun } = await supabase
+    .from("scrape_runs")
+    .select("started_at")
+    .eq("source_id", sourceId)
+    .eq("status", "success")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const adapter = resolveSourceAdapter({ url: source.source_url, sourceType: source.source_type })
+
+  console.log(`Scraping ${adapter.name}: ${source.source_url}`, {
+    sourceId,
+    userId,
+    adapter: adapter.id,
+    timestamp: new Date().toISOString(),
+  })
 
-      // Update last_scraped_at even if all topics are duplicates
-      const { data, error } = await supabase
-        .from("custom_sources")
-        .update({ last_scraped_at: new Date().toISOString() })
-        .eq("id", sourceId)
-        .eq("user_id", userId)
-        .select()
-        .single()
-
-      if (error) {
-        throw new ApiError(
-          "UPDATE_ERROR",
-          "Failed to update last_scraped_at",
-          500,
-          error
-        )
-      }
-
-      return {
-        ...data,
-        scrape_triggered: true,
-        topics_found: 0,
-        scrape_successful: true,
-        skipped_duplicates: true,
-      }
-    }
+  const result = await fetchSourceContent(
+    {
+      url: source.source_url,
+      sourceType: source.source_type,
+      config: source.adapter_config,
+      userId,
+      validators,
+      since: lastRun?.started_at ? new Date(lastRun.started_at) : null,
+      signal: options.signal,
+      onProgress: options.onProgress,
+    },
+    adapter
+  )
+
+  // A partial fetch (e.g. some of a sitemap's pages) isn't worth extracting once the caller has gone
+  if (options.signal?.aborted) {
+    throw new ApiError("CANCELLED", "Scrape was cancelled", 400)
+  }
 
-    // Step 6: Get user's selected niches to assign to topics
-    let selectedNiches: string[] = []
-    try {
-      const { data: prefs } = await supabase
-        .from("user_preferences")
-        .select("selected_niches")
-        .eq("user_id", userId)
-        .single()
-      
-      selectedNiches = prefs?.selected_niches || []
-    } catch (error) {
-      console.warn("Could not fetch user niches for topic assignment", {
-        userId,
-        error: error instanceof Error ? error.message : String(error),
-      })
-    }
+  // Update last_scraped_at whether or not anything was fetched
+  await supabase
+    .from("custom_sources")
+    .update({ last_scraped_at: new Date().toISOString() })
+    .eq("id", sourceId)
+    .eq("user_id", userId)
 
-    // Step 7: Store topics in trending_topics table with niche_id
-    const topicsToInsert = uniqueTopics.map((topic) => {
-      // Assign niche_id: use first selected niche, or null if none selected
-      const nicheId = selectedNiches.length > 0 ? selectedNiches[0] : null
-      
-      return {
-        user_id: userId,
-        source_id: sourceId,
-        source_type: "custom_link" as const,
-        niche_id: nicheId,
-        title: topic.title,
-        description: topic.description,
-        content_snippet: scrapeResult.excerpt || scrapeResult.content.substring(0, 500),
-        source_url: scrapeResult.url,
-        trend_score: topic.trendingScore,
-        metadata: {
-          category: topic.category,
-          relevance: topic.relevance,
-          scrapedAt: scrapeResult.scrapedAt.toISOString(),
-          scrapedTitle: scrapeResult.title,
-          scrapedAuthor: scrapeResult.author,
-          scrapedPublishDate: scrapeResult.publishDate?.toISOString(),
-          openGraphTitle: scrapeResult.metadata.openGraphTitle,
-          openGraphDescription: scrapeResult.metadata.openGraphDescription,
-          openGraphImage: scrapeResult.metadata.openGraphImage,
-          content_hash: contentHash,
-        },
-      }
+  // Unchanged since the last successful scrape - nothing to parse or extract
+  if (result.status === "not_modified") {
+    console.log(`Source ${sourceId} not modified since last scrape, skipping extraction`, {
+      sourceId,
+      url: source.source_url,
+      timestamp: new Date().toISOString(),
     })
 
-    const { data: insertedTopics, error: insertError } = await supabase
-      .from("trending_topics")
-      .insert(topicsToInsert)
-      .select()
-
-    if (insertError) {
-      console.error(`Failed to insert topics for source ${sourceId}`, {
-        sourceId,
-        error: insertError.message,
-        topicsCount: topicsToInsert.length,
-        timestamp: new Date().toISOString(),
-      })
-      throw new ApiError(
-        "INSERT_ERROR",
-        "Failed to store extracted topics",
-        500,
-        insertError
-      )
-    }
-
-    // Step 8: Update last_scraped_at on custom_sources
-    const { data: updatedSource, error: updateError } = await supabase
-      .from("custom_sources")
-      .update({ last_scraped_at: new Date().toISOString() })
-      .eq("id", sourceId)
-      .eq("user_id", userId)
-      .select()
-      .single()
-
-    if (updateError) {
-      // Log error but don't fail - topics were already inserted
-      console.error(`Failed to update last_scraped_at for source ${sourceId}`, {
-        sourceId,
-        error: updateError.message,
-        timestamp: new Date().toISOString(),
-      })
+    return {
+      scrape_triggered: true,
+      topics_found: 0,
+      scrape_successful: true,
+      items_seen: 0,
+      items_processed: 0,
+      items_skipped: 0,
+      items_filtered: 0,
+      not_modified: true,
+      http_validators: result.validators,
+      adapter: adapter.id,
     }
+  }
 
-    console.log(`Successfully scraped and stored topics for source ${sourceId}`, {
+  if (result.status === "failed") {
+    console.error(`Scraping failed for source ${sourceId}`, {
       sourceId,
-      topicsCount: insertedTopics.length,
+      url: source.source_url,
+      adapter: adapter.id,
+      error: result.error.error,
       timestamp: new Date().toISOString(),
     })
 
+    throw scrapeFailedError(`Failed to scrape ${adapter.name}: ${result.error.error}`, result.error)
+  }
+
+  const httpValidators = result.data[0]?.httpValidators ?? null
+
+  // Drop items the user filtered out before any of them reach Claude
+  const { items, filteredCount } = applyContentFilters(result.data, parseContentFilters(source.content_filters))
+
+  if (items.length === 0) {
     return {
-      ...(updatedSource || source),
       scrape_triggered: true,
-      topics_found: insertedTopics.length,
+      topics_found: 0,
       scrape_successful: true,
+      items_seen: result.data.length,
+      items_processed: 0,
+      items_skipped: filteredCount,
+      items_filtered: filteredCount,
+      http_validators: httpValidators,
+      adapter: adapter.id,
     }
-  } catch (error) {
-    // If it's already an ApiError, re-throw it
-    if (error instanceof ApiError) {
-      throw error
-    }
+  }
 
-    // Otherwise, wrap in ApiError
-    console.error(`Unexpected error during scrape for source ${sourceId}`, {
-      sourceId,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      timestamp: new Date().toISOString(),
-    })
+  const { topicsFound, itemsProcessed, itemsSkipped } = await processScrapedItems(
+    sourceId,
+    userId,
+    items,
+    supabase
+  )
 
-    throw new ApiError(
-      "SCRAPE_ERROR",
-      "An unexpected error occurred during scraping",
-      500,
-      error
-    )
+  console.log(`Successfully processed source ${sourceId}`, {
+    sourceId,
+    adapter: adapter.id,
+    itemsCount: result.data.length,
+    itemsFiltered: filteredCount,
+    itemsProcessed,
+    itemsSkipped,
+    topicsCount: topicsFound,
+    timestamp: new Date().toISOString(),
+  })
+
+  return {
+    scrape_triggered: true,
+    topics_found: topicsFound,
+    scrape_successful: true,
+    items_seen: result.data.length,
+    items_processed: itemsProcessed,
+    items_skipped: itemsSkipped + filteredCount,
+    items_filtered: filteredCount,
+    http_validators: httpValidators,
+    adapter: adapter.id,
   }
 }
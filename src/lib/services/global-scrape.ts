@@ -0,0 +1,321 @@
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import {
+  fetchSourceContent,
+  extractTopicsFromContent,
+  getTopicSourceUrl,
+  filterDuplicateTopics,
+  generateContentHash,
+  isContentHashDuplicate,
+  calculateSimilarity,
+} from "@/lib/scraping"
+import type { ScrapedContent, ExtractedTopic, HttpValidators } from "@/lib/scraping"
+import type { Json, ScrapeFrequency, SourceType } from "@/types/database"
+
+type ScrapeSourceRow = {
+  id: string
+  niche_id: string
+  source_type: SourceType
+  source_url: string
+  source_name: string
+  scrape_frequency: ScrapeFrequency
+  last_scraped_at: string | null
+  http_etag: string | null
+  http_last_modified: string | null
+  adapter_config: Json
+  niche: { name: string; description: string | null } | null
+}
+
+interface GlobalSourceResult {
+  sourceId: string
+  sourceName: string
+  nicheId: string
+  itemsFound: number
+  itemsSkipped: number
+  topicsFound: number
+  error?: string
+}
+
+/**
+ * Minimum time between scrapes for each scrape_frequency
+ */
+const FREQUENCY_INTERVAL_MS: Record<ScrapeFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Check whether a scrape source is due based on scrape_frequency and last_scraped_at
+ * A few minutes of slack keeps an hourly cron from skipping sources scraped at :00:05 last run
+ */
+export function isScrapeSourceDue(
+  source: { scrape_frequency: ScrapeFrequency; last_scraped_at: string | null },
+  now: Date = new Date()
+): boolean {
+  if (!source.last_scraped_at) return true
+
+  const slackMs = 5 * 60 * 1000
+  const interval = FREQUENCY_INTERVAL_MS[source.scrape_frequency] ?? FREQUENCY_INTERVAL_MS.daily
+  const elapsed = now.getTime() - new Date(source.last_scraped_at).getTime()
+
+  return elapsed + slackMs >= interval
+}
+
+/**
+ * Fetch content for a global source through its adapter (resolved from source_type, then the URL)
+ */
+async function fetchGlobalSourceContent(source: ScrapeSourceRow): Promise<ScrapedContent[]> {
+  const validators = source.http_etag || source.http_last_modified
+    ? { etag: source.http_etag, lastModified: source.http_last_modified }
+    : null
+
+  const result = await fetchSourceContent({
+    url: source.source_url,
+    sourceType: source.source_type,
+    config: source.adapter_config,
+    userId: null,
+    validators,
+  })
+
+  if (result.status === "not_modified") {
+    // Unchanged page - nothing new to extract
+    return []
+  }
+  if (result.status === "failed") {
+    throw new Error(result.error.error)
+  }
+  return result.data
+}
+
+/**
+ * Pick the trend_score for a topic
+ * Sources with their own engagement score (e.g. Product Hunt votes) set sourceTrendScore on each item;
+ * when the topic can be traced back to an item that score is used directly instead of Claude's estimate
+ */
+function resolveTrendScore(topic: ExtractedTopic, items: ScrapedContent[]): number {
+  const scoredItems = items.filter((item) => typeof item.metadata.sourceTrendScore === "number")
+  if (scoredItems.length === 0) return topic.trendingScore
+
+  if (items.length === 1) return scoredItems[0].metadata.sourceTrendScore as number
+
+  // Prefer items whose name is mentioned in the topic, then fall back to word overlap
+  const topicText = `${topic.title} ${topic.description}`.toLowerCase()
+  const mentioned = scoredItems.filter((item) => {
+    const name = item.metadata.openGraphTitle?.toLowerCase()
+    return !!name && name.length > 2 && topicText.includes(name)
+  })
+
+  if (mentioned.length > 0) {
+    return Math.max(...mentioned.map((item) => item.metadata.sourceTrendScore as number))
+  }
+
+  let bestItem: ScrapedContent | null = null
+  let bestSimilarity = 0
+  for (const item of scoredItems) {
+    const similarity = calculateSimilarity(topic.title, item.title || "")
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity
+      bestItem = item
+    }
+  }
+
+  return bestItem && bestSimilarity >= 0.2
+    ? (bestItem.metadata.sourceTrendScore as number)
+    : topic.trendingScore
+}
+
+/**
+ * Scrape a single global source and store niche-tagged global topics (user_id IS NULL)
+ */
+async function processGlobalSource(
+  source: ScrapeSourceRow,
+  serviceClient: ReturnType<typeof createServiceRoleClient>
+): Promise<GlobalSourceResult> {
+  const result: GlobalSourceResult = {
+    sourceId: source.id,
+    sourceName: source.source_name,
+    nicheId: source.niche_id,
+    itemsFound: 0,
+    itemsSkipped: 0,
+    topicsFound: 0,
+  }
+
+  console.log(`Scraping global source: ${source.source_name} (${source.source_url})`, {
+    sourceId: source.id,
+    nicheId: source.niche_id,
+    sourceType: source.source_type,
+    timestamp: new Date().toISOString(),
+  })
+
+  let httpValidators: HttpValidators | null = null
+
+  try {
+    const items = await fetchGlobalSourceContent(source)
+    result.itemsFound = items.length
+
+    // Skip items whose content we've already turned into topics recently
+    const newItems: Array<{ item: ScrapedContent; contentHash: string }> = []
+    for (const item of items) {
+      const contentHash = generateContentHash(
+        item.title || "",
+        item.excerpt || item.content.substring(0, 500),
+        item.url
+      )
+
+      const isDuplicate = await isContentHashDuplicate(
+        contentHash,
+        source.id,
+        null,
+        serviceClient
+      )
+
+      if (isDuplicate) {
+        result.itemsSkipped++
+      } else {
+        newItems.push({ item, contentHash })
+      }
+    }
+
+    if (newItems.length > 0) {
+      // Use the niche as extraction context since global topics have no owning user
+      const extractedTopics = await extractTopicsFromContent(
+        newItems.map(({ item }) => item),
+        source.niche?.name || source.niche_id,
+        source.niche?.description ? [source.niche.description] : undefined
+      )
+
+      const uniqueTopics = await filterDuplicateTopics(extractedTopics, null, serviceClient)
+
+      if (uniqueTopics.length > 0) {
+        const topicsToInsert = uniqueTopics.map((topic) => {
+          // The items the topic came from, or the whole batch if Claude's sources don't match any
+          const topicItems = newItems.filter(({ item }) => topic.sourceUrls.includes(item.url))
+          const sourceItems = topicItems.length > 0 ? topicItems : newItems
+          const primary = sourceItems[0]
+
+          return {
+            user_id: null,
+            scrape_source_id: source.id,
+            source_type: "web" as const, // The scrape source type is kept in metadata.scrapeSourceType
+            niche_id: source.niche_id,
+            title: topic.title,
+            description: topic.description,
+            content_snippet: primary.item.excerpt || primary.item.content.substring(0, 500),
+            source_url: getTopicSourceUrl(topic) ?? source.source_url,
+            trend_score: resolveTrendScore(topic, sourceItems.map(({ item }) => item)),
+            metadata: {
+              category: topic.category,
+              relevance: topic.relevance,
+              scrapeSourceName: source.source_name,
+              scrapeSourceType: source.source_type,
+              scrapedAt: primary.item.scrapedAt.toISOString(),
+              itemsProcessed: newItems.length,
+              source_urls: topic.sourceUrls,
+              content_hash: primary.contentHash,
+              content_hashes: newItems.map(({ contentHash }) => contentHash),
+            },
+          }
+        })
+
+        const topicsTable = serviceClient.from("trending_topics") as any
+        const { error: insertError } = await topicsTable.insert(topicsToInsert)
+
+        if (insertError) {
+          throw new Error(`Failed to store global topics: ${insertError.message}`)
+        }
+
+        result.topicsFound = uniqueTopics.length
+      }
+    }
+
+    // Saved only once the items were processed, so a failed run refetches in full next time
+    httpValidators = items[0]?.httpValidators ?? null
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+    console.error(`Failed to scrape global source ${source.id}`, {
+      sourceId: source.id,
+      url: source.source_url,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  // Update last_scraped_at even on failure so a broken source doesn't block the queue every run
+  const sourcesTable = serviceClient.from("scrape_sources") as any
+  await sourcesTable
+    .update({
+      last_scraped_at: new Date().toISOString(),
+      ...(httpValidators
+        ? { http_etag: httpValidators.etag, http_last_modified: httpValidators.lastModified }
+        : {}),
+    })
+    .eq("id", source.id)
+
+  return result
+}
+
+/**
+ * Scrape all global niche sources that are due
+ * This is the main function called by the global scrape cron job
+ *
+ * @param maxSources - Cap on sources processed per run to stay within serverless time limits
+ */
+export async function processDueScrapeSources(maxSources: number = 10): Promise<{
+  sourcesDue: number
+  sourcesScraped: number
+  totalTopicsFound: number
+  results: GlobalSourceResult[]
+  errors: string[]
+}> {
+  const serviceClient = createServiceRoleClient()
+  const errors: string[] = []
+  const results: GlobalSourceResult[] = []
+
+  const { data, error } = await serviceClient
+    .from("scrape_sources")
+    .select("id, niche_id, source_type, source_url, source_name, scrape_frequency, last_scraped_at, http_etag, http_last_modified, adapter_config, niche:niches(name, description)")
+    .eq("is_active", true)
+    .order("last_scraped_at", { ascending: true, nullsFirst: true })
+
+  if (error) {
+    errors.push(`Failed to fetch scrape sources: ${error.message}`)
+    return { sourcesDue: 0, sourcesScraped: 0, totalTopicsFound: 0, results, errors }
+  }
+
+  const now = new Date()
+  const dueSources = ((data || []) as ScrapeSourceRow[]).filter((source) =>
+    isScrapeSourceDue(source, now)
+  )
+  const batch = dueSources.slice(0, maxSources)
+
+  console.log(`Starting global scrape: ${batch.length} of ${dueSources.length} due sources`, {
+    timestamp: new Date().toISOString(),
+  })
+
+  let totalTopicsFound = 0
+
+  for (const source of batch) {
+    const sourceResult = await processGlobalSource(source, serviceClient)
+    results.push(sourceResult)
+    totalTopicsFound += sourceResult.topicsFound
+
+    if (sourceResult.error) {
+      errors.push(`Source ${source.source_name}: ${sourceResult.error}`)
+    }
+  }
+
+  console.log(`Completed global scrape`, {
+    sourcesScraped: batch.length,
+    totalTopicsFound,
+    errors: errors.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return {
+    sourcesDue: dueSources.length,
+    sourcesScraped: batch.length,
+    totalTopicsFound,
+    results,
+    errors,
+  }
+}
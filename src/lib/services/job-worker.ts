@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto"
+import { ApiError } from "@/lib/api/auth"
+import type { Job, JobType, Json } from "@/types/database"
+import {
+  claimJobs,
+  completeJob,
+  deferJob,
+  failJob,
+  JobDeferredError,
+} from "./jobs"
+import {
+  runScrapeSourceJob,
+  runProcessNewsletterJob,
+  runAutoGenerateJob,
+} from "./morning-scrape"
+import { runReextractTopicsJob } from "./scraped-documents"
+
+type JobHandler = (job: Job) => Promise<Json>
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  scrape_source: runScrapeSourceJob,
+  process_newsletter: runProcessNewsletterJob,
+  auto_generate: runAutoGenerateJob,
+  reextract_topics: runReextractTopicsJob,
+}
+
+type JobOutcome = "completed" | "retried" | "dead" | "deferred"
+
+interface DrainOptions {
+  batchSize?: number // Jobs claimed (and run concurrently) per batch
+  maxJobs?: number // Cap on jobs claimed per drain
+  timeBudgetMs?: number // Stop claiming new batches after this long
+  leaseSeconds?: number // Must comfortably exceed the slowest job
+}
+
+/**
+ * Client errors (bad input, missing source, quota exceeded) won't succeed on retry;
+ * server errors, rate limits and unknown failures are retried
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return error.statusCode >= 500 || error.statusCode === 429
+  }
+  return true
+}
+
+/**
+ * Run one claimed job and record the outcome
+ */
+async function runJob(job: Job, workerId: string): Promise<JobOutcome> {
+  const handler = JOB_HANDLERS[job.job_type]
+
+  try {
+    if (!handler) {
+      throw new ApiError("INVALID_JOB", `Unknown job type: ${job.job_type}`, 400)
+    }
+
+    const result = await handler(job)
+    await completeJob(job, workerId, result)
+    return "completed"
+  } catch (error) {
+    if (error instanceof JobDeferredError) {
+      await deferJob(job, workerId, error.delaySeconds)
+      return "deferred"
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const status = await failJob(job, workerId, errorMessage, isRetryableError(error))
+
+    console.error(`Job ${job.id} (${job.job_type}) failed`, {
+      jobId: job.id,
+      userId: job.user_id,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+      status,
+      error: errorMessage,
+      timestamp: new Date().toISOString(),
+    })
+
+    return status === "dead" ? "dead" : "retried"
+  }
+}
+
+/**
+ * Drain the job queue in bounded batches
+ * This is the main function called by the job worker cron route
+ */
+export async function drainJobQueue(options: DrainOptions = {}): Promise<{
+  workerId: string
+  claimed: number
+  completed: number
+  retried: number
+  dead: number
+  deferred: number
+  errors: string[]
+}> {
+  const {
+    batchSize = 5,
+    maxJobs = 25,
+    timeBudgetMs = 45_000,
+    leaseSeconds = 300,
+  } = options
+
+  const workerId = `worker-${randomUUID()}`
+  const startTime = Date.now()
+  const errors: string[] = []
+  const totals = { claimed: 0, completed: 0, retried: 0, dead: 0, deferred: 0 }
+
+  while (totals.claimed < maxJobs && Date.now() - startTime < timeBudgetMs) {
+    let batch: Job[]
+    try {
+      batch = await claimJobs(workerId, Math.min(batchSize, maxJobs - totals.claimed), leaseSeconds)
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error))
+      break
+    }
+
+    if (batch.length === 0) {
+      break
+    }
+
+    totals.claimed += batch.length
+
+    const outcomes = await Promise.allSettled(batch.map((job) => runJob(job, workerId)))
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === "fulfilled") {
+        totals[outcome.value]++
+      } else {
+        // Recording the outcome failed; the lease will expire and the job will be reclaimed
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+        errors.push(`Job ${batch[index].id}: ${reason}`)
+      }
+    })
+  }
+
+  console.log(`Job worker finished`, {
+    workerId,
+    ...totals,
+    errors: errors.length,
+    duration: `${Date.now() - startTime}ms`,
+    timestamp: new Date().toISOString(),
+  })
+
+  return { workerId, ...totals, errors }
+}
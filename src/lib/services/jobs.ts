@@ -0,0 +1,162 @@
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import type { Job, JobType, Json } from "@/types/database"
+
+export interface EnqueueJobInput {
+  jobType: JobType
+  userId?: string | null
+  payload?: Record<string, Json>
+  runAt?: Date
+  maxAttempts?: number
+  dedupeKey?: string
+}
+
+/**
+ * Thrown by a job handler when the job can't run yet (e.g. it is waiting on other jobs)
+ * The job goes back to pending after `delaySeconds` without using up an attempt
+ */
+export class JobDeferredError extends Error {
+  constructor(message: string, public delaySeconds: number = 60) {
+    super(message)
+    this.name = "JobDeferredError"
+  }
+}
+
+/**
+ * Exponential backoff with jitter: ~1m, 2m, 4m, 8m... capped at 1 hour
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const baseSeconds = 60 * Math.pow(2, Math.max(attempts - 1, 0))
+  const jitter = 0.8 + Math.random() * 0.4 // +/- 20% so retries from one batch spread out
+  return Math.round(Math.min(baseSeconds, 60 * 60) * jitter)
+}
+
+/**
+ * Add jobs to the queue
+ * Jobs with a dedupe_key that already exists are skipped, so enqueueing is idempotent
+ *
+ * @returns Number of jobs actually inserted
+ */
+export async function enqueueJobs(jobs: EnqueueJobInput[]): Promise<number> {
+  if (jobs.length === 0) return 0
+
+  const serviceClient = createServiceRoleClient()
+  const jobsTable = serviceClient.from("jobs") as any
+
+  const { data, error } = await jobsTable
+    .upsert(
+      jobs.map((job) => ({
+        job_type: job.jobType,
+        user_id: job.userId ?? null,
+        payload: job.payload ?? {},
+        run_at: (job.runAt ?? new Date()).toISOString(),
+        max_attempts: job.maxAttempts ?? 5,
+        dedupe_key: job.dedupeKey ?? null,
+      })),
+      { onConflict: "dedupe_key", ignoreDuplicates: true }
+    )
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to enqueue jobs: ${error.message}`)
+  }
+
+  return (data as Array<{ id: string }> | null)?.length ?? 0
+}
+
+/**
+ * Claim up to `limit` runnable jobs under a lease (see claim_jobs() in 008_job_queue.sql)
+ */
+export async function claimJobs(
+  workerId: string,
+  limit: number,
+  leaseSeconds: number
+): Promise<Job[]> {
+  const serviceClient = createServiceRoleClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database type does not declare Functions
+  const { data, error } = await (serviceClient as any).rpc("claim_jobs", {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`)
+  }
+
+  return (data || []) as Job[]
+}
+
+/**
+ * Update a job we hold the lease for
+ * Scoped to locked_by so a worker whose lease expired can't overwrite the new owner's state
+ */
+async function updateLeasedJob(
+  job: Job,
+  workerId: string,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const serviceClient = createServiceRoleClient()
+  const jobsTable = serviceClient.from("jobs") as any
+
+  const { error } = await jobsTable
+    .update({ ...updates, locked_by: null, locked_until: null })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+
+  if (error) {
+    throw new Error(`Failed to update job ${job.id}: ${error.message}`)
+  }
+}
+
+/**
+ * Mark a job as completed
+ */
+export async function completeJob(job: Job, workerId: string, result: Json | null = null): Promise<void> {
+  await updateLeasedJob(job, workerId, {
+    status: "completed",
+    result,
+    last_error: null,
+    completed_at: new Date().toISOString(),
+  })
+}
+
+/**
+ * Record a failed attempt
+ * Retryable failures go back to pending with backoff until max_attempts, then to dead
+ *
+ * @returns The job's new status
+ */
+export async function failJob(
+  job: Job,
+  workerId: string,
+  errorMessage: string,
+  retryable: boolean = true
+): Promise<"pending" | "dead"> {
+  if (!retryable || job.attempts >= job.max_attempts) {
+    await updateLeasedJob(job, workerId, {
+      status: "dead",
+      last_error: errorMessage,
+    })
+    return "dead"
+  }
+
+  const runAt = new Date(Date.now() + getRetryDelaySeconds(job.attempts) * 1000)
+  await updateLeasedJob(job, workerId, {
+    status: "pending",
+    last_error: errorMessage,
+    run_at: runAt.toISOString(),
+  })
+  return "pending"
+}
+
+/**
+ * Put a job back to pending without counting the attempt
+ */
+export async function deferJob(job: Job, workerId: string, delaySeconds: number): Promise<void> {
+  await updateLeasedJob(job, workerId, {
+    status: "pending",
+    attempts: Math.max(job.attempts - 1, 0),
+    run_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+  })
+}
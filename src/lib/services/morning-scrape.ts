@@ -3,132 +3,183 @@ import { triggerScrape } from "./custom-sources"
 import { processNewsletterEmails } from "./newsletters"
 import { triggerAutoGeneration } from "./auto-generate"
 import { ApiError } from "@/lib/api/auth"
+import { enqueueJobs, JobDeferredError, type EnqueueJobInput } from "./jobs"
+import type { Job, Json } from "@/types/database"
+import type { FetchProgress } from "@/lib/scraping"
 
-interface MorningScrapeResult {
-  userId: string
-  customSourcesScraped: number
-  newsletterSourcesScraped: number
-  topicsFound: number
-  postsGenerated: number
-  errors: string[]
-}
+/**
+ * Payload shared by all morning-scrape jobs; runId ties a user's jobs to their morning_scrape_runs row
+ */
+type MorningJobPayload = { runId: string; sourceId?: string }
 
 /**
- * Process morning scraping and generation for a single user
+ * Delay before a run's auto_generate job first becomes claimable, giving its scrape jobs a head start
  */
-async function processUserMorningScrape(userId: string): Promise<MorningScrapeResult> {
-  const serviceClient = createServiceRoleClient()
-  const result: MorningScrapeResult = {
-    userId,
-    customSourcesScraped: 0,
-    newsletterSourcesScraped: 0,
-    topicsFound: 0,
-    postsGenerated: 0,
-    errors: [],
-  }
+const AUTO_GENERATE_DELAY_MS = 2 * 60 * 1000
 
+type UserScheduleRow = { user_id: string; notification_time: string; timezone: string }
+
+/**
+ * Mirrors the user_preferences column defaults for users without a preferences row
+ */
+const DEFAULT_NOTIFICATION_TIME = "06:00:00"
+const DEFAULT_TIMEZONE = "UTC"
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) and minutes past midnight in a timezone
+ * Falls back to UTC if the stored timezone is not a valid IANA name
+ */
+function getLocalDateTime(timezone: string, now: Date): { date: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[]
   try {
-    // Get user's active custom sources
-    const { data: customSources, error: customError } = await serviceClient
-      .from("custom_sources")
-      .select("id, source_name, source_url")
-      .eq("user_id", userId)
-      .eq("is_active", true)
+    parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now)
+  } catch {
+    console.warn(`Invalid timezone "${timezone}", falling back to ${DEFAULT_TIMEZONE}`, {
+      timestamp: new Date().toISOString(),
+    })
+    return getLocalDateTime(DEFAULT_TIMEZONE, now)
+  }
 
-    if (customError) {
-      result.errors.push(`Failed to fetch custom sources: ${customError.message}`)
-    } else if (customSources && customSources.length > 0) {
-      type CustomSourceRow = { id: string; source_name: string; source_url: string }
-      const sources = customSources as CustomSourceRow[]
-      for (const source of sources) {
-        try {
-          // Note: triggerScrape and processNewsletterEmails use createClient() which requires cookies
-          // In cron context, we don't have user cookies, but these functions take userId as parameter
-          // They should still work since they query by userId. If issues occur, we may need to
-          // refactor these functions to accept an optional Supabase client parameter.
-          const scrapeResult = await triggerScrape(source.id, userId)
-          result.customSourcesScraped++
-          if (scrapeResult.topics_found) {
-            result.topicsFound += scrapeResult.topics_found
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error)
-          result.errors.push(`Failed to scrape custom source ${source.source_name}: ${errorMsg}`)
-          console.error(`Failed to scrape custom source ${source.id} for user ${userId}`, error)
-        }
-      }
-    }
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || "00"
 
-    // Get user's active newsletter sources
-    const { data: newsletterSources, error: newsletterError } = await serviceClient
-      .from("newsletter_sources")
-      .select("id, source_name")
-      .eq("user_id", userId)
-      .eq("is_active", true)
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+  }
+}
 
-    if (newsletterError) {
-      result.errors.push(`Failed to fetch newsletter sources: ${newsletterError.message}`)
-    } else if (newsletterSources && newsletterSources.length > 0) {
-      type NewsletterSourceRow = { id: string; source_name: string | null }
-      const sources = newsletterSources as NewsletterSourceRow[]
-      for (const source of sources) {
-        try {
-          const scrapeResult = await processNewsletterEmails(userId, source.id)
-          result.newsletterSourcesScraped++
-          result.topicsFound += scrapeResult.topicsFound
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error)
-          result.errors.push(`Failed to scrape newsletter ${source.source_name}: ${errorMsg}`)
-          console.error(`Failed to scrape newsletter ${source.id} for user ${userId}`, error)
-        }
-      }
-    }
+/**
+ * Check whether a user's local notification_time has arrived today
+ * Returns the local date to claim the run under, or null if it's still too early
+ *
+ * Once the time has passed the user stays due for the rest of their local day,
+ * so a missed or failed cron run is picked up by the next hourly run
+ */
+export function getDueRunDate(
+  schedule: { notification_time: string; timezone: string },
+  now: Date = new Date()
+): string | null {
+  const [hours, minutes] = schedule.notification_time.split(":").map((part) => parseInt(part, 10))
+  const notificationMinutes = (hours || 0) * 60 + (minutes || 0)
+  const local = getLocalDateTime(schedule.timezone, now)
 
-    // Check if user has auto-generation enabled
-    const { data: prefs } = await serviceClient
-      .from("user_preferences")
-      .select("auto_generate_enabled")
-      .eq("user_id", userId)
-      .single()
+  return local.minutes >= notificationMinutes ? local.date : null
+}
 
-    const prefsRow = prefs as { auto_generate_enabled: boolean } | null
-    if (prefsRow?.auto_generate_enabled) {
-      try {
-        const genResult = await triggerAutoGeneration(userId)
-        result.postsGenerated = genResult.postsGenerated
-      } catch (error) {
-        // Don't add to errors if it's just "no topics" - that's expected sometimes
-        if (error instanceof ApiError && error.code !== "NO_TOPICS") {
-          const errorMsg = error.message
-          result.errors.push(`Failed to generate posts: ${errorMsg}`)
-          console.error(`Failed to generate posts for user ${userId}`, error)
-        }
-      }
+/**
+ * Claim today's run for a user by inserting into morning_scrape_runs
+ * The (user_id, run_date) unique constraint makes this safe against overlapping cron runs
+ * Returns the run ID, or null if the user was already processed for this local date
+ */
+async function claimMorningRun(
+  userId: string,
+  runDate: string,
+  timezone: string,
+  serviceClient: ReturnType<typeof createServiceRoleClient>
+): Promise<string | null> {
+  const runsTable = serviceClient.from("morning_scrape_runs") as any
+  const { data, error } = await runsTable
+    .insert({ user_id: userId, run_date: runDate, timezone })
+    .select("id")
+    .single()
+
+  if (error) {
+    // Unique violation - another run already claimed this user for today
+    if (error.code === "23505") {
+      return null
     }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error)
-    result.errors.push(`Unexpected error processing user: ${errorMsg}`)
-    console.error(`Unexpected error processing user ${userId}`, error)
+    throw new Error(`Failed to claim morning run: ${error.message}`)
   }
 
-  return result
+  return (data as { id: string }).id
 }
 
 /**
- * Process morning scraping and generation for all users
- * This is the main function called by the cron job
+ * Enqueue a user's morning jobs: one per active custom source and newsletter source,
+ * plus a final auto_generate job that waits for them and closes out the run
  */
-export async function processAllUsersMorningScrape(): Promise<{
+async function enqueueUserMorningJobs(
+  userId: string,
+  runId: string,
+  now: Date,
+  serviceClient: ReturnType<typeof createServiceRoleClient>
+): Promise<number> {
+  const jobs: EnqueueJobInput[] = []
+
+  const { data: customSources, error: customError } = await serviceClient
+    .from("custom_sources")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+
+  if (customError) {
+    throw new Error(`Failed to fetch custom sources: ${customError.message}`)
+  }
+
+  for (const source of (customSources || []) as Array<{ id: string }>) {
+    jobs.push({
+      jobType: "scrape_source",
+      userId,
+      payload: { runId, sourceId: source.id },
+      dedupeKey: `scrape_source:${runId}:${source.id}`,
+    })
+  }
+
+  const { data: newsletterSources, error: newsletterError } = await serviceClient
+    .from("newsletter_sources")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+
+  if (newsletterError) {
+    throw new Error(`Failed to fetch newsletter sources: ${newsletterError.message}`)
+  }
+
+  for (const source of (newsletterSources || []) as Array<{ id: string }>) {
+    jobs.push({
+      jobType: "process_newsletter",
+      userId,
+      payload: { runId, sourceId: source.id },
+      dedupeKey: `process_newsletter:${runId}:${source.id}`,
+    })
+  }
+
+  jobs.push({
+    jobType: "auto_generate",
+    userId,
+    payload: { runId },
+    runAt: new Date(now.getTime() + AUTO_GENERATE_DELAY_MS),
+    dedupeKey: `auto_generate:${runId}`,
+    // Never retried: a retry would generate (and count) the posts a failed run already made.
+    // Waiting on the scrape jobs defers the job without using up its attempt
+    maxAttempts: 1,
+  })
+
+  return enqueueJobs(jobs)
+}
+
+/**
+ * Enqueue morning jobs for all users whose local notification_time has arrived
+ * This is the main function called by the hourly cron job; the work itself is done by the job worker
+ */
+export async function enqueueMorningScrapeJobs(now: Date = new Date()): Promise<{
   totalUsers: number
-  successfulUsers: number
-  totalTopicsFound: number
-  totalPostsGenerated: number
-  results: MorningScrapeResult[]
+  dueUsers: number
+  usersEnqueued: number
+  jobsEnqueued: number
   errors: string[]
 }> {
   const serviceClient = createServiceRoleClient()
   const allErrors: string[] = []
-  const results: MorningScrapeResult[] = []
 
   try {
     // Get all users who have active sources (custom or newsletter)
@@ -163,54 +214,100 @@ export async function processAllUsersMorningScrape(): Promise<{
     })
 
     const uniqueUserIds = Array.from(userIds)
-    console.log(`Starting morning scrape for ${uniqueUserIds.length} users`, {
-      timestamp: new Date().toISOString(),
-    })
 
-    let totalTopicsFound = 0
-    let totalPostsGenerated = 0
-    let successfulUsers = 0
+    // Load each user's schedule; users without a preferences row get the column defaults
+    const schedules = new Map<string, UserScheduleRow>()
+    if (uniqueUserIds.length > 0) {
+      const { data: prefsRows, error: prefsError } = await serviceClient
+        .from("user_preferences")
+        .select("user_id, notification_time, timezone")
+        .in("user_id", uniqueUserIds)
+
+      if (prefsError) {
+        allErrors.push(`Failed to fetch user schedules: ${prefsError.message}`)
+      }
+
+      ;(prefsRows as UserScheduleRow[] | null)?.forEach((row) => {
+        schedules.set(row.user_id, row)
+      })
+    }
 
-    // Process each user
+    // Users whose local notification_time has arrived, with the local date to claim
+    const dueUsers: Array<{ userId: string; runDate: string; timezone: string }> = []
     for (const userId of uniqueUserIds) {
-      try {
-        const result = await processUserMorningScrape(userId)
-        results.push(result)
-        totalTopicsFound += result.topicsFound
-        totalPostsGenerated += result.postsGenerated
+      const schedule = schedules.get(userId) || {
+        user_id: userId,
+        notification_time: DEFAULT_NOTIFICATION_TIME,
+        timezone: DEFAULT_TIMEZONE,
+      }
+      const runDate = getDueRunDate(schedule, now)
+      if (runDate) {
+        dueUsers.push({ userId, runDate, timezone: schedule.timezone })
+      }
+    }
 
-        if (result.errors.length === 0 || result.topicsFound > 0 || result.postsGenerated > 0) {
-          successfulUsers++
-        }
+    // Skip users already processed for their local date without hitting the unique constraint
+    const completedRuns = new Set<string>()
+    if (dueUsers.length > 0) {
+      // Local dates span at most UTC-1 day to UTC+1 day
+      const earliestDate = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().substring(0, 10)
+      const { data: runs } = await serviceClient
+        .from("morning_scrape_runs")
+        .select("user_id, run_date")
+        .in("user_id", dueUsers.map((user) => user.userId))
+        .gte("run_date", earliestDate)
 
-        // Add user-specific errors to all errors
-        if (result.errors.length > 0) {
-          allErrors.push(`User ${userId}: ${result.errors.join("; ")}`)
+      ;(runs as Array<{ user_id: string; run_date: string }> | null)?.forEach((run) => {
+        completedRuns.add(`${run.user_id}:${run.run_date}`)
+      })
+    }
+
+    const pendingUsers = dueUsers.filter(
+      (user) => !completedRuns.has(`${user.userId}:${user.runDate}`)
+    )
+
+    console.log(`Enqueueing morning scrape for ${pendingUsers.length} of ${uniqueUserIds.length} users`, {
+      dueUsers: dueUsers.length,
+      timestamp: new Date().toISOString(),
+    })
+
+    let usersEnqueued = 0
+    let jobsEnqueued = 0
+
+    for (const { userId, runDate, timezone } of pendingUsers) {
+      let runId: string | null = null
+      try {
+        runId = await claimMorningRun(userId, runDate, timezone, serviceClient)
+        if (!runId) {
+          continue
         }
 
-        // Small delay between users to avoid rate limits
-        await new Promise((resolve) => setTimeout(resolve, 1000))
+        jobsEnqueued += await enqueueUserMorningJobs(userId, runId, now, serviceClient)
+        usersEnqueued++
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error)
-        allErrors.push(`Failed to process user ${userId}: ${errorMsg}`)
-        console.error(`Failed to process user ${userId}`, error)
+        allErrors.push(`Failed to enqueue jobs for user ${userId}: ${errorMsg}`)
+        console.error(`Failed to enqueue morning jobs for user ${userId}`, error)
+
+        // Release the claim so the next hourly run can retry this user
+        if (runId) {
+          await serviceClient.from("morning_scrape_runs").delete().eq("id", runId)
+        }
       }
     }
 
-    console.log(`Completed morning scrape`, {
+    console.log(`Enqueued morning scrape jobs`, {
       totalUsers: uniqueUserIds.length,
-      successfulUsers,
-      totalTopicsFound,
-      totalPostsGenerated,
+      usersEnqueued,
+      jobsEnqueued,
       timestamp: new Date().toISOString(),
     })
 
     return {
       totalUsers: uniqueUserIds.length,
-      successfulUsers,
-      totalTopicsFound,
-      totalPostsGenerated,
-      results,
+      dueUsers: pendingUsers.length,
+      usersEnqueued,
+      jobsEnqueued,
       errors: allErrors,
     }
   } catch (error) {
@@ -220,11 +317,143 @@ export async function processAllUsersMorningScrape(): Promise<{
 
     return {
       totalUsers: 0,
-      successfulUsers: 0,
-      totalTopicsFound: 0,
-      totalPostsGenerated: 0,
-      results,
+      dueUsers: 0,
+      usersEnqueued: 0,
+      jobsEnqueued: 0,
       errors: allErrors,
     }
   }
 }
+
+/**
+ * Read the morning job payload, validating the fields a handler needs
+ */
+function getMorningJobPayload(job: Job, requireSource: boolean): MorningJobPayload & { userId: string } {
+  const payload = (job.payload || {}) as Partial<MorningJobPayload>
+
+  if (!job.user_id || !payload.runId || (requireSource && !payload.sourceId)) {
+    throw new ApiError("INVALID_JOB", `Job ${job.id} is missing user_id, runId or sourceId`, 400)
+  }
+
+  return { userId: job.user_id, runId: payload.runId, sourceId: payload.sourceId }
+}
+
+/**
+ * Log each fetch a job makes, so slow multi-page sources show where the time goes
+ */
+function logJobProgress(job: Job) {
+  return ({ completed, total, result }: FetchProgress) => {
+    console.log(`Job ${job.id} fetched ${completed}/${total}`, {
+      jobId: job.id,
+      url: result.url,
+      status: result.status,
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
+
+/**
+ * Job handler: scrape one custom source
+ */
+export async function runScrapeSourceJob(job: Job): Promise<Json> {
+  const { userId, sourceId } = getMorningJobPayload(job, true)
+
+  // Note: triggerScrape uses createClient() which requires cookies. In the worker context there are
+  // no user cookies, but it takes userId as a parameter and queries by userId.
+  const scrapeResult = await triggerScrape(sourceId as string, userId, { onProgress: logJobProgress(job) })
+
+  return { topicsFound: scrapeResult.topics_found || 0 }
+}
+
+/**
+ * Job handler: process new emails from one newsletter source
+ */
+export async function runProcessNewsletterJob(job: Job): Promise<Json> {
+  const { userId, sourceId } = getMorningJobPayload(job, true)
+
+  const scrapeResult = await processNewsletterEmails(userId, sourceId as string, {
+    onProgress: logJobProgress(job),
+  })
+
+  return { topicsFound: scrapeResult.topicsFound }
+}
+
+/**
+ * Job handler: generate posts once the run's scrape jobs have finished, then close out the run
+ * Defers itself while any sibling job is still pending or running; queued with maxAttempts 1, so a
+ * failure is not retried (the posts it already generated would be generated again).
+ * The run is closed even when generation fails, with the failure in its errors
+ */
+export async function runAutoGenerateJob(job: Job): Promise<Json> {
+  const { userId, runId } = getMorningJobPayload(job, false)
+  const serviceClient = createServiceRoleClient()
+
+  const { data: siblings, error: siblingsError } = await serviceClient
+    .from("jobs")
+    .select("id, job_type, status, result, last_error")
+    .eq("payload->>runId", runId)
+    .neq("id", job.id)
+
+  if (siblingsError) {
+    throw new Error(`Failed to fetch sibling jobs: ${siblingsError.message}`)
+  }
+
+  type SiblingRow = Pick<Job, "id" | "job_type" | "status" | "result" | "last_error">
+  const siblingJobs = (siblings || []) as SiblingRow[]
+
+  const unfinished = siblingJobs.filter((sibling) => sibling.status === "pending" || sibling.status === "running")
+  if (unfinished.length > 0) {
+    throw new JobDeferredError(`Waiting on ${unfinished.length} scrape jobs`, 60)
+  }
+
+  const errors: string[] = siblingJobs
+    .filter((sibling) => sibling.status === "dead")
+    .map((sibling) => `${sibling.job_type} failed: ${sibling.last_error || "unknown error"}`)
+
+  const topicsFound = siblingJobs.reduce((total, sibling) => {
+    const result = sibling.result as { topicsFound?: number } | null
+    return total + (result?.topicsFound || 0)
+  }, 0)
+
+  let postsGenerated = 0
+  let generationError: unknown = null
+
+  const { data: prefs } = await serviceClient
+    .from("user_preferences")
+    .select("auto_generate_enabled")
+    .eq("user_id", userId)
+    .single()
+
+  const prefsRow = prefs as { auto_generate_enabled: boolean } | null
+  if (prefsRow?.auto_generate_enabled) {
+    try {
+      const genResult = await triggerAutoGeneration(userId)
+      postsGenerated = genResult.postsGenerated
+    } catch (error) {
+      // "No topics" is expected sometimes and isn't an error
+      if (!(error instanceof ApiError && error.code === "NO_TOPICS")) {
+        errors.push(`auto_generate failed: ${error instanceof Error ? error.message : String(error)}`)
+        // An exhausted quota is expected too; anything else still fails the job once the run is closed
+        if (!(error instanceof ApiError && error.code === "QUOTA_EXCEEDED")) {
+          generationError = error
+        }
+      }
+    }
+  }
+
+  const runsTable = serviceClient.from("morning_scrape_runs") as any
+  await runsTable
+    .update({
+      completed_at: new Date().toISOString(),
+      topics_found: topicsFound,
+      posts_generated: postsGenerated,
+      errors,
+    })
+    .eq("id", runId)
+
+  if (generationError) {
+    throw generationError
+  }
+
+  return { topicsFound, postsGenerated }
+}
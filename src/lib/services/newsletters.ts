@@ -1,10 +1,31 @@
+import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
 import { ApiError } from '@/lib/api/auth'
 import { getGmailClient } from './gmail-oauth'
 import { parseEmailContent } from '@/lib/scraping/email-parser'
-import { scrapeUrl, isScrapedContent, filterDuplicateTopics, generateContentHash, isContentHashDuplicate } from '@/lib/scraping'
-import { extractTopicsFromContent } from '@/lib/scraping/topicExtractor'
+import {
+  fetchSourceContent,
+  registerSourceAdapter,
+  filterDuplicateTopics,
+  generateContentHash,
+  isContentHashDuplicate,
+  parseContentFilters,
+  applyContentFilters,
+  evaluateContentFilters,
+  scheduleFetches,
+} from '@/lib/scraping'
+import type { ScrapedContent, SourceAdapter, ContentFilters, FetchScheduleOptions } from '@/lib/scraping'
+import { extractTopicsFromContent, getTopicSourceUrl } from '@/lib/scraping/topicExtractor'
 import { getUserPreferences } from './user-preferences'
+import { consumeUsage } from './usage'
+import { storeScrapedDocuments } from './scraped-documents'
+
+interface NewsletterEmail {
+  subject: string
+  from: string
+  date: Date
+  body: string
+}
 
 /**
  * Fetch recent emails from selected newsletter senders
@@ -12,7 +33,7 @@ import { getUserPreferences } from './user-preferences'
 export async function fetchNewsletterEmails(
   userId: string,
   daysBack: number = 2
-): Promise<Array<{ subject: string; from: string; date: Date; body: string }>> {
+): Promise<NewsletterEmail[]> {
   const supabase = await createClient()
   const gmail = await getGmailClient(userId)
 
@@ -27,7 +48,7 @@ export async function fetchNewsletterEmails(
     return []
   }
 
-  const emails: Array<{ subject: string; from: string; date: Date; body: string }> = []
+  const emails: NewsletterEmail[] = []
   const sinceDate = new Date()
   sinceDate.setDate(sinceDate.getDate() - daysBack)
 
@@ -93,13 +114,61 @@ export async function fetchNewsletterEmails(
   return emails
 }
 
+const newsletterConfig = z
+  .object({
+    daysBack: z.number().int().min(1).max(14).default(2),
+    maxLinksPerEmail: z.number().int().min(0).max(10).default(3), // "Read more" links followed per email
+  })
+  .strict()
+
 /**
- * Process newsletter emails: parse, optionally scrape links, extract topics
+ * Emails from the user's enabled newsletter senders, via Gmail; one item per email
+ * Needs a user's Gmail connection, so it's only used by the newsletter pipeline and never matched by URL
  */
-export async function processNewsletterEmails(userId: string, newsletterSourceId: string) {
+const newsletterAdapter: SourceAdapter<z.infer<typeof newsletterConfig>, NewsletterEmail[]> = {
+  id: 'newsletter',
+  name: 'newsletter',
+  sourceTypes: [],
+  priority: 0,
+  configSchema: newsletterConfig,
+  match: () => false,
+  fetch: async (source) => {
+    if (!source.userId) {
+      throw new ApiError('INVALID_SOURCE', 'Newsletter sources need a user with Gmail connected', 400)
+    }
+
+    const emails = await fetchNewsletterEmails(source.userId, source.config.daysBack)
+
+    // Gmail's after: filter works on whole days; keep only emails inside the window
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() - source.config.daysBack)
+
+    return { status: 'fetched', data: emails.filter(email => email.date >= cutoff) }
+  },
+  normalize: (emails) =>
+    emails.map(email => ({
+      ...parseEmailContent(email.body, email.subject, email.from, email.date),
+      // Hashed from the raw email, as emails have always been, so earlier runs are still recognised
+      contentHash: generateContentHash(email.subject, email.body.substring(0, 500), ''),
+    })),
+}
+
+registerSourceAdapter(newsletterAdapter)
+
+/**
+ * Hash an email the same way its topics record it, so already-processed emails are recognised
+ * Uses the subject and raw body hash the adapter set (see newsletterAdapter.normalize)
+ */
+function getEmailContentHash(content: ScrapedContent): string {
+  return content.contentHash ?? generateContentHash(content.title || '', content.content.substring(0, 500), '')
+}
+
+/**
+ * Get a newsletter source with its sender, checking ownership
+ */
+async function getNewsletterSource(userId: string, newsletterSourceId: string) {
   const supabase = await createClient()
 
-  // Get newsletter source
   const { data: source } = await supabase
     .from('newsletter_sources')
     .select('*, sender:user_newsletter_senders(*)')
@@ -111,29 +180,120 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
     throw new ApiError('NOT_FOUND', 'Newsletter source not found', 404)
   }
 
-  // Fetch emails
-  const emails = await fetchNewsletterEmails(userId, 2)
+  return source
+}
 
-  // Filter to only emails sent within the last 48 hours
-  const fortyEightHoursAgo = new Date()
-  fortyEightHoursAgo.setHours(fortyEightHoursAgo.getHours() - 48)
-  const recentEmails = emails.filter(email => email.date >= fortyEightHoursAgo)
+/**
+ * Fetch a newsletter source's recent emails through the newsletter adapter, as ScrapedContent
+ */
+async function fetchNewsletterSourceItems(
+  userId: string,
+  source: Awaited<ReturnType<typeof getNewsletterSource>>
+): Promise<ScrapedContent[]> {
+  const result = await fetchSourceContent(
+    {
+      url: `mailto:${source.sender?.sender_email ?? ''}`,
+      sourceType: source.source_type,
+      config: source.adapter_config,
+      userId,
+    },
+    newsletterAdapter
+  )
+
+  if (result.status === 'failed') {
+    throw new ApiError(result.error.code ?? 'SCRAPE_FAILED', result.error.error, result.error.code ? 400 : 500)
+  }
+
+  return result.status === 'fetched' ? result.data : []
+}
+
+/**
+ * Update a newsletter source's content filters
+ */
+export async function updateNewsletterSourceFilters(
+  userId: string,
+  newsletterSourceId: string,
+  contentFilters: ContentFilters
+) {
+  const supabase = await createClient()
+
+  // Verify ownership first
+  await getNewsletterSource(userId, newsletterSourceId)
+
+  const { data, error } = await supabase
+    .from('newsletter_sources')
+    .update({ content_filters: contentFilters })
+    .eq('id', newsletterSourceId)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new ApiError('UPDATE_ERROR', 'Failed to update newsletter source', 500, error)
+  }
+
+  return data
+}
+
+/**
+ * Report which of a newsletter source's recent emails would pass the given filters, without extracting topics
+ */
+export async function previewNewsletterFilters(
+  userId: string,
+  newsletterSourceId: string,
+  contentFilters: ContentFilters
+) {
+  const source = await getNewsletterSource(userId, newsletterSourceId)
+  const emails = await fetchNewsletterSourceItems(userId, source)
+
+  return {
+    adapter: newsletterAdapter.id,
+    items: evaluateContentFilters(emails, contentFilters).map(({ item, passed, reason }) => ({
+      url: item.url,
+      title: item.title,
+      excerpt: item.excerpt,
+      content_length: item.content.length,
+      publish_date: item.publishDate?.toISOString() ?? null,
+      passed,
+      reason,
+    })),
+  }
+}
+
+/**
+ * Process newsletter emails: parse, optionally scrape links, extract topics
+ * Links are fetched in parallel across sites (see scheduleFetches); options.signal stops the run
+ * before anything reaches Claude, and options.onProgress reports each link as it finishes
+ */
+export async function processNewsletterEmails(
+  userId: string,
+  newsletterSourceId: string,
+  options: Pick<FetchScheduleOptions, 'signal' | 'onProgress'> = {}
+) {
+  const supabase = await createClient()
+  const source = await getNewsletterSource(userId, newsletterSourceId)
+
+  // Each newsletter run counts as one API call (Gmail, link fetches and Claude extraction)
+  await consumeUsage(userId, 'api_calls')
+
+  const emailContents = await fetchNewsletterSourceItems(userId, source)
+  const newsletterSettings = newsletterConfig.parse(source.adapter_config ?? {})
+
+  // Skip emails whose topics were already extracted
+  const newEmails: ScrapedContent[] = []
+  for (const content of emailContents) {
+    const isDuplicate = await isContentHashDuplicate(getEmailContentHash(content), newsletterSourceId, userId, supabase)
 
-  // Filter out emails with duplicate content hashes
-  const uniqueEmails: typeof emails = []
-  for (const email of recentEmails) {
-    // Generate content hash for this email
-    const contentHash = generateContentHash(email.subject, email.body.substring(0, 500), '')
-    
-    // Check if this content hash already exists
-    const isDuplicate = await isContentHashDuplicate(contentHash, newsletterSourceId, userId, supabase)
-    
     if (!isDuplicate) {
-      uniqueEmails.push(email)
+      newEmails.push(content)
     }
   }
 
-  if (uniqueEmails.length === 0) {
+  // Drop emails the user filtered out before their links are fetched or anything reaches Claude
+  const { items: scrapedContents } = applyContentFilters(newEmails, parseContentFilters(source.content_filters))
+  const contentHashes = scrapedContents.map(getEmailContentHash)
+
+  if (scrapedContents.length === 0) {
     // Update last_scraped_at even if no emails found
     await supabase
       .from('newsletter_sources')
@@ -143,30 +303,44 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
     return { topicsFound: 0, emailsProcessed: 0 }
   }
 
-  // Parse emails into ScrapedContent format
-  const scrapedContents = uniqueEmails.map(email =>
-    parseEmailContent(email.body, email.subject, email.from, email.date)
+  // Optionally scrape "read more" links, each through whichever adapter handles its URL
+  // Only the first few links per email, to avoid too many requests; newsletters often repeat a link
+  const links = [
+    ...new Set(
+      scrapedContents.flatMap((content) =>
+        ((content.metadata.emailLinks as string[] | undefined) ?? []).slice(0, newsletterSettings.maxLinksPerEmail)
+      )
+    ),
+  ]
+
+  const linkResults = await scheduleFetches(
+    links,
+    (link, signal) => fetchSourceContent({ url: link, sourceType: null, userId, signal }),
+    { signal: options.signal, onProgress: options.onProgress }
   )
 
-  // Optionally scrape "read more" links
-  const linkContents: typeof scrapedContents = []
-  for (const content of scrapedContents) {
-    const links = content.metadata.emailLinks as string[] | undefined
-    if (links && links.length > 0) {
-      // Scrape first 3 links (to avoid too many requests)
-      for (const link of links.slice(0, 3)) {
-        try {
-          const scraped = await scrapeUrl(link)
-          if (isScrapedContent(scraped)) {
-            linkContents.push(scraped)
-          }
-        } catch (error) {
-          console.error(`Failed to scrape link ${link}`, error)
-        }
-      }
+  const linkContents: ScrapedContent[] = []
+  for (const result of linkResults) {
+    if (result.status === 'fulfilled' && result.value.status === 'fetched') {
+      linkContents.push(...result.value.data)
+    } else if (result.status === 'rejected') {
+      console.error(`Failed to scrape link ${result.url}`, result.error)
     }
   }
 
+  if (options.signal?.aborted) {
+    throw new ApiError('CANCELLED', 'Newsletter processing was cancelled', 400)
+  }
+
+  // Keep the full text of the emails and linked articles so topics can be re-extracted later
+  await storeScrapedDocuments(userId, { newsletterSourceId }, [
+    ...scrapedContents.map(item => ({ item, contentHash: getEmailContentHash(item) })),
+    ...linkContents.map(item => ({
+      item,
+      contentHash: generateContentHash(item.title || '', item.excerpt || item.content.substring(0, 500), item.url),
+    })),
+  ])
+
   // Combine email content + scraped link content
   const allContent = [...scrapedContents, ...linkContents]
 
@@ -194,7 +368,7 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
       .update({ last_scraped_at: new Date().toISOString() })
       .eq('id', newsletterSourceId)
 
-    return { topicsFound: 0, emailsProcessed: uniqueEmails.length }
+    return { topicsFound: 0, emailsProcessed: scrapedContents.length }
   }
 
   // Filter out duplicate topics (check against database)
@@ -213,18 +387,9 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
       .update({ last_scraped_at: new Date().toISOString() })
       .eq('id', newsletterSourceId)
 
-    return { topicsFound: 0, emailsProcessed: uniqueEmails.length, skippedDuplicates: true }
+    return { topicsFound: 0, emailsProcessed: scrapedContents.length, skippedDuplicates: true }
   }
 
-  // Generate content hash from first email (for tracking)
-  const contentHash = scrapedContents.length > 0
-    ? generateContentHash(
-        scrapedContents[0].title || '',
-        scrapedContents[0].excerpt || scrapedContents[0].content.substring(0, 500),
-        ''
-      )
-    : null
-
   // Get user's selected niches to assign to topics
   let selectedNiches: string[] = []
   try {
@@ -246,7 +411,10 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
   const topicsToInsert = uniqueTopics.map(topic => {
     // Assign niche_id: use first selected niche, or null if none selected
     const nicheId = selectedNiches.length > 0 ? selectedNiches[0] : null
-    
+
+    // The email or linked article the topic came from
+    const sourceItem = allContent.find(item => topic.sourceUrls.includes(item.url)) ?? scrapedContents[0]
+
     return {
       user_id: userId,
       newsletter_source_id: newsletterSourceId,
@@ -254,14 +422,16 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
       niche_id: nicheId,
       title: topic.title,
       description: topic.description,
-      content_snippet: scrapedContents[0]?.excerpt || '',
-      source_url: null, // Emails don't have URLs
+      content_snippet: sourceItem?.excerpt || '',
+      source_url: getTopicSourceUrl(topic), // Null unless the topic came from a linked article
       trend_score: topic.trendingScore,
       metadata: {
         category: topic.category,
         relevance: topic.relevance,
-        emailsProcessed: uniqueEmails.length,
-        content_hash: contentHash,
+        source_urls: topic.sourceUrls,
+        emailsProcessed: scrapedContents.length,
+        content_hash: contentHashes[0],
+        content_hashes: contentHashes,
       },
     }
   })
@@ -280,5 +450,5 @@ export async function processNewsletterEmails(userId: string, newsletterSourceId
     .update({ last_scraped_at: new Date().toISOString() })
     .eq('id', newsletterSourceId)
 
-  return { topicsFound: uniqueTopics.length, emailsProcessed: uniqueEmails.length }
+  return { topicsFound: uniqueTopics.length, emailsProcessed: scrapedContents.length }
 }
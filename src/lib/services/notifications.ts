@@ -0,0 +1,131 @@
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import { sendMail } from "@/lib/email/mailer"
+
+export interface DigestPost {
+  id: string
+  platform: string
+  content: string
+  topicTitle: string | null
+}
+
+/**
+ * Escape text for inclusion in HTML email bodies
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Build the auto-generation digest email (HTML + plain text)
+ */
+function buildDigestEmail(posts: DigestPost[], appUrl: string): {
+  subject: string
+  html: string
+  text: string
+} {
+  const postsUrl = `${appUrl}/posts`
+  const subject = `Your ${posts.length} new post${posts.length === 1 ? "" : "s"} ${posts.length === 1 ? "is" : "are"} ready`
+
+  const textParts = [`PostDraft generated ${posts.length} post${posts.length === 1 ? "" : "s"} for you today.`, ""]
+  const htmlItems: string[] = []
+
+  posts.forEach((post, index) => {
+    const postUrl = `${postsUrl}?highlight=${encodeURIComponent(post.id)}`
+    const preview = post.content.length > 280 ? `${post.content.substring(0, 280).trim()}...` : post.content
+
+    textParts.push(`${index + 1}. ${post.topicTitle || "Custom post"} (${post.platform})`)
+    textParts.push(preview)
+    textParts.push(postUrl)
+    textParts.push("")
+
+    htmlItems.push(`
+      <li style="margin-bottom: 24px;">
+        <p style="margin: 0 0 4px; font-weight: 600; color: #1c1917;">${escapeHtml(post.topicTitle || "Custom post")}
+          <span style="font-weight: 400; color: #78716c;">&middot; ${escapeHtml(post.platform)}</span></p>
+        <p style="margin: 0 0 8px; color: #44403c; white-space: pre-line;">${escapeHtml(preview)}</p>
+        <a href="${escapeHtml(postUrl)}" style="color: #ea580c;">View and edit post</a>
+      </li>`)
+  })
+
+  textParts.push(`See all posts: ${postsUrl}`)
+  textParts.push("")
+  textParts.push(`You can turn off these emails in Settings: ${appUrl}/settings`)
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 600px; margin: 0 auto;">
+      <h1 style="font-size: 20px; color: #1c1917;">Your posts are ready</h1>
+      <p style="color: #44403c;">PostDraft generated ${posts.length} post${posts.length === 1 ? "" : "s"} for you today.</p>
+      <ol style="padding-left: 20px;">${htmlItems.join("")}
+      </ol>
+      <p><a href="${escapeHtml(postsUrl)}" style="color: #ea580c;">See all posts</a></p>
+      <p style="font-size: 12px; color: #a8a29e;">You can turn off these emails in <a href="${escapeHtml(`${appUrl}/settings`)}" style="color: #a8a29e;">Settings</a>.</p>
+    </div>`
+
+  return { subject, html, text: textParts.join("\n") }
+}
+
+/**
+ * Email the user a digest of posts from an auto-generation run and flip notification_sent on the log
+ * Failures are logged rather than thrown so a mail outage never fails the generation run
+ *
+ * @returns Whether the digest was sent
+ */
+export async function sendAutoGenerationDigest(
+  userId: string,
+  logId: string,
+  posts: DigestPost[]
+): Promise<boolean> {
+  if (posts.length === 0) {
+    return false
+  }
+
+  const serviceClient = createServiceRoleClient()
+
+  try {
+    const { data: prefs } = await serviceClient
+      .from("user_preferences")
+      .select("notification_email")
+      .eq("user_id", userId)
+      .single()
+
+    const prefsRow = prefs as { notification_email: boolean } | null
+    if (prefsRow && !prefsRow.notification_email) {
+      return false
+    }
+
+    const { data: userData, error: userError } = await serviceClient.auth.admin.getUserById(userId)
+    const email = userData?.user?.email
+    if (userError || !email) {
+      throw new Error(`No email address for user: ${userError?.message || "missing email"}`)
+    }
+
+    const appUrl = (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "")
+    const { subject, html, text } = buildDigestEmail(posts, appUrl)
+
+    await sendMail({ to: email, subject, html, text })
+
+    const logsTable = serviceClient.from("auto_generation_logs") as any
+    const { error: updateError } = await logsTable
+      .update({ notification_sent: true })
+      .eq("id", logId)
+
+    if (updateError) {
+      throw new Error(`Failed to mark notification sent: ${updateError.message}`)
+    }
+
+    return true
+  } catch (error) {
+    console.error("Failed to send auto-generation digest", {
+      userId,
+      logId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return false
+  }
+}
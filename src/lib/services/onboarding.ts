@@ -1,6 +1,46 @@
+import { z } from "zod"
 import { createClient } from "@/lib/supabase/server"
 import { ApiError } from "@/lib/api/auth"
-import { generateWithClaude } from "@/lib/ai/claude"
+import { generateStructuredWithClaude, type StructuredOutput } from "@/lib/ai/claude"
+
+const voiceAnalysisSchema = z.object({
+  tone: z.string().trim().min(1),
+  style_notes: z.string().trim().min(1),
+  typical_length: z.number().int().min(1),
+  common_phrases: z.array(z.string().trim().min(1)).max(20),
+  prompt_template: z.string().trim().min(1),
+})
+
+/**
+ * The record_voice_analysis tool Claude answers voice analysis with
+ */
+const voiceAnalysisOutput: StructuredOutput<z.infer<typeof voiceAnalysisSchema>> = {
+  toolName: "record_voice_analysis",
+  toolDescription: "Record the analysis of the user's writing voice",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tone: {
+        type: "string",
+        description: "e.g. professional, casual, educational, provocative, inspirational",
+      },
+      style_notes: { type: "string", description: "Writing patterns, structure, voice characteristics" },
+      typical_length: { type: "integer", minimum: 1, description: "Average word count" },
+      common_phrases: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 20,
+        description: "Recurring expressions or patterns",
+      },
+      prompt_template: {
+        type: "string",
+        description: "A prompt template that can be used to generate content in this user's voice",
+      },
+    },
+    required: ["tone", "style_notes", "typical_length", "common_phrases", "prompt_template"],
+  },
+  schema: voiceAnalysisSchema,
+}
 
 /**
  * Update user's selected niches
@@ -135,30 +175,16 @@ Extract:
 4. Common phrases (recurring expressions or patterns)
 5. A prompt template that can be used to generate content in this user's voice
 
-Respond in JSON format with: tone, style_notes, typical_length, common_phrases (array), prompt_template`
+Record the analysis with the record_voice_analysis tool.`
 
   try {
-    const analysisText = await generateWithClaude(
+    const analysis = await generateStructuredWithClaude(
       `Analyze these voice samples:\n\n${samplesText}`,
+      voiceAnalysisOutput,
       systemPrompt,
       2000
     )
 
-    // Parse the JSON response
-    let analysis
-    try {
-      analysis = JSON.parse(analysisText)
-    } catch {
-      // If not valid JSON, extract from text
-      analysis = {
-        tone: analysisText.match(/tone["\s:]+([^,}]+)/i)?.[1]?.trim() || "learned",
-        style_notes: analysisText.substring(0, 500),
-        typical_length: parseInt(analysisText.match(/typical_length["\s:]+(\d+)/i)?.[1] || "280"),
-        common_phrases: [],
-        prompt_template: analysisText,
-      }
-    }
-
     // Upsert voice analysis
     const { data: voiceAnalysis, error: insertError } = await supabase
       .from("voice_analysis")
@@ -168,8 +194,8 @@ Respond in JSON format with: tone, style_notes, typical_length, common_phrases (
           tone: analysis.tone,
           style_notes: analysis.style_notes,
           typical_length: analysis.typical_length,
-          common_phrases: analysis.common_phrases || [],
-          prompt_template: analysis.prompt_template || analysisText,
+          common_phrases: analysis.common_phrases,
+          prompt_template: analysis.prompt_template,
         },
         {
           onConflict: "user_id",
@@ -0,0 +1,315 @@
+import * as cheerio from "cheerio"
+import type { Element } from "domhandler"
+import { createClient } from "@/lib/supabase/server"
+import { ApiError } from "@/lib/api/auth"
+import { getUrlPolicyViolation } from "@/lib/scraping"
+import type { CustomSource } from "@/types/database"
+import { getUserCustomSources } from "./custom-sources"
+import { getRemainingQuota, syncCustomSourcesCount } from "./usage"
+
+// Keeps a single import within one request's time and payload budget
+const MAX_OPML_ENTRIES = 500
+
+// Separator for nested folders in custom_sources.category (see 011_source_categories.sql)
+const CATEGORY_SEPARATOR = " / "
+
+interface OpmlEntry {
+  url: string
+  title: string
+  category: string | null
+  sourceType: "rss" | null // Feeds (xmlUrl) are scraped as RSS; plain links as pages
+}
+
+export type OpmlImportStatus = "created" | "duplicate" | "invalid" | "limit_reached"
+
+export interface OpmlImportResult {
+  url: string
+  title: string
+  category: string | null
+  status: OpmlImportStatus
+  sourceId?: string
+  error?: string
+}
+
+/**
+ * Normalize a URL for duplicate detection (ignores scheme, fragment, "www." and a trailing slash)
+ */
+function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const host = parsed.host.toLowerCase().replace(/^www\./, "")
+    const path = parsed.pathname.replace(/\/+$/, "")
+    return `${host}${path}${parsed.search}`
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
+
+/**
+ * Parse an OPML document into feed/link entries
+ * Outlines with children are folders; each entry's category is the path of folders above it
+ */
+function parseOpml(xml: string): OpmlEntry[] {
+  const $ = cheerio.load(xml, { xml: true })
+
+  if ($("opml").length === 0 || $("opml > body").length === 0) {
+    throw new ApiError("INVALID_OPML", "File is not a valid OPML document", 400)
+  }
+
+  const entries: OpmlEntry[] = []
+
+  const walk = (outlines: cheerio.Cheerio<Element>, folders: string[]) => {
+    outlines.each((_, element) => {
+      const $outline = $(element)
+      const title = ($outline.attr("title") || $outline.attr("text") || "").trim()
+      const xmlUrl = $outline.attr("xmlUrl")?.trim()
+      const linkUrl = $outline.attr("type")?.toLowerCase() === "link" ? $outline.attr("url")?.trim() : undefined
+
+      if (xmlUrl || linkUrl) {
+        entries.push({
+          url: (xmlUrl || linkUrl) as string,
+          title: title || ((xmlUrl || linkUrl) as string),
+          category: folders.length > 0 ? folders.join(CATEGORY_SEPARATOR) : null,
+          sourceType: xmlUrl ? "rss" : null,
+        })
+        return
+      }
+
+      const $children = $outline.children("outline")
+      if ($children.length > 0) {
+        walk($children, title ? [...folders, title] : folders)
+      }
+    })
+  }
+
+  walk($("opml > body").children("outline"), [])
+
+  return entries
+}
+
+/**
+ * Escape a value for use in an XML attribute
+ */
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+interface OpmlFolder {
+  folders: Map<string, OpmlFolder>
+  sources: CustomSource[]
+}
+
+/**
+ * Render an outline for a single source
+ */
+function renderSourceOutline(source: CustomSource, indent: string): string {
+  const name = escapeXmlAttribute(source.source_name)
+  const url = escapeXmlAttribute(source.source_url)
+
+  // RSS sources export as feeds; page sources as links so other readers don't treat them as feeds
+  return source.source_type === "rss"
+    ? `${indent}<outline type="rss" text="${name}" title="${name}" xmlUrl="${url}"/>`
+    : `${indent}<outline type="link" text="${name}" title="${name}" url="${url}"/>`
+}
+
+/**
+ * Render a folder's subfolders and sources, depth-first
+ */
+function renderFolder(folder: OpmlFolder, indent: string): string[] {
+  const lines: string[] = []
+
+  folder.folders.forEach((child, name) => {
+    const escaped = escapeXmlAttribute(name)
+    lines.push(`${indent}<outline text="${escaped}" title="${escaped}">`)
+    lines.push(...renderFolder(child, `${indent}  `))
+    lines.push(`${indent}</outline>`)
+  })
+
+  folder.sources.forEach((source) => {
+    lines.push(renderSourceOutline(source, indent))
+  })
+
+  return lines
+}
+
+/**
+ * Build an OPML 2.0 document, with categories as (nested) folders
+ */
+function buildOpml(sources: CustomSource[]): string {
+  const root: OpmlFolder = { folders: new Map(), sources: [] }
+
+  const sorted = [...sources].sort((a, b) => a.source_name.localeCompare(b.source_name))
+  for (const source of sorted) {
+    const path = (source.category || "")
+      .split(CATEGORY_SEPARATOR)
+      .map((part) => part.trim())
+      .filter(Boolean)
+
+    let folder = root
+    for (const name of path) {
+      if (!folder.folders.has(name)) {
+        folder.folders.set(name, { folders: new Map(), sources: [] })
+      }
+      folder = folder.folders.get(name) as OpmlFolder
+    }
+    folder.sources.push(source)
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>PostDraft sources</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    ...renderFolder(root, "    "),
+    `  </body>`,
+    `</opml>`,
+    ``,
+  ].join("\n")
+}
+
+/**
+ * Import custom sources from an OPML document
+ * Every entry gets a result: created, duplicate (of an existing source or an earlier entry),
+ * invalid (not an http(s) URL, or one that points at a private network), or limit_reached once the plan's custom source limit is used up
+ */
+export async function importOpmlSources(
+  userId: string,
+  opml: string
+): Promise<{ results: OpmlImportResult[]; created: number; skipped: number }> {
+  const entries = parseOpml(opml)
+
+  if (entries.length === 0) {
+    throw new ApiError("INVALID_OPML", "No feeds found in OPML file", 400)
+  }
+
+  if (entries.length > MAX_OPML_ENTRIES) {
+    throw new ApiError(
+      "TOO_MANY_ENTRIES",
+      `OPML file has ${entries.length} feeds; import at most ${MAX_OPML_ENTRIES} at a time`,
+      400
+    )
+  }
+
+  const existingSources = await getUserCustomSources(userId)
+  const seenUrls = new Set(existingSources.map((source: CustomSource) => normalizeSourceUrl(source.source_url)))
+
+  let remaining = await getRemainingQuota(userId, "custom_sources")
+
+  const results: OpmlImportResult[] = []
+  const toInsert: Array<{ result: OpmlImportResult; row: Record<string, unknown> }> = []
+
+  for (const entry of entries) {
+    const result: OpmlImportResult = {
+      url: entry.url,
+      title: entry.title.substring(0, 200),
+      category: entry.category ? entry.category.substring(0, 200) : null,
+      status: "created",
+    }
+    results.push(result)
+
+    let parsed: URL | null = null
+    try {
+      parsed = new URL(entry.url)
+    } catch {
+      // Handled below
+    }
+
+    if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+      result.status = "invalid"
+      result.error = "Invalid source URL"
+      continue
+    }
+
+    const normalizedUrl = normalizeSourceUrl(entry.url)
+    if (seenUrls.has(normalizedUrl)) {
+      result.status = "duplicate"
+      result.error = "Already in your sources or earlier in the file"
+      continue
+    }
+
+    if (remaining !== null && remaining <= 0) {
+      result.status = "limit_reached"
+      result.error = "Custom source limit reached for your plan"
+      continue
+    }
+
+    // Same check as createCustomSource; resolves the host, so it runs only for entries that would be created
+    const violation = await getUrlPolicyViolation(entry.url)
+    if (violation) {
+      result.status = "invalid"
+      result.error = violation
+      continue
+    }
+
+    seenUrls.add(normalizedUrl)
+    if (remaining !== null) remaining--
+
+    toInsert.push({
+      result,
+      row: {
+        user_id: userId,
+        source_url: entry.url,
+        source_name: result.title,
+        source_type: entry.sourceType,
+        category: result.category,
+        is_active: true,
+      },
+    })
+  }
+
+  if (toInsert.length > 0) {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from("custom_sources")
+      .insert(toInsert.map(({ row }) => row))
+      .select("id, source_url")
+
+    if (error) {
+      throw new ApiError(
+        "INSERT_ERROR",
+        "Failed to import custom sources",
+        500,
+        error
+      )
+    }
+
+    // Rows come back in insert order
+    const insertedRows = (data || []) as Array<{ id: string; source_url: string }>
+    insertedRows.forEach((row, index) => {
+      if (toInsert[index]) {
+        toInsert[index].result.sourceId = row.id
+      }
+    })
+
+    await syncCustomSourcesCount(userId)
+  }
+
+  const created = toInsert.length
+
+  console.log(`Imported OPML for user ${userId}`, {
+    userId,
+    entries: entries.length,
+    created,
+    skipped: entries.length - created,
+    timestamp: new Date().toISOString(),
+  })
+
+  return { results, created, skipped: entries.length - created }
+}
+
+/**
+ * Export the user's custom sources as OPML
+ */
+export async function exportOpmlSources(userId: string): Promise<string> {
+  const sources = (await getUserCustomSources(userId)) as CustomSource[]
+  return buildOpml(sources)
+}
@@ -1,7 +1,9 @@
 import { createClient } from "@/lib/supabase/server"
 import { ApiError } from "@/lib/api/auth"
 import { generateWithClaude } from "@/lib/ai/claude"
+import type { GenerationType } from "@/types/database"
 import { getUserContextForGeneration } from "./user-preferences"
+import { consumeUsage, recordUsage } from "./usage"
 
 /**
  * Generate a post from a trending topic
@@ -10,7 +12,8 @@ export async function generatePost(
   userId: string,
   topicId: string | null,
   platform: string,
-  customPrompt?: string
+  customPrompt?: string,
+  generationType: GenerationType = "manual"
 ) {
   if (!process.env.ANTHROPIC_API_KEY) {
     throw new ApiError(
@@ -129,6 +132,10 @@ ALLOWED: Line breaks for structure; dashes for lists (- item); numbers without m
     )
   }
 
+  // Counted before generating so concurrent requests can't overshoot the plan limit
+  const usageMetric = generationType === "auto" ? "auto_generations" : "manual_generations"
+  await consumeUsage(userId, usageMetric)
+
   try {
     const content = await generateWithClaude(userPrompt, systemPrompt, 500)
 
@@ -140,7 +147,7 @@ ALLOWED: Line breaks for structure; dashes for lists (- item); numbers without m
         topic_id: topicId,
         platform: platform as any,
         content,
-        generation_type: "manual",
+        generation_type: generationType,
       })
       .select()
       .single()
@@ -156,6 +163,9 @@ ALLOWED: Line breaks for structure; dashes for lists (- item); numbers without m
 
     return post
   } catch (error) {
+    // Nothing was generated, so give the generation back
+    await recordUsage(userId, usageMetric, -1)
+
     if (error instanceof ApiError) {
       throw error
     }
@@ -0,0 +1,141 @@
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import type { ScrapeRunStatus, SourceHealthStatus } from "@/types/database"
+
+// Consecutive failed runs before a source is reported as failing
+export const FAILING_THRESHOLD = 3
+
+// Consecutive failed runs before a source is deactivated until the user turns it back on
+export const AUTO_PAUSE_THRESHOLD = 5
+
+export interface ScrapeRunOutcome {
+  status: ScrapeRunStatus
+  startedAt: Date
+  itemsSeen?: number
+  itemsSkipped?: number
+  topicsCreated?: number
+  errorCode?: string
+  errorMessage?: string
+}
+
+export interface SourceHealth {
+  healthStatus: SourceHealthStatus
+  consecutiveFailures: number
+  autoPaused: boolean
+}
+
+/**
+ * Map a run of consecutive failures to a health state
+ * One or two failures may be transient (timeouts, a bad deploy upstream); three in a row is a broken source
+ */
+export function getHealthStatus(consecutiveFailures: number): SourceHealthStatus {
+  if (consecutiveFailures <= 0) return "healthy"
+  if (consecutiveFailures < FAILING_THRESHOLD) return "degraded"
+  return "failing"
+}
+
+/**
+ * Record a scrape attempt for a custom source and update the source's health
+ * A failure that reaches AUTO_PAUSE_THRESHOLD deactivates the source
+ * Errors are logged rather than thrown so bookkeeping never masks the scrape's own result
+ *
+ * @returns The source's new health, or null if it could not be recorded
+ */
+export async function recordScrapeRun(
+  sourceId: string,
+  userId: string,
+  outcome: ScrapeRunOutcome
+): Promise<SourceHealth | null> {
+  const finishedAt = new Date()
+
+  try {
+    const serviceClient = createServiceRoleClient()
+
+    const runsTable = serviceClient.from("scrape_runs") as any
+    const { error: runError } = await runsTable.insert({
+      source_id: sourceId,
+      user_id: userId,
+      status: outcome.status,
+      started_at: outcome.startedAt.toISOString(),
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - outcome.startedAt.getTime(),
+      items_seen: outcome.itemsSeen ?? 0,
+      items_skipped: outcome.itemsSkipped ?? 0,
+      topics_created: outcome.topicsCreated ?? 0,
+      error_code: outcome.errorCode ?? null,
+      error_message: outcome.errorMessage ?? null,
+    })
+
+    if (runError) {
+      throw new Error(`Failed to insert scrape run: ${runError.message}`)
+    }
+
+    const { data: sourceData, error: sourceError } = await serviceClient
+      .from("custom_sources")
+      .select("is_active, consecutive_failures")
+      .eq("id", sourceId)
+      .single()
+
+    if (sourceError) {
+      throw new Error(`Failed to fetch source health: ${sourceError.message}`)
+    }
+
+    const source = sourceData as { is_active: boolean; consecutive_failures: number }
+    const sourcesTable = serviceClient.from("custom_sources") as any
+
+    if (outcome.status === "success") {
+      const { error: updateError } = await sourcesTable
+        .update({
+          health_status: "healthy",
+          consecutive_failures: 0,
+          last_success_at: finishedAt.toISOString(),
+          last_error: null,
+          last_error_code: null,
+        })
+        .eq("id", sourceId)
+
+      if (updateError) {
+        throw new Error(`Failed to update source health: ${updateError.message}`)
+      }
+
+      return { healthStatus: "healthy", consecutiveFailures: 0, autoPaused: false }
+    }
+
+    const consecutiveFailures = source.consecutive_failures + 1
+    const healthStatus = getHealthStatus(consecutiveFailures)
+    const autoPaused = source.is_active && consecutiveFailures >= AUTO_PAUSE_THRESHOLD
+
+    const { error: updateError } = await sourcesTable
+      .update({
+        health_status: healthStatus,
+        consecutive_failures: consecutiveFailures,
+        last_error: outcome.errorMessage ?? null,
+        last_error_code: outcome.errorCode ?? null,
+        ...(autoPaused ? { is_active: false, auto_paused_at: finishedAt.toISOString() } : {}),
+      })
+      .eq("id", sourceId)
+
+    if (updateError) {
+      throw new Error(`Failed to update source health: ${updateError.message}`)
+    }
+
+    if (autoPaused) {
+      console.warn(`Paused source ${sourceId} after ${consecutiveFailures} consecutive failures`, {
+        sourceId,
+        userId,
+        lastError: outcome.errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    }
+
+    return { healthStatus, consecutiveFailures, autoPaused }
+  } catch (error) {
+    console.error(`Failed to record scrape run for source ${sourceId}`, {
+      sourceId,
+      userId,
+      status: outcome.status,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return null
+  }
+}
@@ -0,0 +1,311 @@
+import { createClient } from "@/lib/supabase/server"
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import { ApiError } from "@/lib/api/auth"
+import { extractTopicsFromContent, filterDuplicateTopics, getTopicSourceUrl } from "@/lib/scraping"
+import type { ScrapedContent } from "@/lib/scraping"
+import type { Job, Json, ScrapedDocument } from "@/types/database"
+import { assertWithinQuota, consumeUsage } from "./usage"
+import { enqueueJobs } from "./jobs"
+
+// Newest documents re-extracted per run (extracted together, in as few Claude calls as fit)
+export const MAX_REEXTRACT_DOCUMENTS = 50
+
+/**
+ * The source a document was scraped for (exactly one is set)
+ */
+export type DocumentOwner = { sourceId: string } | { newsletterSourceId: string }
+
+/**
+ * Which stored documents to re-extract: one custom source, one newsletter source, or (neither set)
+ * all of the user's documents
+ */
+export interface ReextractScope {
+  sourceId?: string
+  newsletterSourceId?: string
+}
+
+/**
+ * Store scraped items, keyed by content hash, so their topics can be re-extracted later
+ * Called as items go to topic extraction, so last_extracted_at is set to now.
+ * Errors are logged rather than thrown so the store never fails a scrape
+ */
+export async function storeScrapedDocuments(
+  userId: string,
+  owner: DocumentOwner,
+  documents: Array<{ item: ScrapedContent; contentHash: string }>
+): Promise<void> {
+  if (documents.length === 0) return
+
+  // One row per hash; an upsert can't touch the same row twice
+  const byHash = new Map(documents.map((document) => [document.contentHash, document.item]))
+  const now = new Date().toISOString()
+
+  try {
+    const serviceClient = createServiceRoleClient()
+    const documentsTable = serviceClient.from("scraped_documents") as any
+
+    const { error } = await documentsTable.upsert(
+      [...byHash.entries()].map(([contentHash, item]) => ({
+        user_id: userId,
+        source_id: "sourceId" in owner ? owner.sourceId : null,
+        newsletter_source_id: "newsletterSourceId" in owner ? owner.newsletterSourceId : null,
+        content_hash: contentHash,
+        url: item.url,
+        title: item.title,
+        author: item.author,
+        excerpt: item.excerpt,
+        content: item.content,
+        publish_date: item.publishDate?.toISOString() ?? null,
+        metadata: item.metadata,
+        scraped_at: item.scrapedAt.toISOString(),
+        last_extracted_at: now,
+      })),
+      { onConflict: "user_id,content_hash" }
+    )
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  } catch (error) {
+    console.error(`Failed to store scraped documents for user ${userId}`, {
+      userId,
+      ...owner,
+      documents: byHash.size,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
+
+/**
+ * Turn a stored document back into the ScrapedContent topic extraction takes
+ */
+function toScrapedContent(document: ScrapedDocument): ScrapedContent {
+  return {
+    url: document.url,
+    title: document.title,
+    content: document.content,
+    publishDate: document.publish_date ? new Date(document.publish_date) : null,
+    author: document.author,
+    excerpt: document.excerpt,
+    metadata: (document.metadata ?? {}) as ScrapedContent["metadata"],
+    scrapedAt: new Date(document.scraped_at),
+    contentLength: document.content.length,
+  }
+}
+
+/**
+ * Queue a re-extraction of topics from a user's stored documents
+ * Checks the source belongs to the user and that there is something to re-extract; the work itself
+ * runs in the job queue (see runReextractTopicsJob)
+ */
+export async function queueTopicReextraction(
+  userId: string,
+  scope: ReextractScope
+): Promise<{ queued: boolean; documents: number }> {
+  const supabase = await createClient()
+
+  if (scope.sourceId) {
+    const { data: source } = await supabase
+      .from("custom_sources")
+      .select("id")
+      .eq("id", scope.sourceId)
+      .eq("user_id", userId)
+      .maybeSingle()
+
+    if (!source) {
+      throw new ApiError("NOT_FOUND", "Custom source not found", 404)
+    }
+  }
+
+  if (scope.newsletterSourceId) {
+    const { data: source } = await supabase
+      .from("newsletter_sources")
+      .select("id")
+      .eq("id", scope.newsletterSourceId)
+      .eq("user_id", userId)
+      .maybeSingle()
+
+    if (!source) {
+      throw new ApiError("NOT_FOUND", "Newsletter source not found", 404)
+    }
+  }
+
+  let query = supabase
+    .from("scraped_documents")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+
+  if (scope.sourceId) query = query.eq("source_id", scope.sourceId)
+  if (scope.newsletterSourceId) query = query.eq("newsletter_source_id", scope.newsletterSourceId)
+
+  const { count, error } = await query
+
+  if (error) {
+    throw new ApiError("FETCH_ERROR", "Failed to count stored documents", 500, error)
+  }
+
+  if (!count) {
+    throw new ApiError(
+      "NO_DOCUMENTS",
+      "There are no stored documents to re-extract topics from; scrape the source first",
+      400
+    )
+  }
+
+  await assertWithinQuota(userId, "api_calls")
+
+  await enqueueJobs([
+    {
+      jobType: "reextract_topics",
+      userId,
+      payload: {
+        sourceId: scope.sourceId ?? null,
+        newsletterSourceId: scope.newsletterSourceId ?? null,
+      },
+      maxAttempts: 3,
+    },
+  ])
+
+  return { queued: true, documents: Math.min(count, MAX_REEXTRACT_DOCUMENTS) }
+}
+
+/**
+ * Extract topics again from a user's stored documents, newest first, using their current
+ * preferences (industry, interests, niches) and the current extraction prompt
+ * Existing topics stay; only topics that aren't duplicates of them are added
+ */
+export async function reextractTopics(
+  userId: string,
+  scope: ReextractScope
+): Promise<{ documentsProcessed: number; topicsFound: number }> {
+  const serviceClient = createServiceRoleClient()
+
+  // Each re-extraction run counts as one API call, like a scrape
+  await consumeUsage(userId, "api_calls")
+
+  let query = serviceClient
+    .from("scraped_documents")
+    .select("*")
+    .eq("user_id", userId)
+
+  if (scope.sourceId) query = query.eq("source_id", scope.sourceId)
+  if (scope.newsletterSourceId) query = query.eq("newsletter_source_id", scope.newsletterSourceId)
+
+  const { data, error } = await query
+    .order("scraped_at", { ascending: false })
+    .limit(MAX_REEXTRACT_DOCUMENTS)
+
+  if (error) {
+    throw new ApiError("FETCH_ERROR", "Failed to fetch stored documents", 500, error)
+  }
+
+  const documents = (data || []) as ScrapedDocument[]
+
+  // Preferences for context; read with the service role since this runs in the job worker,
+  // where there's no user session for RLS
+  const { data: prefs, error: prefsError } = await serviceClient
+    .from("user_preferences")
+    .select("industry, content_topics, selected_niches")
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (prefsError) {
+    throw new ApiError("FETCH_ERROR", "Failed to fetch user preferences", 500, prefsError)
+  }
+
+  const preferences = prefs as {
+    industry: string | null
+    content_topics: string[] | null
+    selected_niches: string[] | null
+  } | null
+  const userIndustry = preferences?.industry || undefined
+  const userInterests = preferences?.content_topics?.length ? preferences.content_topics : undefined
+  const selectedNiches = preferences?.selected_niches || []
+
+  const nicheId = selectedNiches.length > 0 ? selectedNiches[0] : null
+  const topicsToInsert: any[] = []
+
+  // One extraction over all the documents; the extractor chunks large batches and merges the topics
+  const items = documents.map(toScrapedContent)
+  const extractedTopics = await extractTopicsFromContent(items, userIndustry, userInterests)
+  const uniqueTopics =
+    extractedTopics.length > 0 ? await filterDuplicateTopics(extractedTopics, userId, serviceClient) : []
+
+  for (const topic of uniqueTopics) {
+    const index = Math.max(
+      items.findIndex((item) => topic.sourceUrls.includes(item.url)),
+      0
+    )
+    const document = documents[index]
+    const item = items[index]
+
+    const topicSource = document.source_id
+      ? { source_id: document.source_id, source_type: "custom_link" as const }
+      : { newsletter_source_id: document.newsletter_source_id, source_type: "newsletter" as const }
+
+    topicsToInsert.push({
+      user_id: userId,
+      ...topicSource,
+      niche_id: nicheId,
+      title: topic.title,
+      description: topic.description,
+      content_snippet: item.excerpt || item.content.substring(0, 500),
+      source_url: getTopicSourceUrl(topic), // Emails don't have URLs
+      trend_score: topic.trendingScore,
+      metadata: {
+        category: topic.category,
+        relevance: topic.relevance,
+        scrapedAt: item.scrapedAt.toISOString(),
+        scrapedTitle: item.title,
+        scrapedAuthor: item.author,
+        scrapedPublishDate: item.publishDate?.toISOString(),
+        content_hash: document.content_hash,
+        source_urls: topic.sourceUrls,
+        reextracted: true,
+      },
+    })
+  }
+
+  if (topicsToInsert.length > 0) {
+    const topicsTable = serviceClient.from("trending_topics") as any
+    const { error: insertError } = await topicsTable.insert(topicsToInsert)
+
+    if (insertError) {
+      throw new ApiError("INSERT_ERROR", "Failed to store re-extracted topics", 500, insertError)
+    }
+  }
+
+  if (documents.length > 0) {
+    const documentsTable = serviceClient.from("scraped_documents") as any
+    await documentsTable
+      .update({ last_extracted_at: new Date().toISOString() })
+      .in("id", documents.map((document) => document.id))
+  }
+
+  console.log(`Re-extracted topics for user ${userId}`, {
+    userId,
+    ...scope,
+    documentsProcessed: documents.length,
+    topicsFound: topicsToInsert.length,
+    timestamp: new Date().toISOString(),
+  })
+
+  return { documentsProcessed: documents.length, topicsFound: topicsToInsert.length }
+}
+
+/**
+ * Job handler: re-extract topics from stored documents (queued by queueTopicReextraction)
+ */
+export async function runReextractTopicsJob(job: Job): Promise<Json> {
+  const payload = (job.payload || {}) as { sourceId?: string | null; newsletterSourceId?: string | null }
+
+  if (!job.user_id) {
+    throw new ApiError("INVALID_JOB", `Job ${job.id} is missing user_id`, 400)
+  }
+
+  return reextractTopics(job.user_id, {
+    sourceId: payload.sourceId ?? undefined,
+    newsletterSourceId: payload.newsletterSourceId ?? undefined,
+  })
+}
@@ -0,0 +1,390 @@
+import { createClient } from "@/lib/supabase/server"
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import { ApiError } from "@/lib/api/auth"
+import type { Database, PlanTier } from "@/types/database"
+
+type UsageTrackingInsert = Database["public"]["Tables"]["usage_tracking"]["Insert"]
+
+/**
+ * Usage metrics tracked per billing period in usage_tracking
+ */
+export type UsageMetric =
+  | "manual_generations"
+  | "auto_generations"
+  | "custom_sources"
+  | "api_calls"
+
+export interface UsageLimits {
+  max_manual_generations: number
+  max_auto_generations: number
+  max_custom_sources: number
+  max_api_calls: number
+}
+
+export interface UsageSummary {
+  plan_tier: PlanTier
+  period_start: string
+  period_end: string
+  usage: Record<UsageMetric, number>
+  limits: Record<UsageMetric, number | null> // null = unlimited
+  remaining: Record<UsageMetric, number | null> // null = unlimited
+}
+
+/**
+ * Mirrors the free tier in get_usage_limits(); used when the user
+ * has no subscription row yet
+ */
+const FREE_TIER_LIMITS: UsageLimits = {
+  max_manual_generations: 10,
+  max_auto_generations: 5,
+  max_custom_sources: 3,
+  max_api_calls: 100,
+}
+
+const METRIC_COLUMNS: Record<
+  UsageMetric,
+  { usage: string; limit: keyof UsageLimits; label: string }
+> = {
+  manual_generations: {
+    usage: "manual_generations",
+    limit: "max_manual_generations",
+    label: "manual post generations",
+  },
+  auto_generations: {
+    usage: "auto_generations",
+    limit: "max_auto_generations",
+    label: "auto-generated posts",
+  },
+  custom_sources: {
+    usage: "custom_sources_count",
+    limit: "max_custom_sources",
+    label: "custom sources",
+  },
+  api_calls: {
+    usage: "api_calls_made",
+    limit: "max_api_calls",
+    label: "API calls",
+  },
+}
+
+const ALL_METRICS = Object.keys(METRIC_COLUMNS) as UsageMetric[]
+
+/**
+ * Resolve the user's current billing period
+ * Paid plans follow the Stripe period; free plans reset on the first of each month (UTC).
+ * Uses the service role: usage is also recorded from the cron/job worker, where there's no
+ * user session and RLS would hide the subscription
+ */
+async function getBillingPeriod(userId: string): Promise<{
+  planTier: PlanTier
+  periodStart: string
+  periodEnd: string
+}> {
+  const serviceClient = createServiceRoleClient()
+
+  const { data } = await serviceClient
+    .from("subscriptions")
+    .select("plan_tier, current_period_start, current_period_end")
+    .eq("user_id", userId)
+    .single()
+
+  const subscription = data as {
+    plan_tier: PlanTier
+    current_period_start: string | null
+    current_period_end: string | null
+  } | null
+
+  const planTier: PlanTier = subscription?.plan_tier || "free"
+  const now = new Date()
+
+  if (
+    subscription?.current_period_start &&
+    subscription?.current_period_end &&
+    new Date(subscription.current_period_end) > now
+  ) {
+    return {
+      planTier,
+      periodStart: subscription.current_period_start.substring(0, 10),
+      periodEnd: subscription.current_period_end,
+    }
+  }
+
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const nextMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  return {
+    planTier,
+    periodStart: monthStart.toISOString().substring(0, 10),
+    periodEnd: nextMonthStart.toISOString(),
+  }
+}
+
+/**
+ * Get plan limits from the get_usage_limits() SQL function
+ * A limit of -1 means unlimited
+ */
+export async function getUsageLimits(userId: string): Promise<UsageLimits> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc("get_usage_limits", {
+    p_user_id: userId,
+  })
+
+  if (error) {
+    throw new ApiError(
+      "FETCH_ERROR",
+      "Failed to fetch usage limits",
+      500,
+      error
+    )
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as UsageLimits | null | undefined
+  return row || FREE_TIER_LIMITS
+}
+
+/**
+ * Count the user's custom sources (the live count is authoritative for this metric)
+ */
+async function countCustomSources(userId: string): Promise<number> {
+  const serviceClient = createServiceRoleClient()
+
+  const { count, error } = await serviceClient
+    .from("custom_sources")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+
+  if (error) {
+    throw new ApiError(
+      "FETCH_ERROR",
+      "Failed to count custom sources",
+      500,
+      error
+    )
+  }
+
+  return count || 0
+}
+
+/**
+ * Get current usage, limits and remaining quota for the user's billing period
+ */
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const serviceClient = createServiceRoleClient()
+  const { planTier, periodStart, periodEnd } = await getBillingPeriod(userId)
+  const limits = await getUsageLimits(userId)
+
+  const { data: tracking, error } = await serviceClient
+    .from("usage_tracking")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("period_start", periodStart)
+    .single()
+
+  if (error && error.code !== "PGRST116") {
+    throw new ApiError(
+      "FETCH_ERROR",
+      "Failed to fetch usage",
+      500,
+      error
+    )
+  }
+
+  const customSourcesCount = await countCustomSources(userId)
+
+  const usage = {} as Record<UsageMetric, number>
+  const limitValues = {} as Record<UsageMetric, number | null>
+  const remaining = {} as Record<UsageMetric, number | null>
+
+  for (const metric of ALL_METRICS) {
+    const columns = METRIC_COLUMNS[metric]
+    const used =
+      metric === "custom_sources"
+        ? customSourcesCount
+        : ((tracking?.[columns.usage] as number | undefined) ?? 0)
+    const limit = limits[columns.limit]
+
+    usage[metric] = used
+    limitValues[metric] = limit < 0 ? null : limit
+    remaining[metric] = limit < 0 ? null : Math.max(limit - used, 0)
+  }
+
+  return {
+    plan_tier: planTier,
+    period_start: periodStart,
+    period_end: periodEnd,
+    usage,
+    limits: limitValues,
+    remaining,
+  }
+}
+
+/**
+ * Get remaining quota for a single metric (null = unlimited)
+ */
+export async function getRemainingQuota(
+  userId: string,
+  metric: UsageMetric
+): Promise<number | null> {
+  const summary = await getUsageSummary(userId)
+  return summary.remaining[metric]
+}
+
+/**
+ * The QUOTA_EXCEEDED error for a metric
+ * Plan caps respond with 402 (upgrade required); API call caps respond with 429
+ */
+function quotaExceededError(
+  metric: UsageMetric,
+  quota: { planTier: PlanTier; limit: number | null; used: number; periodEnd: string }
+): ApiError {
+  const { label } = METRIC_COLUMNS[metric]
+  return new ApiError(
+    "QUOTA_EXCEEDED",
+    `You have reached your ${quota.planTier} plan limit of ${quota.limit} ${label} for this billing period`,
+    metric === "api_calls" ? 429 : 402,
+    {
+      metric,
+      plan_tier: quota.planTier,
+      limit: quota.limit,
+      used: quota.used,
+      period_end: quota.periodEnd,
+    }
+  )
+}
+
+/**
+ * Throw QUOTA_EXCEEDED if the user cannot consume `amount` more of a metric
+ * Only a pre-check (e.g. before queueing work): use consumeUsage() to count usage against the limit
+ */
+export async function assertWithinQuota(
+  userId: string,
+  metric: UsageMetric,
+  amount: number = 1
+): Promise<void> {
+  const summary = await getUsageSummary(userId)
+  const remaining = summary.remaining[metric]
+
+  if (remaining === null || remaining >= amount) {
+    return
+  }
+
+  throw quotaExceededError(metric, {
+    planTier: summary.plan_tier,
+    limit: summary.limits[metric],
+    used: summary.usage[metric],
+    periodEnd: summary.period_end,
+  })
+}
+
+/**
+ * Count `amount` of a metric against the user's plan limit, or throw QUOTA_EXCEEDED
+ * The check and the increment are one statement (see increment_usage()), so concurrent requests
+ * can't overshoot the limit. Give usage back with recordUsage(userId, metric, -amount) if the
+ * work then fails
+ */
+export async function consumeUsage(
+  userId: string,
+  metric: Exclude<UsageMetric, "custom_sources">,
+  amount: number = 1
+): Promise<void> {
+  const { planTier, periodStart, periodEnd } = await getBillingPeriod(userId)
+  const limits = await getUsageLimits(userId)
+  const limit = limits[METRIC_COLUMNS[metric].limit]
+  const serviceClient = createServiceRoleClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database type does not declare Functions
+  const { data, error } = await (serviceClient as any).rpc("increment_usage", {
+    p_user_id: userId,
+    p_period_start: periodStart,
+    p_metric: METRIC_COLUMNS[metric].usage,
+    p_amount: amount,
+    p_limit: limit,
+  })
+
+  if (error) {
+    throw new ApiError(
+      "USAGE_ERROR",
+      `Failed to record ${metric} usage`,
+      500,
+      error
+    )
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; used: number }
+  if (!row.allowed) {
+    throw quotaExceededError(metric, {
+      planTier,
+      limit: limit < 0 ? null : limit,
+      used: row.used,
+      periodEnd,
+    })
+  }
+}
+
+/**
+ * Record usage for the current billing period without checking the limit
+ * (a negative amount gives usage back, e.g. when work counted by consumeUsage() fails)
+ * Failures are logged rather than thrown so a counter hiccup never loses generated work
+ */
+export async function recordUsage(
+  userId: string,
+  metric: Exclude<UsageMetric, "custom_sources">,
+  amount: number = 1
+): Promise<void> {
+  try {
+    const { periodStart } = await getBillingPeriod(userId)
+    const serviceClient = createServiceRoleClient()
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Database type does not declare Functions
+    const { error } = await (serviceClient as any).rpc("increment_usage", {
+      p_user_id: userId,
+      p_period_start: periodStart,
+      p_metric: METRIC_COLUMNS[metric].usage,
+      p_amount: amount,
+    })
+
+    if (error) {
+      throw error
+    }
+  } catch (error) {
+    console.error(`Failed to record ${metric} usage`, {
+      userId,
+      amount,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
+
+/**
+ * Sync usage_tracking.custom_sources_count with the live custom_sources count
+ */
+export async function syncCustomSourcesCount(userId: string): Promise<void> {
+  try {
+    const { periodStart } = await getBillingPeriod(userId)
+    const count = await countCustomSources(userId)
+    const serviceClient = createServiceRoleClient()
+
+    const row: UsageTrackingInsert = {
+      user_id: userId,
+      period_start: periodStart,
+      custom_sources_count: count,
+    }
+
+    const { error } = await serviceClient
+      .from("usage_tracking")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Supabase client infers never for this table; row is checked against the Insert type above
+      .upsert(row as any, { onConflict: "user_id,period_start" })
+
+    if (error) {
+      throw error
+    }
+  } catch (error) {
+    console.error("Failed to sync custom sources usage", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
@@ -36,6 +36,12 @@ export interface CreatePreferencesInput {
   avoid_topics?: string[]
 }
 
+export interface SchedulePreferences {
+  notification_time: string // HH:MM, local time
+  timezone: string // IANA timezone name
+  notification_email: boolean
+}
+
 export interface CreateVoiceSampleInput {
   platform: Platform
   sample_text: string
@@ -416,3 +422,99 @@ export async function getUserContextForGeneration(
     avoid_topics: preferences?.avoid_topics || [],
   }
 }
+
+/**
+ * Check that a timezone is a valid IANA name (e.g. "America/Los_Angeles")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the user's morning schedule (local notification time and timezone)
+ */
+export async function getSchedulePreferences(userId: string): Promise<SchedulePreferences> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("notification_time, timezone, notification_email")
+    .eq("user_id", userId)
+    .single()
+
+  if (error && error.code !== "PGRST116") {
+    throw new ApiError(
+      "FETCH_ERROR",
+      "Failed to fetch schedule preferences",
+      500,
+      error
+    )
+  }
+
+  // Column defaults for users without a preferences row
+  return {
+    notification_time: (data?.notification_time || "06:00").substring(0, 5),
+    timezone: data?.timezone || "UTC",
+    notification_email: data?.notification_email ?? true,
+  }
+}
+
+/**
+ * Update the user's morning schedule
+ */
+export async function updateSchedulePreferences(
+  userId: string,
+  input: Partial<SchedulePreferences>
+): Promise<SchedulePreferences> {
+  const supabase = await createClient()
+
+  if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+    throw new ApiError(
+      "VALIDATION_ERROR",
+      `Unknown timezone: ${input.timezone}`,
+      400
+    )
+  }
+
+  if (input.notification_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.notification_time)) {
+    throw new ApiError(
+      "VALIDATION_ERROR",
+      "Notification time must be in HH:MM format",
+      400
+    )
+  }
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .upsert(
+      {
+        user_id: userId,
+        ...input,
+      },
+      {
+        onConflict: "user_id",
+      }
+    )
+    .select("notification_time, timezone, notification_email")
+    .single()
+
+  if (error) {
+    throw new ApiError(
+      "UPSERT_ERROR",
+      "Failed to save schedule preferences",
+      500,
+      error
+    )
+  }
+
+  return {
+    notification_time: data.notification_time.substring(0, 5),
+    timezone: data.timezone,
+    notification_email: data.notification_email,
+  }
+}
@@ -14,6 +14,10 @@ export type PlanTier = "free" | "pro" | "team" | "enterprise"
 export type SubscriptionStatus = "active" | "cancelled" | "past_due" | "trialing"
 export type SourceType = "reddit" | "google_trends" | "producthunt" | "hackernews" | "web" | "newsletter" | "custom_link" | "other"
 export type ScrapeFrequency = "hourly" | "daily" | "weekly"
+export type JobType = "scrape_source" | "process_newsletter" | "auto_generate" | "reextract_topics"
+export type JobStatus = "pending" | "running" | "completed" | "dead"
+export type SourceHealthStatus = "healthy" | "degraded" | "failing"
+export type ScrapeRunStatus = "success" | "failed"
 
 export interface Database {
   public: {
@@ -55,6 +59,7 @@ export interface Database {
           newsletter_weight: number
           notification_email: boolean
           notification_time: string
+          timezone: string
           created_at: string
           updated_at: string
         }
@@ -68,6 +73,7 @@ export interface Database {
           newsletter_weight?: number
           notification_email?: boolean
           notification_time?: string
+          timezone?: string
           created_at?: string
           updated_at?: string
         }
@@ -81,6 +87,7 @@ export interface Database {
           newsletter_weight?: number
           notification_email?: boolean
           notification_time?: string
+          timezone?: string
           created_at?: string
           updated_at?: string
         }
@@ -176,6 +183,9 @@ export interface Database {
           is_active: boolean
           scrape_frequency: ScrapeFrequency
           last_scraped_at: string | null
+          http_etag: string | null
+          http_last_modified: string | null
+          adapter_config: Json
           created_at: string
         }
         Insert: {
@@ -187,6 +197,9 @@ export interface Database {
           is_active?: boolean
           scrape_frequency?: ScrapeFrequency
           last_scraped_at?: string | null
+          http_etag?: string | null
+          http_last_modified?: string | null
+          adapter_config?: Json
           created_at?: string
         }
         Update: {
@@ -198,6 +211,9 @@ export interface Database {
           is_active?: boolean
           scrape_frequency?: ScrapeFrequency
           last_scraped_at?: string | null
+          http_etag?: string | null
+          http_last_modified?: string | null
+          adapter_config?: Json
           created_at?: string
         }
       }
@@ -208,8 +224,19 @@ export interface Database {
           source_url: string
           source_name: string
           source_type: string | null
+          category: string | null
           is_active: boolean
           last_scraped_at: string | null
+          health_status: SourceHealthStatus
+          consecutive_failures: number
+          last_success_at: string | null
+          last_error: string | null
+          last_error_code: string | null
+          auto_paused_at: string | null
+          http_etag: string | null
+          http_last_modified: string | null
+          adapter_config: Json
+          content_filters: Json
           created_at: string
         }
         Insert: {
@@ -218,8 +245,19 @@ export interface Database {
           source_url: string
           source_name: string
           source_type?: string | null
+          category?: string | null
           is_active?: boolean
           last_scraped_at?: string | null
+          health_status?: SourceHealthStatus
+          consecutive_failures?: number
+          last_success_at?: string | null
+          last_error?: string | null
+          last_error_code?: string | null
+          auto_paused_at?: string | null
+          http_etag?: string | null
+          http_last_modified?: string | null
+          adapter_config?: Json
+          content_filters?: Json
           created_at?: string
         }
         Update: {
@@ -228,8 +266,19 @@ export interface Database {
           source_url?: string
           source_name?: string
           source_type?: string | null
+          category?: string | null
           is_active?: boolean
           last_scraped_at?: string | null
+          health_status?: SourceHealthStatus
+          consecutive_failures?: number
+          last_success_at?: string | null
+          last_error?: string | null
+          last_error_code?: string | null
+          auto_paused_at?: string | null
+          http_etag?: string | null
+          http_last_modified?: string | null
+          adapter_config?: Json
+          content_filters?: Json
           created_at?: string
         }
       }
@@ -240,6 +289,7 @@ export interface Database {
           niche_id: string | null
           source_id: string | null
           newsletter_source_id: string | null
+          scrape_source_id: string | null
           source_type: SourceType
           title: string
           description: string | null
@@ -257,6 +307,7 @@ export interface Database {
           niche_id?: string | null
           source_id?: string | null
           newsletter_source_id?: string | null
+          scrape_source_id?: string | null
           source_type: SourceType
           title: string
           description?: string | null
@@ -274,6 +325,7 @@ export interface Database {
           niche_id?: string | null
           source_id?: string | null
           newsletter_source_id?: string | null
+          scrape_source_id?: string | null
           source_type?: SourceType
           title?: string
           description?: string | null
@@ -295,6 +347,8 @@ export interface Database {
           source_type: string
           is_active: boolean
           last_scraped_at: string | null
+          adapter_config: Json
+          content_filters: Json
           created_at: string
           updated_at: string
         }
@@ -306,6 +360,8 @@ export interface Database {
           source_type?: string
           is_active?: boolean
           last_scraped_at?: string | null
+          adapter_config?: Json
+          content_filters?: Json
           created_at?: string
           updated_at?: string
         }
@@ -317,6 +373,8 @@ export interface Database {
           source_type?: string
           is_active?: boolean
           last_scraped_at?: string | null
+          adapter_config?: Json
+          content_filters?: Json
           created_at?: string
           updated_at?: string
         }
@@ -464,8 +522,200 @@ export interface Database {
           created_at?: string
         }
       }
+      morning_scrape_runs: {
+        Row: {
+          id: string
+          user_id: string
+          run_date: string
+          timezone: string
+          started_at: string
+          completed_at: string | null
+          topics_found: number
+          posts_generated: number
+          errors: Json
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          run_date: string
+          timezone: string
+          started_at?: string
+          completed_at?: string | null
+          topics_found?: number
+          posts_generated?: number
+          errors?: Json
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          run_date?: string
+          timezone?: string
+          started_at?: string
+          completed_at?: string | null
+          topics_found?: number
+          posts_generated?: number
+          errors?: Json
+        }
+      }
+      scrape_runs: {
+        Row: {
+          id: string
+          source_id: string
+          user_id: string
+          status: ScrapeRunStatus
+          started_at: string
+          finished_at: string
+          duration_ms: number
+          items_seen: number
+          items_skipped: number
+          topics_created: number
+          error_code: string | null
+          error_message: string | null
+        }
+        Insert: {
+          id?: string
+          source_id: string
+          user_id: string
+          status: ScrapeRunStatus
+          started_at: string
+          finished_at?: string
+          duration_ms?: number
+          items_seen?: number
+          items_skipped?: number
+          topics_created?: number
+          error_code?: string | null
+          error_message?: string | null
+        }
+        Update: {
+          id?: string
+          source_id?: string
+          user_id?: string
+          status?: ScrapeRunStatus
+          started_at?: string
+          finished_at?: string
+          duration_ms?: number
+          items_seen?: number
+          items_skipped?: number
+          topics_created?: number
+          error_code?: string | null
+          error_message?: string | null
+        }
+      }
+      jobs: {
+        Row: {
+          id: string
+          job_type: JobType
+          user_id: string | null
+          payload: Json
+          status: JobStatus
+          attempts: number
+          max_attempts: number
+          run_at: string
+          locked_by: string | null
+          locked_until: string | null
+          last_error: string | null
+          result: Json | null
+          dedupe_key: string | null
+          created_at: string
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          job_type: JobType
+          user_id?: string | null
+          payload?: Json
+          status?: JobStatus
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          last_error?: string | null
+          result?: Json | null
+          dedupe_key?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          job_type?: JobType
+          user_id?: string | null
+          payload?: Json
+          status?: JobStatus
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          last_error?: string | null
+          result?: Json | null
+          dedupe_key?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+      }
+      scraped_documents: {
+        Row: {
+          id: string
+          user_id: string
+          source_id: string | null
+          newsletter_source_id: string | null
+          content_hash: string
+          url: string
+          title: string | null
+          author: string | null
+          excerpt: string | null
+          content: string
+          publish_date: string | null
+          metadata: Json
+          scraped_at: string
+          last_extracted_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          source_id?: string | null
+          newsletter_source_id?: string | null
+          content_hash: string
+          url: string
+          title?: string | null
+          author?: string | null
+          excerpt?: string | null
+          content: string
+          publish_date?: string | null
+          metadata?: Json
+          scraped_at: string
+          last_extracted_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          source_id?: string | null
+          newsletter_source_id?: string | null
+          content_hash?: string
+          url?: string
+          title?: string | null
+          author?: string | null
+          excerpt?: string | null
+          content?: string
+          publish_date?: string | null
+          metadata?: Json
+          scraped_at?: string
+          last_extracted_at?: string | null
+          created_at?: string
+        }
+      }
     }
   }
 }
 
 export type GeneratedPost = Database["public"]["Tables"]["generated_posts"]["Row"]
+export type Job = Database["public"]["Tables"]["jobs"]["Row"]
+export type CustomSource = Database["public"]["Tables"]["custom_sources"]["Row"]
+export type ScrapeRun = Database["public"]["Tables"]["scrape_runs"]["Row"]
+export type ScrapedDocument = Database["public"]["Tables"]["scraped_documents"]["Row"]
@@ -0,0 +1,79 @@
+-- Migration: Usage Quota Enforcement
+-- Adds an atomic counter function for usage_tracking so generations and API calls
+-- can be recorded per billing period without read-modify-write races, checking the
+-- plan limit in the same UPDATE so concurrent requests can't overshoot it
+
+-- ============================================================================
+-- 1. CREATE FUNCTIONS
+-- ============================================================================
+
+-- Function to increment a usage counter for a billing period unless that would take it past p_limit
+-- Creates the usage_tracking row for the period if it does not exist yet
+-- p_limit NULL or negative means unlimited; negative amounts (giving usage back) are always allowed.
+-- The UPDATE takes the row lock and re-checks the limit against the latest count, so concurrent
+-- callers are counted one at a time. Returns whether the increment happened, and the counter after it
+CREATE OR REPLACE FUNCTION public.increment_usage(
+    p_user_id uuid,
+    p_period_start date,
+    p_metric text,
+    p_amount integer DEFAULT 1,
+    p_limit integer DEFAULT NULL
+)
+RETURNS TABLE (allowed boolean, used integer) AS $$
+DECLARE
+    v_used integer;
+BEGIN
+    IF p_metric NOT IN ('manual_generations', 'auto_generations', 'custom_sources_count', 'api_calls_made') THEN
+        RAISE EXCEPTION 'Unknown usage metric: %', p_metric;
+    END IF;
+
+    INSERT INTO public.usage_tracking (user_id, period_start)
+    VALUES (p_user_id, p_period_start)
+    ON CONFLICT (user_id, period_start) DO NOTHING;
+
+    EXECUTE format(
+        'UPDATE public.usage_tracking
+            SET %I = GREATEST(%I + $1, 0)
+          WHERE user_id = $2 AND period_start = $3
+            AND ($4 IS NULL OR $4 < 0 OR $1 <= 0 OR %I + $1 <= $4)
+      RETURNING %I',
+        p_metric, p_metric, p_metric, p_metric
+    )
+    INTO v_used
+    USING p_amount, p_user_id, p_period_start, p_limit;
+
+    -- No row updated: the increment would have gone over the limit
+    IF v_used IS NULL THEN
+        EXECUTE format(
+            'SELECT %I FROM public.usage_tracking WHERE user_id = $1 AND period_start = $2',
+            p_metric
+        )
+        INTO v_used
+        USING p_user_id, p_period_start;
+
+        RETURN QUERY SELECT false, v_used;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT true, v_used;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) records usage; clients must not be able to
+-- call this directly and reset their own counters with a negative amount
+REVOKE EXECUTE ON FUNCTION public.increment_usage(uuid, date, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_usage(uuid, date, text, integer, integer) TO service_role;
+
+-- ============================================================================
+-- 2. CREATE RLS POLICIES
+-- ============================================================================
+
+-- Counters are written by increment_usage (SECURITY DEFINER) or the service role;
+-- users keep read-only access through the existing SELECT policy
+CREATE POLICY "Service role can manage usage tracking"
+    ON public.usage_tracking
+    USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,17 @@
+-- Migration: Global Niche Scraping
+-- Links global trending topics (user_id IS NULL) back to the scrape_sources row that produced them
+
+-- ============================================================================
+-- ADD COLUMNS TO trending_topics TABLE
+-- ============================================================================
+
+-- Add scrape_source_id column (nullable - set for global topics produced from scrape_sources)
+ALTER TABLE public.trending_topics
+ADD COLUMN IF NOT EXISTS scrape_source_id UUID REFERENCES public.scrape_sources(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_trending_topics_scrape_source ON public.trending_topics(scrape_source_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_sources_due ON public.scrape_sources(is_active, last_scraped_at);
@@ -0,0 +1,54 @@
+-- Migration: Per-User Morning Schedule
+-- Adds a timezone preference so notification_time is interpreted in the user's local time,
+-- and a run log so the hourly morning-scrape cron processes each user at most once per local day
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO user_preferences TABLE
+-- ============================================================================
+
+-- IANA timezone name (e.g. 'Australia/Sydney'); validated by the application
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS timezone text DEFAULT 'UTC' NOT NULL;
+
+ALTER TABLE public.user_preferences
+ADD CONSTRAINT check_timezone_length CHECK (length(timezone) BETWEEN 1 AND 64);
+
+-- ============================================================================
+-- 2. CREATE morning_scrape_runs TABLE
+-- ============================================================================
+
+-- One row per user per local calendar day; the unique constraint is the claim
+-- that stops overlapping or repeated cron runs from processing a user twice
+CREATE TABLE IF NOT EXISTS public.morning_scrape_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.user_profiles(user_id) ON DELETE CASCADE,
+    run_date date NOT NULL, -- Local date in the user's timezone
+    timezone text NOT NULL,
+    started_at timestamptz DEFAULT now() NOT NULL,
+    completed_at timestamptz,
+    topics_found integer DEFAULT 0 NOT NULL,
+    posts_generated integer DEFAULT 0 NOT NULL,
+    errors jsonb DEFAULT '[]' NOT NULL,
+    CONSTRAINT morning_scrape_runs_user_date_key UNIQUE (user_id, run_date)
+);
+
+-- ============================================================================
+-- 3. CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_morning_scrape_runs_user_date ON public.morning_scrape_runs(user_id, run_date DESC);
+
+-- ============================================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.morning_scrape_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own morning scrape runs"
+    ON public.morning_scrape_runs FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage morning scrape runs"
+    ON public.morning_scrape_runs FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,115 @@
+-- Migration: Durable Job Queue
+-- Postgres-backed queue for morning-scrape work (scrape_source, process_newsletter, auto_generate)
+-- Workers claim jobs under a time-limited lease; failed jobs retry with backoff until max_attempts,
+-- then move to the 'dead' state for inspection
+
+-- ============================================================================
+-- 1. CREATE jobs TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_type text NOT NULL,
+    user_id uuid REFERENCES public.user_profiles(user_id) ON DELETE CASCADE,
+    payload jsonb DEFAULT '{}' NOT NULL,
+    status text DEFAULT 'pending' NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    max_attempts integer DEFAULT 5 NOT NULL,
+    run_at timestamptz DEFAULT now() NOT NULL, -- Not claimable before this time (used for backoff)
+    locked_by text,
+    locked_until timestamptz, -- Lease expiry; an expired lease makes a running job claimable again
+    last_error text,
+    result jsonb,
+    dedupe_key text, -- Optional idempotency key so re-running the cron doesn't enqueue twice
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    completed_at timestamptz,
+    CONSTRAINT jobs_job_type_check CHECK (job_type IN ('scrape_source', 'process_newsletter', 'auto_generate')),
+    CONSTRAINT jobs_status_check CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+    CONSTRAINT jobs_dedupe_key_key UNIQUE (dedupe_key)
+);
+
+-- ============================================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable ON public.jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_jobs_lease ON public.jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_user_status ON public.jobs(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_jobs_run ON public.jobs((payload->>'runId')) WHERE payload ? 'runId';
+
+-- ============================================================================
+-- 3. CREATE FUNCTIONS
+-- ============================================================================
+
+-- Claim up to p_limit jobs for a worker
+-- Picks pending jobs whose run_at has passed, plus running jobs whose lease expired
+-- (the worker died mid-job). FOR UPDATE SKIP LOCKED lets concurrent workers claim
+-- disjoint batches. Jobs whose lease expired on their final attempt are dead-lettered.
+CREATE OR REPLACE FUNCTION public.claim_jobs(
+    p_worker_id text,
+    p_limit integer DEFAULT 5,
+    p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF public.jobs AS $$
+BEGIN
+    UPDATE public.jobs
+       SET status = 'dead',
+           last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+           locked_by = NULL,
+           locked_until = NULL,
+           updated_at = now()
+     WHERE status = 'running'
+       AND locked_until < now()
+       AND attempts >= max_attempts;
+
+    RETURN QUERY
+    WITH claimed AS (
+        UPDATE public.jobs
+           SET status = 'running',
+               attempts = attempts + 1,
+               locked_by = p_worker_id,
+               locked_until = now() + make_interval(secs => p_lease_seconds),
+               updated_at = now()
+         WHERE id IN (
+            SELECT id
+              FROM public.jobs
+             WHERE (status = 'pending' AND run_at <= now())
+                OR (status = 'running' AND locked_until < now())
+             ORDER BY run_at
+             LIMIT p_limit
+             FOR UPDATE SKIP LOCKED
+         )
+        RETURNING *
+    )
+    SELECT * FROM claimed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only workers (service role) may claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_jobs(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(text, integer, integer) TO service_role;
+
+-- ============================================================================
+-- 4. CREATE TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_jobs_updated_at
+    BEFORE UPDATE ON public.jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 5. ENABLE ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own jobs"
+    ON public.jobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage jobs"
+    ON public.jobs FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,60 @@
+-- Migration: Custom Source Scrape History and Health
+-- Records every scrape attempt against a custom source, and tracks a health state on the
+-- source itself so failing feeds are visible (and auto-paused) instead of failing silently
+
+-- ============================================================================
+-- 1. ADD HEALTH COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS health_status text DEFAULT 'healthy' NOT NULL,
+ADD COLUMN IF NOT EXISTS consecutive_failures integer DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS last_success_at timestamptz,
+ADD COLUMN IF NOT EXISTS last_error text,
+ADD COLUMN IF NOT EXISTS auto_paused_at timestamptz; -- Set when the source was deactivated after repeated failures
+
+ALTER TABLE public.custom_sources
+ADD CONSTRAINT check_health_status CHECK (health_status IN ('healthy', 'degraded', 'failing'));
+
+-- ============================================================================
+-- 2. CREATE scrape_runs TABLE
+-- ============================================================================
+
+-- One row per scrape attempt (manual or scheduled); written by the server with the service role
+CREATE TABLE IF NOT EXISTS public.scrape_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id uuid NOT NULL REFERENCES public.custom_sources(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.user_profiles(user_id) ON DELETE CASCADE,
+    status text NOT NULL,
+    started_at timestamptz NOT NULL,
+    finished_at timestamptz DEFAULT now() NOT NULL,
+    duration_ms integer DEFAULT 0 NOT NULL,
+    items_seen integer DEFAULT 0 NOT NULL,
+    items_skipped integer DEFAULT 0 NOT NULL,
+    topics_created integer DEFAULT 0 NOT NULL,
+    error_code text,
+    error_message text,
+    CONSTRAINT scrape_runs_status_check CHECK (status IN ('success', 'failed'))
+);
+
+-- ============================================================================
+-- 3. CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_source_started ON public.scrape_runs(source_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_user ON public.scrape_runs(user_id);
+
+-- ============================================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.scrape_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scrape runs"
+    ON public.scrape_runs FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage scrape runs"
+    ON public.scrape_runs FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
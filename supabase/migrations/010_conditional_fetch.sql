@@ -0,0 +1,19 @@
+-- Migration: Conditional Fetching
+-- Stores the ETag / Last-Modified validators from each source's last successful fetch so the next
+-- scrape can send If-None-Match / If-Modified-Since and skip unchanged feeds and pages on a 304
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS http_etag text,
+ADD COLUMN IF NOT EXISTS http_last_modified text; -- Kept verbatim (HTTP-date) to echo back to the server
+
+-- ============================================================================
+-- 2. ADD COLUMNS TO scrape_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.scrape_sources
+ADD COLUMN IF NOT EXISTS http_etag text,
+ADD COLUMN IF NOT EXISTS http_last_modified text;
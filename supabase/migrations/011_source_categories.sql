@@ -0,0 +1,19 @@
+-- Migration: Custom Source Categories
+-- Adds a free-form category to custom sources so OPML folders survive import and export
+-- Nested folders are stored as a path joined with ' / ' (e.g. 'Tech / AI')
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS category text;
+
+ALTER TABLE public.custom_sources
+ADD CONSTRAINT check_category_length CHECK (category IS NULL OR length(category) BETWEEN 1 AND 200);
+
+-- ============================================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_custom_sources_user_category ON public.custom_sources(user_id, category);
@@ -0,0 +1,10 @@
+-- Migration: robots.txt Compliance
+-- Scrapers now honour robots.txt; a source the site disallows fails with error code ROBOTS_DISALLOWED
+-- Keeps the code of the latest failure next to last_error so the sources page can explain it
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS last_error_code text;
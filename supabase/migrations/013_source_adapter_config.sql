@@ -0,0 +1,33 @@
+-- Migration: Source Adapter Config
+-- Sources are fetched through adapters (web page, RSS, sitemap, Reddit, Hacker News...), each with its own
+-- options validated against a zod schema; adapter_config holds those options per source
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS adapter_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- 2. ADD COLUMNS TO scrape_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.scrape_sources
+ADD COLUMN IF NOT EXISTS adapter_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- 3. ADD COLUMNS TO newsletter_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.newsletter_sources
+ADD COLUMN IF NOT EXISTS adapter_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- 4. BACKFILL
+-- ============================================================================
+
+-- The global scrape has always stored one item per Hacker News story; the adapter defaults to a digest
+UPDATE public.scrape_sources
+SET adapter_config = '{"mode": "stories"}'::jsonb
+WHERE source_type = 'hackernews';
@@ -0,0 +1,17 @@
+-- Migration: Source Content Filters
+-- Per-source include/exclude keywords, minimum content length and maximum items per run,
+-- applied to scraped items before topic extraction (see src/lib/scraping/content-filter.ts)
+
+-- ============================================================================
+-- 1. ADD COLUMNS TO custom_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.custom_sources
+ADD COLUMN IF NOT EXISTS content_filters jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- 2. ADD COLUMNS TO newsletter_sources TABLE
+-- ============================================================================
+
+ALTER TABLE public.newsletter_sources
+ADD COLUMN IF NOT EXISTS content_filters jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,62 @@
+-- Migration: Scraped Document Store
+-- Keeps the full cleaned text of every new item scraped for a user's custom and newsletter sources,
+-- keyed by content hash, so topics can be re-extracted (after a prompt change, or when the user
+-- changes their industry) without fetching anything again
+
+-- ============================================================================
+-- 1. CREATE scraped_documents TABLE
+-- ============================================================================
+
+-- Written by the server with the service role
+CREATE TABLE IF NOT EXISTS public.scraped_documents (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.user_profiles(user_id) ON DELETE CASCADE,
+    source_id uuid REFERENCES public.custom_sources(id) ON DELETE CASCADE,
+    newsletter_source_id uuid REFERENCES public.newsletter_sources(id) ON DELETE CASCADE,
+    content_hash text NOT NULL, -- Same hash the item's topics carry in metadata.content_hash
+    url text NOT NULL, -- Empty for newsletter emails
+    title text,
+    author text,
+    excerpt text,
+    content text NOT NULL, -- Full cleaned text, as passed to topic extraction
+    publish_date timestamptz,
+    metadata jsonb DEFAULT '{}' NOT NULL, -- ScrapedContent metadata (Open Graph, feed, structured data...)
+    scraped_at timestamptz NOT NULL,
+    last_extracted_at timestamptz, -- Last time topics were extracted from this document
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT scraped_documents_user_hash_key UNIQUE (user_id, content_hash),
+    CONSTRAINT scraped_documents_source_check CHECK (source_id IS NOT NULL OR newsletter_source_id IS NOT NULL)
+);
+
+-- ============================================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_scraped_documents_user_scraped ON public.scraped_documents(user_id, scraped_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scraped_documents_source ON public.scraped_documents(source_id) WHERE source_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_scraped_documents_newsletter_source ON public.scraped_documents(newsletter_source_id) WHERE newsletter_source_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.scraped_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scraped documents"
+    ON public.scraped_documents FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage scraped documents"
+    ON public.scraped_documents FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================================
+-- 4. ADD reextract_topics JOB TYPE
+-- ============================================================================
+
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_job_type_check;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_job_type_check
+CHECK (job_type IN ('scrape_source', 'process_newsletter', 'auto_generate', 'reextract_topics'));
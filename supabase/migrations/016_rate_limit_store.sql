@@ -0,0 +1,78 @@
+-- Migration: Postgres Rate Limit Store
+-- Per-domain scrape rate limit counters for deployments without Upstash Redis
+-- (see src/lib/scraping/rate-limit-store.ts). Fixed windows: a domain's count resets once its
+-- window has passed. blocked_until holds back-off requested by the site itself (429 / Retry-After)
+
+-- ============================================================================
+-- 1. CREATE rate_limit_buckets TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key text PRIMARY KEY, -- e.g. ratelimit:domain:example.com
+    window_start timestamptz DEFAULT now() NOT NULL,
+    hits integer DEFAULT 0 NOT NULL,
+    blocked_until timestamptz
+);
+
+-- ============================================================================
+-- 2. CREATE FUNCTIONS
+-- ============================================================================
+
+-- Count a request against a key and say whether it is allowed
+-- The upsert takes the row lock, so concurrent callers are counted one at a time
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+    p_key text,
+    p_limit integer,
+    p_window_ms integer
+)
+RETURNS TABLE (allowed boolean, hits integer, reset_at timestamptz) AS $$
+#variable_conflict use_column
+DECLARE
+    v_window interval := make_interval(secs => p_window_ms / 1000.0);
+    v_bucket public.rate_limit_buckets%ROWTYPE;
+BEGIN
+    INSERT INTO public.rate_limit_buckets AS b (key, window_start, hits)
+    VALUES (p_key, now(), 1)
+    ON CONFLICT (key) DO UPDATE
+       SET window_start = CASE WHEN b.window_start + v_window <= now() THEN now() ELSE b.window_start END,
+           hits = CASE WHEN b.window_start + v_window <= now() THEN 1 ELSE b.hits + 1 END
+    RETURNING * INTO v_bucket;
+
+    IF v_bucket.blocked_until IS NOT NULL AND v_bucket.blocked_until > now() THEN
+        RETURN QUERY SELECT false, v_bucket.hits, v_bucket.blocked_until;
+    ELSE
+        RETURN QUERY SELECT v_bucket.hits <= p_limit, v_bucket.hits, v_bucket.window_start + v_window;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Turn every request for a key away until p_until (never shortens an existing block)
+CREATE OR REPLACE FUNCTION public.block_rate_limit(
+    p_key text,
+    p_until timestamptz
+)
+RETURNS void AS $$
+BEGIN
+    INSERT INTO public.rate_limit_buckets AS b (key, blocked_until)
+    VALUES (p_key, p_until)
+    ON CONFLICT (key) DO UPDATE
+       SET blocked_until = GREATEST(COALESCE(b.blocked_until, p_until), p_until);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service role) checks and records rate limits
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(text, integer, integer) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.block_rate_limit(text, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.block_rate_limit(text, timestamptz) TO service_role;
+
+-- ============================================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage rate limit buckets"
+    ON public.rate_limit_buckets FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');